@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/utils/auth';
+import { readAudit } from '@/utils/audit';
+
+const MAX_LIMIT = 1000;
+
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { searchParams } = new URL(req.url);
+  const limit = Math.min(MAX_LIMIT, Math.max(1, parseInt(searchParams.get('limit') || '200', 10) || 200));
+  try {
+    const entries = await readAudit({
+      limit,
+      user: searchParams.get('user') || undefined,
+      action: searchParams.get('action') || undefined,
+      outcome: searchParams.get('outcome') || undefined,
+    });
+    return NextResponse.json(entries);
+  } catch (e) {
+    console.error("Error reading audit log:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,39 @@
+import { NextResponse } from 'next/server';
+import { requireRole } from '@/utils/auth';
+import { readToolPolicy, writeToolPolicy, validateToolPolicy, DEFAULT_TOOL_POLICY } from '@/utils/toolPolicy';
+import { recordAudit } from '@/utils/audit';
+import { clientIp } from '@/utils/rateLimit';
+
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  try {
+    return NextResponse.json({ policy: await readToolPolicy(), defaults: DEFAULT_TOOL_POLICY });
+  } catch (e) {
+    console.error("Error reading tool policy:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function PUT(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  try {
+    const result = validateToolPolicy(await req.json());
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    await writeToolPolicy(result.policy);
+
+    const { allow, deny, allowlistOnly } = result.policy;
+    await recordAudit(auth.principal, clientIp(req), {
+      action: 'policy.update',
+      outcome: 'ok',
+      detail: `allow: ${allow.join(', ') || '-'}; deny: ${deny.join(', ') || '-'}; allowlist only: ${allowlistOnly}`,
+    });
+    return NextResponse.json({ policy: result.policy });
+  } catch (e) {
+    console.error("Error saving tool policy:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,41 @@
+import { NextResponse } from 'next/server';
+import { nodeRepository } from '@/utils/nodeStore';
+import { bearerToken, hashAgentToken, validateAgentReport, recordAgentReport } from '@/utils/agents';
+import { withProbeResult } from '@/utils/scheduler';
+import { publish } from '@/utils/liveUpdates';
+
+// Agents post host metrics here, authenticated with the token generated for their node
+export async function POST(req: Request) {
+  try {
+    const token = bearerToken(req);
+    if (!token) {
+      return NextResponse.json({ error: 'Missing bearer token' }, { status: 401 });
+    }
+
+    const hash = hashAgentToken(token);
+    const nodes = await nodeRepository().list();
+    const node = nodes.find(n => n.agentTokenHash === hash);
+    if (!node) {
+      return NextResponse.json({ error: 'Invalid agent token' }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await req.json();
+    } catch {
+      return NextResponse.json({ error: 'Body must be JSON' }, { status: 400 });
+    }
+    const result = validateAgentReport((body ?? {}) as Record<string, unknown>);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    recordAgentReport(node.id, result.report);
+    publish({ type: 'node', data: withProbeResult(node) });
+
+    return NextResponse.json({ nodeId: node.id }, { status: 202 });
+  } catch (e) {
+    console.error("Error recording agent report:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
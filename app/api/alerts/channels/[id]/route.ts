@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { updateAlertConfig, validateChannel, maskChannel } from '@/utils/alertStore';
+import { requireRole } from '@/utils/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const body = await req.json();
+    const outcome = await updateAlertConfig(config => {
+      const index = config.channels.findIndex(c => c.id === id);
+      if (index === -1) return { status: 404, error: 'Channel not found' } as const;
+      const result = validateChannel(body, config.channels[index]);
+      if ('error' in result) return { status: 400, error: result.error } as const;
+      config.channels[index] = { id, ...result.channel };
+      return { channel: config.channels[index] };
+    });
+
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status });
+    }
+    return NextResponse.json(maskChannel(outcome.channel));
+  } catch (e) {
+    console.error("Error updating alert channel:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const deleted = await updateAlertConfig(config => {
+      const remaining = config.channels.filter(c => c.id !== id);
+      if (remaining.length === config.channels.length) return false;
+      config.channels = remaining;
+      // Rules keep working without the deleted channel
+      config.rules = config.rules.map(r => ({ ...r, channelIds: r.channelIds.filter(cid => cid !== id) }));
+      return true;
+    });
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Channel not found' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (e) {
+    console.error("Error deleting alert channel:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { readAlertConfig } from '@/utils/alertStore';
+import { notify } from '@/utils/notifiers';
+import { requireRole } from '@/utils/auth';
+
+// Sends a sample notification so a channel can be verified before a real incident
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const { channels } = await readAlertConfig();
+    const channel = channels.find(c => c.id === id);
+    if (!channel) {
+      return NextResponse.json({ error: 'Channel not found' }, { status: 404 });
+    }
+
+    try {
+      await notify(channel, {
+        state: 'test',
+        rule: 'Test notification',
+        subject: channel.name,
+        message: 'If you can read this, OpsGlobe alerts are reaching this channel.',
+        at: new Date().toISOString(),
+      });
+    } catch (e) {
+      return NextResponse.json({ error: `Delivery failed: ${(e as Error).message}` }, { status: 502 });
+    }
+
+    return NextResponse.json({ result: `Test notification sent to ${channel.name}` });
+  } catch (e) {
+    console.error("Error sending test notification:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
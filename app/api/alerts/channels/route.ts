@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import { readAlertConfig, updateAlertConfig, validateChannel, maskChannel } from '@/utils/alertStore';
+import { requireRole } from '@/utils/auth';
+
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  try {
+    const { channels } = await readAlertConfig();
+    return NextResponse.json(channels.map(maskChannel));
+  } catch (e) {
+    console.error("Error reading alert channels:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  try {
+    const body = await req.json();
+    const result = validateChannel(body);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const channel = await updateAlertConfig(config => {
+      const created = { id: `chan_${Date.now()}`, ...result.channel };
+      config.channels.push(created);
+      return created;
+    });
+
+    return NextResponse.json(maskChannel(channel), { status: 201 });
+  } catch (e) {
+    console.error("Error saving alert channel:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server';
+import { readAlertConfig, maskChannel } from '@/utils/alertStore';
+import { getActiveAlerts } from '@/utils/alerts';
+import { ensureScheduler } from '@/utils/scheduler';
+import { requireRole } from '@/utils/auth';
+
+// Everything the alerts panel needs in one request
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  try {
+    ensureScheduler();
+    const { rules, channels } = await readAlertConfig();
+    return NextResponse.json({ active: getActiveAlerts(), rules, channels: channels.map(maskChannel) });
+  } catch (e) {
+    console.error("Error reading alerts:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
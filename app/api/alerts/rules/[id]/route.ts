@@ -0,0 +1,54 @@
+import { NextResponse } from 'next/server';
+import { updateAlertConfig, validateRule } from '@/utils/alertStore';
+import { requireRole } from '@/utils/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function PATCH(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const body = await req.json();
+    const outcome = await updateAlertConfig(config => {
+      const index = config.rules.findIndex(r => r.id === id);
+      if (index === -1) return { status: 404, error: 'Rule not found' } as const;
+      const result = validateRule(body, config.rules[index]);
+      if ('error' in result) return { status: 400, error: result.error } as const;
+      const unknown = result.rule.channelIds.find(cid => !config.channels.some(c => c.id === cid));
+      if (unknown) return { status: 400, error: `Unknown channel: ${unknown}` } as const;
+      config.rules[index] = { id, ...result.rule };
+      return { rule: config.rules[index] };
+    });
+
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: outcome.status });
+    }
+    return NextResponse.json(outcome.rule);
+  } catch (e) {
+    console.error("Error updating alert rule:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const deleted = await updateAlertConfig(config => {
+      const remaining = config.rules.filter(r => r.id !== id);
+      if (remaining.length === config.rules.length) return false;
+      config.rules = remaining;
+      return true;
+    });
+
+    if (!deleted) {
+      return NextResponse.json({ error: 'Rule not found' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (e) {
+    console.error("Error deleting alert rule:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { readAlertConfig, updateAlertConfig, validateRule, AlertRule } from '@/utils/alertStore';
+import { requireRole } from '@/utils/auth';
+
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  try {
+    const { rules } = await readAlertConfig();
+    return NextResponse.json(rules);
+  } catch (e) {
+    console.error("Error reading alert rules:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  try {
+    const body = await req.json();
+    const result = validateRule(body);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const outcome = await updateAlertConfig(config => {
+      const unknown = result.rule.channelIds.find(id => !config.channels.some(c => c.id === id));
+      if (unknown) return { error: `Unknown channel: ${unknown}` };
+      const rule: AlertRule = { id: `rule_${Date.now()}`, ...result.rule };
+      config.rules.push(rule);
+      return { rule };
+    });
+
+    if ('error' in outcome) {
+      return NextResponse.json({ error: outcome.error }, { status: 400 });
+    }
+    return NextResponse.json(outcome.rule, { status: 201 });
+  } catch (e) {
+    console.error("Error saving alert rule:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,43 @@
+import { NextResponse } from 'next/server';
+import { readAuthStore, verifyPassword, hashPassword, publicUser } from '@/utils/userStore';
+import { createSession, cookieOptions, ensureAdminUser, SESSION_COOKIE, SESSION_TTL_SEC } from '@/utils/auth';
+import { takeToken, clientIp } from '@/utils/rateLimit';
+import { recordAudit } from '@/utils/audit';
+
+const LOGIN_LIMIT = 10; // attempts per client IP per minute
+
+// Compared against when the username doesn't exist, so response times don't reveal valid names
+let dummyHash: Promise<string> | null = null;
+
+export async function POST(req: Request) {
+  const ip = clientIp(req);
+  const limited = takeToken(`login:ip:${ip}`, LOGIN_LIMIT, 60 * 1000);
+  if (!limited.ok) {
+    return NextResponse.json(
+      { error: `Too many sign-in attempts; try again in ${limited.retryAfterSec}s` },
+      { status: 429, headers: { 'Retry-After': String(limited.retryAfterSec) } }
+    );
+  }
+  try {
+    const { username, password } = await req.json();
+    if (typeof username !== 'string' || typeof password !== 'string') {
+      return NextResponse.json({ error: 'Username and password are required' }, { status: 400 });
+    }
+
+    await ensureAdminUser();
+    const user = (await readAuthStore()).users.find(u => u.username === username && u.passwordHash);
+    const valid = await verifyPassword(password, user?.passwordHash ?? await (dummyHash ??= hashPassword('dummy-password')));
+    if (!user || !valid) {
+      await recordAudit(null, ip, { action: 'login', target: username, outcome: 'denied' });
+      return NextResponse.json({ error: 'Invalid username or password' }, { status: 401 });
+    }
+
+    await recordAudit({ id: user.id, username: user.username, role: user.role, via: 'session' }, ip, { action: 'login', outcome: 'ok' });
+    const res = NextResponse.json(publicUser(user));
+    res.cookies.set(SESSION_COOKIE, await createSession(user), cookieOptions(req, SESSION_TTL_SEC));
+    return res;
+  } catch (e) {
+    console.error("Error logging in:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
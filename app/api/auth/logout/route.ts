@@ -0,0 +1,8 @@
+import { NextResponse } from 'next/server';
+import { cookieOptions, SESSION_COOKIE } from '@/utils/auth';
+
+export async function POST(req: Request) {
+  const res = new NextResponse(null, { status: 204 });
+  res.cookies.set(SESSION_COOKIE, '', cookieOptions(req, 0));
+  return res;
+}
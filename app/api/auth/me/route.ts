@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { authenticate } from '@/utils/auth';
+
+export async function GET(req: Request) {
+  const principal = await authenticate(req);
+  if (!principal) {
+    return NextResponse.json({ error: 'Authentication required' }, { status: 401 });
+  }
+  return NextResponse.json(principal);
+}
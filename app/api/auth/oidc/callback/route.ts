@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { cookies } from 'next/headers';
+import { oidcEnabled, completeOidcLogin, OIDC_COOKIE } from '@/utils/oidc';
+import { createSession, cookieOptions, SESSION_COOKIE, SESSION_TTL_SEC } from '@/utils/auth';
+
+export async function GET(req: Request) {
+  if (!oidcEnabled()) {
+    return NextResponse.json({ error: 'Single sign-on is not configured' }, { status: 404 });
+  }
+  const flowCookie = (await cookies()).get(OIDC_COOKIE)?.value;
+  try {
+    const user = await completeOidcLogin(req, flowCookie);
+    const res = NextResponse.redirect(new URL('/', req.url));
+    res.cookies.set(SESSION_COOKIE, await createSession(user), cookieOptions(req, SESSION_TTL_SEC));
+    res.cookies.set(OIDC_COOKIE, '', cookieOptions(req, 0));
+    return res;
+  } catch (e) {
+    console.error("OIDC login failed:", e);
+    return NextResponse.redirect(new URL('/login?error=sso_failed', req.url));
+  }
+}
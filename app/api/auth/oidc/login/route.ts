@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server';
+import { oidcEnabled, beginOidcLogin, OIDC_COOKIE, OIDC_FLOW_TTL_SEC } from '@/utils/oidc';
+import { cookieOptions } from '@/utils/auth';
+
+export async function GET(req: Request) {
+  if (!oidcEnabled()) {
+    return NextResponse.json({ error: 'Single sign-on is not configured' }, { status: 404 });
+  }
+  try {
+    const { url, cookie } = await beginOidcLogin(req);
+    const res = NextResponse.redirect(url);
+    res.cookies.set(OIDC_COOKIE, cookie, cookieOptions(req, OIDC_FLOW_TTL_SEC));
+    return res;
+  } catch (e) {
+    console.error("Error starting OIDC login:", e);
+    return NextResponse.redirect(new URL('/login?error=sso_unavailable', req.url));
+  }
+}
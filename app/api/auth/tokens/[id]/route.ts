@@ -0,0 +1,23 @@
+import { NextResponse } from 'next/server';
+import { updateAuthStore } from '@/utils/userStore';
+import { requireRole } from '@/utils/auth';
+
+export async function DELETE(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const removed = await updateAuthStore(store => {
+      const before = store.tokens.length;
+      store.tokens = store.tokens.filter(t => t.id !== id);
+      return store.tokens.length < before;
+    });
+    if (!removed) {
+      return NextResponse.json({ error: 'Token not found' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (e) {
+    console.error("Error revoking API token:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,50 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { readAuthStore, updateAuthStore, publicToken, ApiToken } from '@/utils/userStore';
+import { requireRole, API_TOKEN_PREFIX } from '@/utils/auth';
+import { isRole, hasRole } from '@/utils/roles';
+
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  try {
+    const { tokens } = await readAuthStore();
+    return NextResponse.json(tokens.map(publicToken));
+  } catch (e) {
+    console.error("Error reading API tokens:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Creates a bearer token for automation. The token is returned once; only its hash is kept.
+export async function POST(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  try {
+    const { name, role } = await req.json();
+    if (typeof name !== 'string' || !name.trim()) {
+      return NextResponse.json({ error: 'Token name is required' }, { status: 400 });
+    }
+    if (!isRole(role) || !hasRole(auth.principal.role, role)) {
+      return NextResponse.json({ error: 'Role must be viewer, operator or admin' }, { status: 400 });
+    }
+
+    const token = `${API_TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+    const record: ApiToken = {
+      id: `tok_${crypto.randomBytes(6).toString('hex')}`,
+      name: name.trim(),
+      role,
+      hash: crypto.createHash('sha256').update(token).digest('hex'),
+      createdBy: auth.principal.username,
+      createdAt: new Date().toISOString(),
+    };
+    await updateAuthStore(store => {
+      store.tokens.push(record);
+    });
+
+    return NextResponse.json({ ...publicToken(record), token }, { status: 201 });
+  } catch (e) {
+    console.error("Error creating API token:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
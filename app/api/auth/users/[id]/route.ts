@@ -0,0 +1,71 @@
+import { NextResponse } from 'next/server';
+import { readAuthStore, updateAuthStore, validateUserInput, hashPassword, publicUser, AuthStore } from '@/utils/userStore';
+import { requireRole } from '@/utils/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+const adminCount = (store: AuthStore) => store.users.filter(u => u.role === 'admin').length;
+
+export async function PATCH(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const existing = (await readAuthStore()).users.find(u => u.id === id);
+    if (!existing) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    }
+    const result = validateUserInput(await req.json(), existing);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    if (existing.oidcSubject && (result.username || result.password)) {
+      return NextResponse.json({ error: 'Single sign-on users are managed by the identity provider' }, { status: 400 });
+    }
+
+    const passwordHash = result.password ? await hashPassword(result.password) : undefined;
+    const outcome = await updateAuthStore(store => {
+      const user = store.users.find(u => u.id === id);
+      if (!user) return 'missing' as const;
+      if (result.username && store.users.some(u => u.id !== id && u.username === result.username && u.passwordHash)) return 'taken' as const;
+      if (result.role && result.role !== 'admin' && user.role === 'admin' && adminCount(store) === 1) return 'last-admin' as const;
+      if (result.username) user.username = result.username;
+      if (result.role) user.role = result.role;
+      if (passwordHash) user.passwordHash = passwordHash;
+      return user;
+    });
+
+    if (outcome === 'missing') return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    if (outcome === 'taken') return NextResponse.json({ error: 'Username is already taken' }, { status: 409 });
+    if (outcome === 'last-admin') return NextResponse.json({ error: 'At least one admin must remain' }, { status: 400 });
+    return NextResponse.json(publicUser(outcome));
+  } catch (e) {
+    console.error("Error updating user:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  if (id === auth.principal.id) {
+    return NextResponse.json({ error: 'You cannot delete your own account' }, { status: 400 });
+  }
+  try {
+    const outcome = await updateAuthStore(store => {
+      const user = store.users.find(u => u.id === id);
+      if (!user) return 'missing';
+      if (user.role === 'admin' && adminCount(store) === 1) return 'last-admin';
+      store.users = store.users.filter(u => u.id !== id);
+      return 'deleted';
+    });
+
+    if (outcome === 'missing') return NextResponse.json({ error: 'User not found' }, { status: 404 });
+    if (outcome === 'last-admin') return NextResponse.json({ error: 'At least one admin must remain' }, { status: 400 });
+    return new NextResponse(null, { status: 204 });
+  } catch (e) {
+    console.error("Error deleting user:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
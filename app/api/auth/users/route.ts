@@ -0,0 +1,49 @@
+import crypto from 'crypto';
+import { NextResponse } from 'next/server';
+import { readAuthStore, updateAuthStore, validateUserInput, hashPassword, publicUser, User } from '@/utils/userStore';
+import { requireRole } from '@/utils/auth';
+
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  try {
+    const { users } = await readAuthStore();
+    return NextResponse.json(users.map(publicUser));
+  } catch (e) {
+    console.error("Error reading users:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function POST(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  try {
+    const result = validateUserInput(await req.json());
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const passwordHash = await hashPassword(result.password!);
+    const user = await updateAuthStore(store => {
+      if (store.users.some(u => u.username === result.username && u.passwordHash)) return null;
+      const created: User = {
+        id: `user_${crypto.randomBytes(6).toString('hex')}`,
+        username: result.username!,
+        role: result.role!,
+        passwordHash,
+        createdAt: new Date().toISOString(),
+      };
+      store.users.push(created);
+      return created;
+    });
+    if (!user) {
+      return NextResponse.json({ error: 'Username is already taken' }, { status: 409 });
+    }
+
+    return NextResponse.json(publicUser(user), { status: 201 });
+  } catch (e) {
+    console.error("Error creating user:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
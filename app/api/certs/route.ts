@@ -0,0 +1,49 @@
+import { NextResponse } from 'next/server';
+import { nodeRepository } from '@/utils/nodeStore';
+import { ensureScheduler } from '@/utils/scheduler';
+import { certificateInventory, sweepCertificates, isSweeping, CertInventoryEntry } from '@/utils/certInventory';
+import { requireRole } from '@/utils/auth';
+import { clientIp } from '@/utils/rateLimit';
+import { recordAudit } from '@/utils/audit';
+
+// Entries carry the name from when the node was checked; show the current one
+const inventory = async () => {
+  const names = new Map((await nodeRepository().list()).map(n => [n.id, n.name]));
+  return {
+    entries: certificateInventory()
+      .filter(entry => names.has(entry.nodeId))
+      .map((entry): CertInventoryEntry => ({ ...entry, name: names.get(entry.nodeId)! })),
+    sweeping: isSweeping(),
+  };
+};
+
+// The scheduler fills the inventory in the background; GET never connects itself
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  try {
+    ensureScheduler();
+    return NextResponse.json(await inventory());
+  } catch (e) {
+    console.error("Error reading certificate inventory:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Re-checks every node now instead of waiting for entries to go stale
+export async function POST(req: Request) {
+  const auth = await requireRole(req, 'operator');
+  if ('response' in auth) return auth.response;
+  try {
+    if (isSweeping()) {
+      return NextResponse.json({ error: 'A certificate check is already running' }, { status: 409 });
+    }
+    const nodes = await nodeRepository().list();
+    await sweepCertificates(nodes, { force: true });
+    await recordAudit(auth.principal, clientIp(req), { action: 'cert_refresh', outcome: 'ok', detail: `${nodes.length} node(s) checked` });
+    return NextResponse.json(await inventory());
+  } catch (e) {
+    console.error("Error refreshing certificates:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { deleteFilterPreset } from '@/utils/filterPresets';
+import { requireRole } from '@/utils/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    if (!await deleteFilterPreset(auth.principal.id, id)) {
+      return NextResponse.json({ error: 'Preset not found' }, { status: 404 });
+    }
+    return new NextResponse(null, { status: 204 });
+  } catch (e) {
+    console.error("Error deleting filter preset:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { listFilterPresets, saveFilterPreset, validateFilterPreset } from '@/utils/filterPresets';
+import { requireRole } from '@/utils/auth';
+
+// The caller's own presets; everyone who can see the node list can save views of it
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  try {
+    return NextResponse.json(await listFilterPresets(auth.principal.id));
+  } catch (e) {
+    console.error("Error reading filter presets:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+// Body: { name, query, status?, groupBy? }. A preset with the same name is replaced.
+export async function POST(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  try {
+    const result = validateFilterPreset(await req.json());
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+    const saved = await saveFilterPreset(auth.principal.id, result.preset);
+    if ('error' in saved) {
+      return NextResponse.json({ error: saved.error }, { status: 400 });
+    }
+    return NextResponse.json(saved.preset, { status: 201 });
+  } catch (e) {
+    console.error("Error saving filter preset:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server';
+import { ensureScheduler } from '@/utils/scheduler';
+import { collectMetrics, METRICS_CONTENT_TYPE } from '@/utils/metrics';
+import { requireRole } from '@/utils/auth';
+
+// Scraped by Prometheus with a viewer API token as the bearer credential
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  try {
+    ensureScheduler();
+    return new NextResponse(await collectMetrics(), { headers: { 'Content-Type': METRICS_CONTENT_TYPE } });
+  } catch (e) {
+    console.error("Error collecting metrics:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
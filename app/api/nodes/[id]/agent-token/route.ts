@@ -0,0 +1,46 @@
+import { NextResponse } from 'next/server';
+import { nodeRepository } from '@/utils/nodeStore';
+import { generateAgentToken, forgetAgent } from '@/utils/agents';
+import { publishNodes } from '@/utils/scheduler';
+import { requireRole } from '@/utils/auth';
+
+type Params = { params: Promise<{ id: string }> };
+
+// Issues a new agent token for the node, replacing (and revoking) any previous one.
+// The plain token is only returned here; the node keeps its hash.
+export async function POST(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const { token, hash } = generateAgentToken();
+    if (!(await nodeRepository().update(id, { agentTokenHash: hash }))) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    forgetAgent(id);
+    void publishNodes();
+
+    return NextResponse.json({ token }, { status: 201 });
+  } catch (e) {
+    console.error("Error generating agent token:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    if (!(await nodeRepository().update(id, { agentTokenHash: undefined }))) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    forgetAgent(id);
+    void publishNodes();
+
+    return new NextResponse(null, { status: 204 });
+  } catch (e) {
+    console.error("Error revoking agent token:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
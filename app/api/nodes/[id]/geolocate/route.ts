@@ -0,0 +1,35 @@
+import { NextResponse } from 'next/server';
+import { nodeRepository } from '@/utils/nodeStore';
+import { lookupLocation } from '@/utils/geoip';
+import { publishNodes, withProbeResult } from '@/utils/scheduler';
+import { requireRole } from '@/utils/auth';
+
+// Re-runs the GeoIP lookup for a node, e.g. after its IP was changed or moved
+export async function POST(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const repo = nodeRepository();
+    const node = await repo.get(id);
+    if (!node) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+
+    const geo = await lookupLocation(node.ip);
+    if (!geo) {
+      return NextResponse.json({ error: `Location could not be determined for ${node.ip}` }, { status: 422 });
+    }
+
+    const updated = await repo.update(id, { lat: geo.lat, lng: geo.lng, region: geo.region });
+    if (!updated) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    void publishNodes();
+
+    return NextResponse.json(withProbeResult(updated));
+  } catch (e) {
+    console.error("Error geolocating node:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
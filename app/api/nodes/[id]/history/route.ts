@@ -0,0 +1,53 @@
+import { NextResponse } from 'next/server';
+import { nodeRepository } from '@/utils/nodeStore';
+import { readHistory, downsample } from '@/utils/history';
+import { requireRole } from '@/utils/auth';
+
+const DEFAULT_RANGE_MS = 24 * 60 * 60 * 1000;
+const MAX_POINTS = 300; // Plenty for a sparkline; wider ranges get bucketed
+
+// Accepts epoch milliseconds or anything Date can parse (e.g. ISO strings)
+const parseTime = (value: string | null): number | null => {
+  if (!value) return null;
+  const num = Number(value);
+  const t = Number.isFinite(num) ? num : Date.parse(value);
+  return Number.isFinite(t) ? t : NaN;
+};
+
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  const { searchParams } = new URL(req.url);
+
+  const to = parseTime(searchParams.get('to')) ?? Date.now();
+  const from = parseTime(searchParams.get('from')) ?? to - DEFAULT_RANGE_MS;
+  if (Number.isNaN(from) || Number.isNaN(to) || from > to) {
+    return NextResponse.json({ error: 'from and to must be valid timestamps with from <= to' }, { status: 400 });
+  }
+
+  try {
+    if (!(await nodeRepository().get(id))) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+
+    let points = await readHistory(id, from, to);
+    if (points.length > MAX_POINTS) {
+      points = downsample(points, Math.ceil((to - from) / MAX_POINTS));
+    }
+
+    const samples = points.reduce((sum, p) => sum + p.samples, 0);
+    const up = points.reduce((sum, p) => sum + p.up, 0);
+
+    return NextResponse.json({
+      nodeId: id,
+      from,
+      to,
+      uptime: samples > 0 ? (up / samples) * 100 : null,
+      points,
+    });
+  } catch (e) {
+    console.error("Error reading history:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
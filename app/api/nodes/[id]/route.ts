@@ -0,0 +1,108 @@
+import { NextResponse } from 'next/server';
+import { nodeRepository, validateNodePatch, NodeRecord } from '@/utils/nodeStore';
+import { lookupLocation } from '@/utils/geoip';
+import { ensureScheduler, resetProbe, withProbeResult, publishNodes } from '@/utils/scheduler';
+import { deleteHistory } from '@/utils/history';
+import { deleteToolRuns } from '@/utils/toolRuns';
+import { requireRole } from '@/utils/auth';
+import { checkDependencies } from '@/utils/dependencies';
+
+type Params = { params: Promise<{ id: string }> };
+
+export async function GET(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    ensureScheduler();
+    const node = await nodeRepository().get(id);
+    if (!node) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    return NextResponse.json(withProbeResult(node));
+  } catch (e) {
+    console.error("Error reading node:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function PATCH(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const body = await req.json();
+    const result = validateNodePatch(body);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
+    }
+
+    const repo = nodeRepository();
+    const existing = await repo.get(id);
+    if (!existing) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+
+    if (result.patch.dependsOn) {
+      const error = checkDependencies(id, result.patch.dependsOn, await repo.list());
+      if (error) return NextResponse.json({ error }, { status: 400 });
+    }
+
+    const { lat, lng, metricsUrl, ...rest } = result.patch;
+    const changes: Partial<NodeRecord> = { ...rest };
+    if (metricsUrl !== undefined) changes.metricsUrl = metricsUrl ?? undefined;
+
+    // Blanked coordinates mean "auto-detect again", same as on creation
+    if (lat === null || lng === null) {
+      const geo = await lookupLocation(rest.ip ?? existing.ip);
+      changes.lat = geo?.lat ?? null;
+      changes.lng = geo?.lng ?? null;
+      if (geo && !rest.region) changes.region = geo.region;
+    } else {
+      if (lat !== undefined) changes.lat = lat;
+      if (lng !== undefined) changes.lng = lng;
+    }
+
+    const updated = await repo.update(id, changes);
+    if (!updated) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+
+    // A different target or check makes the cached status meaningless
+    if (rest.ip !== undefined || rest.check !== undefined || rest.rules !== undefined) resetProbe(id);
+    void publishNodes();
+
+    return NextResponse.json(withProbeResult(updated));
+  } catch (e) {
+    console.error("Error updating node:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
+
+export async function DELETE(req: Request, { params }: Params) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    const repo = nodeRepository();
+    if (!(await repo.delete(id))) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+
+    // Drop the deleted node from the dependency lists of the nodes that relied on it
+    for (const node of await repo.list()) {
+      if (!node.dependsOn?.includes(id)) continue;
+      const dependsOn = node.dependsOn.filter(d => d !== id);
+      await repo.update(node.id, { dependsOn: dependsOn.length ? dependsOn : undefined });
+    }
+
+    resetProbe(id);
+    await deleteHistory(id);
+    await deleteToolRuns(id);
+    void publishNodes();
+    return new NextResponse(null, { status: 204 });
+  } catch (e) {
+    console.error("Error deleting node:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
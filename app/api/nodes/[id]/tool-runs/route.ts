@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server';
+import { readToolRuns } from '@/utils/toolRuns';
+import { findToolNode } from '@/utils/tools';
+import { requireRole } from '@/utils/auth';
+
+// The last tool runs against the node, newest first. Viewers see them too; only running
+// tools needs the operator role.
+export async function GET(req: Request, { params }: { params: Promise<{ id: string }> }) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  const { id } = await params;
+  try {
+    if (!(await findToolNode(id))) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    return NextResponse.json(await readToolRuns(id));
+  } catch (e) {
+    console.error("Error reading tool runs:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -0,0 +1,26 @@
+import { NextResponse } from 'next/server';
+import { nodeRepository } from '@/utils/nodeStore';
+import { exportNodes, NODE_FORMATS, NodeFormat } from '@/utils/nodeTransfer';
+import { requireRole } from '@/utils/auth';
+
+// ?format=csv|json|yaml|file_sd|ansible (default json), sent as a file download
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  const format = new URL(req.url).searchParams.get('format') ?? 'json';
+  if (!NODE_FORMATS.includes(format as NodeFormat)) {
+    return NextResponse.json({ error: `Format must be one of: ${NODE_FORMATS.join(', ')}` }, { status: 400 });
+  }
+  try {
+    const { body, contentType, fileName } = exportNodes(await nodeRepository().list(), format as NodeFormat);
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': `${contentType}; charset=utf-8`,
+        'Content-Disposition': `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (e) {
+    console.error("Error exporting nodes:", e);
+    return NextResponse.json({ error: 'Node storage is unavailable' }, { status: 500 });
+  }
+}
@@ -0,0 +1,130 @@
+import { NextResponse } from 'next/server';
+import crypto from 'crypto';
+import { nodeRepository, NodeBatch, NodeRecord } from '@/utils/nodeStore';
+import { lookupLocation } from '@/utils/geoip';
+import { resetProbe, publishNodes } from '@/utils/scheduler';
+import { DEFAULT_CHECK } from '@/utils/checkSpec';
+import { detectFormat, parseImport, planImport, summarizeImport, NODE_FORMATS, NodeFormat, PlannedRow, ImportPlanRow } from '@/utils/nodeTransfer';
+import { requireRole } from '@/utils/auth';
+import { clientIp } from '@/utils/rateLimit';
+import { recordAudit } from '@/utils/audit';
+
+const MAX_IMPORT_BYTES = 2 * 1024 * 1024;
+
+// Builds every create and update first and stores them in one write, so a large import doesn't
+// rewrite the store once per row. New nodes get their ids up front, which lets dependencies on
+// other rows of the same file resolve before anything is written. Fills in nodeId on the created
+// rows.
+const applyImport = async (plan: PlannedRow[]) => {
+  const batch: NodeBatch = { create: [], update: [] };
+
+  for (const p of plan) {
+    if (p.action === 'create' && p.patch) p.nodeId = `node_${Date.now()}_${crypto.randomBytes(3).toString('hex')}`;
+  }
+  const rowIds = new Map(plan.filter(p => p.action === 'create' && p.nodeId).map(p => [p.row, p.nodeId!]));
+  const resolveDependsOn = (dependsOn: string[]) => {
+    const ids = dependsOn.map(d => (d.startsWith('row:') ? rowIds.get(Number(d.slice(4)))! : d));
+    return ids.length ? ids : undefined;
+  };
+
+  for (const p of plan) {
+    if (p.action !== 'create' || !p.patch || !p.nodeId) continue;
+    const { name, ip, check, rules, metricsUrl, tags, dependsOn } = p.patch as { name: string; ip: string } & typeof p.patch;
+    let { lat, lng, region } = p.patch;
+    // Same auto-geolocation as adding a single node
+    if (lat == null || lng == null) {
+      const geo = await lookupLocation(ip);
+      lat = geo?.lat ?? null;
+      lng = geo?.lng ?? null;
+      if (geo && !region) region = geo.region;
+    }
+    const resolved = dependsOn && resolveDependsOn(dependsOn);
+    batch.create.push({
+      id: p.nodeId,
+      name,
+      ip,
+      lat,
+      lng,
+      region: region || (lat == null ? 'Unknown Location' : 'Auto-Detected'),
+      check: check ?? DEFAULT_CHECK,
+      ...(rules ? { rules } : {}),
+      ...(metricsUrl ? { metricsUrl } : {}),
+      ...(tags?.length ? { tags } : {}),
+      ...(resolved ? { dependsOn: resolved } : {}),
+      status: 'offline',
+    });
+  }
+
+  for (const p of plan) {
+    if (p.action !== 'update' || !p.patch || !p.nodeId) continue;
+    const { lat, lng, metricsUrl, dependsOn, ...rest } = p.patch;
+    const changes: Partial<NodeRecord> = { ...rest };
+    if (metricsUrl !== undefined) changes.metricsUrl = metricsUrl ?? undefined;
+    if (dependsOn) changes.dependsOn = resolveDependsOn(dependsOn);
+    // Blanked coordinates mean "auto-detect again", as in PATCH /api/nodes/:id
+    if (lat === null || lng === null) {
+      const geo = await lookupLocation(rest.ip ?? p.ip ?? '');
+      changes.lat = geo?.lat ?? null;
+      changes.lng = geo?.lng ?? null;
+      if (geo && !rest.region) changes.region = geo.region;
+    } else {
+      if (lat !== undefined) changes.lat = lat;
+      if (lng !== undefined) changes.lng = lng;
+    }
+    batch.update.push({ id: p.nodeId, patch: changes });
+  }
+
+  await nodeRepository().batch(batch);
+  for (const p of plan) {
+    if (p.action === 'update' && p.nodeId && p.changes?.some(c => c === 'ip' || c === 'check' || c === 'rules')) resetProbe(p.nodeId);
+  }
+};
+
+// Body: { data, format?, fileName?, dryRun? }. Without a format it is detected from the file
+// name or the content. A dry run only reports what each row would do; otherwise the creates
+// and updates are applied and conflicting or invalid rows are skipped.
+export async function POST(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
+  try {
+    const body = await req.json();
+    if (typeof body.data !== 'string' || !body.data.trim()) {
+      return NextResponse.json({ error: 'Import data is required' }, { status: 400 });
+    }
+    if (body.data.length > MAX_IMPORT_BYTES) {
+      return NextResponse.json({ error: 'Import file is too large' }, { status: 413 });
+    }
+    const format = body.format || detectFormat(body.data, typeof body.fileName === 'string' ? body.fileName : undefined);
+    if (!NODE_FORMATS.includes(format)) {
+      return NextResponse.json({ error: `Format must be one of: ${NODE_FORMATS.join(', ')}` }, { status: 400 });
+    }
+
+    const parsed = parseImport(body.data, format as NodeFormat);
+    if ('error' in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const plan = planImport(parsed.rows, await nodeRepository().list());
+    const dryRun = Boolean(body.dryRun);
+    const summary = summarizeImport(plan);
+
+    if (!dryRun && summary.create + summary.update > 0) {
+      await applyImport(plan);
+      void publishNodes();
+      await recordAudit(auth.principal, clientIp(req), {
+        action: 'nodes.import',
+        outcome: 'ok',
+        detail: `${format}: ${summary.create} created, ${summary.update} updated, ${summary.conflict + summary.invalid} skipped`,
+      });
+    }
+
+    return NextResponse.json({
+      format,
+      dryRun,
+      summary,
+      rows: plan.map((p): ImportPlanRow => ({ row: p.row, action: p.action, name: p.name, ip: p.ip, nodeId: p.nodeId, changes: p.changes, error: p.error })),
+    });
+  } catch (e) {
+    console.error("Error importing nodes:", e);
+    return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
+  }
+}
@@ -1,114 +1,80 @@
 import { NextResponse } from 'next/server';
-import fs from 'fs/promises';
-import path from 'path';
-import net from 'net';
+import crypto from 'crypto';
+import { nodeRepository, validateNodePatch, NodeRecord } from '@/utils/nodeStore';
+import { lookupLocation } from '@/utils/geoip';
+import { ensureScheduler, withProbeResult, publishNodes } from '@/utils/scheduler';
+import { DEFAULT_CHECK } from '@/utils/checkSpec';
+import { requireRole } from '@/utils/auth';
+import { checkDependencies } from '@/utils/dependencies';
 
-const NODES_FILE = path.join(process.cwd(), 'utils', 'nodes.json');
-
-// Helper to check server status via TCP
-const checkServerStatus = (host: string): Promise<ServerStatus> => {
-  return new Promise((resolve) => {
-    const port = 80; // Default to port 80 for a basic check
-    const socket = new net.Socket();
-    socket.setTimeout(1500);
-
-    socket.on('connect', () => {
-      socket.destroy();
-      resolve('online');
-    });
-    socket.on('timeout', () => {
-      socket.destroy();
-      resolve('offline');
-    });
-    socket.on('error', () => {
-      socket.destroy();
-      resolve('offline');
-    });
-
-    try {
-      socket.connect(port, host);
-    } catch (e) {
-      resolve('offline');
-    }
-  });
-};
-
-
-export async function GET() {
+// Returns the scheduler's cached probe state; GET never probes itself
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
   try {
-    try {
-      await fs.access(NODES_FILE);
-    } catch {
-      await fs.writeFile(NODES_FILE, '[]'); // Create if doesn't exist
-    }
-
-    const data = await fs.readFile(NODES_FILE, 'utf-8');
-    let nodes = JSON.parse(data);
-    
-    const nodesWithStatus = await Promise.all(nodes.map(async (node: any) => {
-      const status = await checkServerStatus(node.ip);
-      return { ...node, status };
-    }));
-
-    return NextResponse.json(nodesWithStatus);
+    ensureScheduler();
+    const nodes = await nodeRepository().list();
+    return NextResponse.json(nodes.map(withProbeResult));
   } catch (e) {
+    // An empty list here would look like every node was deleted
     console.error("Error reading nodes:", e);
-    return NextResponse.json([]);
+    return NextResponse.json({ error: 'Node storage is unavailable' }, { status: 500 });
   }
 }
 
 export async function POST(req: Request) {
+  const auth = await requireRole(req, 'admin');
+  if ('response' in auth) return auth.response;
   try {
-    let { name, ip, lat, lng, region } = await req.json();
+    const body = await req.json();
 
-    if (!name || !ip) {
+    if (!body.name || !body.ip) {
       return NextResponse.json({ error: 'Name and IP are required' }, { status: 400 });
     }
 
-    // AUTO-GEOLOCATION LOGIC
-    if (!lat || !lng) {
-      try {
-        const geoRes = await fetch(`http://ip-api.com/json/${ip}`);
-        if (!geoRes.ok) throw new Error('GeoIP API request failed');
-        
-        const geoData = await geoRes.json();
-        
-        if (geoData.status === 'success') {
-          lat = geoData.lat;
-          lng = geoData.lon;
-          if (!region) region = `${geoData.city}, ${geoData.countryCode}`; // Auto-fill region
-        } else {
-          // Fallback to a random-ish location if lookup fails
-          lat = 0;
-          lng = 0;
-        }
-      } catch (e) {
-        console.error("GeoIP lookup failed, using fallback:", e);
-        lat = 0;
-        lng = 0;
-      }
+    const result = validateNodePatch(body);
+    if ('error' in result) {
+      return NextResponse.json({ error: result.error }, { status: 400 });
     }
+    const { name, ip } = result.patch as { name: string; ip: string };
+    let { lat, lng, region } = result.patch;
+    const id = `node_${Date.now()}_${crypto.randomBytes(3).toString('hex')}`; // unique even for simultaneous adds
 
-    let nodes = [];
-    try {
-      const data = await fs.readFile(NODES_FILE, 'utf-8');
-      nodes = JSON.parse(data);
-    } catch (e) {
-      // file missing is ok, we'll create it
+    if (result.patch.dependsOn?.length) {
+      const error = checkDependencies(id, result.patch.dependsOn, await nodeRepository().list());
+      if (error) return NextResponse.json({ error }, { status: 400 });
+    }
+
+    // AUTO-GEOLOCATION LOGIC
+    if (lat == null || lng == null) {
+      const geo = await lookupLocation(ip);
+      if (geo) {
+        lat = geo.lat;
+        lng = geo.lng;
+        if (!region) region = geo.region; // Auto-fill region
+      } else {
+        // Record the location as unknown rather than inventing one
+        lat = null;
+        lng = null;
+      }
     }
 
-    const newNode = {
-      id: `node_${Date.now()}`,
+    const newNode: NodeRecord = {
+      id,
       name,
       ip,
-      lat: parseFloat(lat),
-      lng: parseFloat(lng),
-      region: region || 'Auto-Detected',
-      status: 'offline' // Start as offline, next GET will update
+      lat,
+      lng,
+      region: region || (lat == null ? 'Unknown Location' : 'Auto-Detected'),
+      check: result.patch.check ?? DEFAULT_CHECK,
+      ...(result.patch.dependsOn?.length ? { dependsOn: result.patch.dependsOn } : {}),
+      ...(result.patch.metricsUrl ? { metricsUrl: result.patch.metricsUrl } : {}),
+      ...(result.patch.tags?.length ? { tags: result.patch.tags } : {}),
+      status: 'offline' // Start as offline until the scheduler probes it
     };
 
-    nodes.push(newNode);
-    await fs.writeFile(NODES_FILE, JSON.stringify(nodes, null, 2));
+    await nodeRepository().create(newNode);
+    void publishNodes();
 
     return NextResponse.json(newNode, { status: 201 });
   } catch (e) {
@@ -0,0 +1,68 @@
+import { nodeRepository } from '@/utils/nodeStore';
+import { ensureScheduler, withProbeResult } from '@/utils/scheduler';
+import { subscribe, latestHqStatus, LiveEvent } from '@/utils/liveUpdates';
+import { requireRole } from '@/utils/auth';
+
+export const dynamic = 'force-dynamic';
+
+const KEEPALIVE_MS = 15000;
+
+// Server-Sent Events: a snapshot on connect, then node and HQ updates as they happen
+export async function GET(req: Request) {
+  const auth = await requireRole(req, 'viewer');
+  if ('response' in auth) return auth.response;
+  ensureScheduler();
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream({
+    async start(controller) {
+      let closed = false;
+      const send = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+      const sendEvent = (event: LiveEvent) => send(`event: ${event.type}\ndata: ${JSON.stringify(event.data)}\n\n`);
+
+      // Subscribe before reading the snapshot so nothing published in between is lost
+      const unsubscribe = subscribe(sendEvent);
+      const keepalive = setInterval(() => send(': keepalive\n\n'), KEEPALIVE_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        unsubscribe();
+        clearInterval(keepalive);
+        try {
+          controller.close();
+        } catch {
+          // already closed by the client
+        }
+      };
+      req.signal.addEventListener('abort', cleanup);
+
+      try {
+        const nodes = await nodeRepository().list();
+        sendEvent({ type: 'nodes', data: nodes.map(withProbeResult) });
+        sendEvent({ type: 'hq', data: await latestHqStatus() });
+      } catch (e) {
+        console.error("Error sending stream snapshot:", e);
+      }
+    },
+    cancel() {
+      cleanup();
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      Connection: 'keep-alive',
+    },
+  });
+}
@@ -1,125 +1,136 @@
 import { NextResponse } from 'next/server';
-import dns from 'dns';
-import net from 'net';
-import tls from 'tls';
+import { requireRole } from '@/utils/auth';
+import { checkTarget } from '@/utils/toolPolicy';
+import { takeToken, clientIp } from '@/utils/rateLimit';
+import { recordAudit, AuditOutcome } from '@/utils/audit';
+import { recordToolRun } from '@/utils/toolRuns';
+import { validateToolInput, ToolResponse, ToolValues } from '@/utils/toolSchema';
+import { findTool, findToolNode, toolInfo, checkExtraTargets, ToolDefinition, ToolContext, ToolOutput } from '@/utils/tools';
 
-export async function POST(request: Request) {
-  try {
-    const { type, target, port } = await request.json();
+const RATE_WINDOW_MS = 60 * 1000;
+const USER_LIMIT = parseInt(process.env.TOOLS_RATE_LIMIT || '30', 10);    // per user per minute
+const IP_LIMIT = parseInt(process.env.TOOLS_RATE_LIMIT_IP || '60', 10);   // per client IP per minute
 
-    if (!target) {
-      return NextResponse.json({ error: 'Target is required' }, { status: 400 });
-    }
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
 
-    if (type === 'nslookup') {
+// Long-running tools stream newline-delimited JSON: one {"item": ...} line per partial
+// result as it arrives, then {"result": text, "data": ...} or {"error": message}
+// Records how a run ended in the audit log (and the node's run history for node runs)
+type Finish = (outcome: AuditOutcome, detail: string, address?: string) => Promise<void>;
+
+const streamTool = (tool: ToolDefinition, values: ToolValues, ctx: ToolContext, finish: Finish) => {
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream({
+    async start(controller) {
+      const send = (line: object) => {
         try {
-            const addresses = await new Promise((resolve, reject) => {
-                dns.resolve4(target, (err, addresses) => {
-                    if (err) reject(err);
-                    else resolve(addresses);
-                });
-            });
-            return NextResponse.json({ result: `DNS Records for ${target}: ${(addresses as string[]).join(', ')}` });
-        } catch (error: any) {
-             return NextResponse.json({ result: `DNS Error: ${error.message}` });
+          controller.enqueue(encoder.encode(`${JSON.stringify(line)}\n`));
+        } catch {
+          // the client went away; the abort signal stops the tool
         }
-    } else if (type === 'ping') {
-        const checkPort = (host: string, port: number) => {
-            return new Promise((resolve, reject) => {
-                const socket = new net.Socket();
-                const start = Date.now();
-                socket.setTimeout(2000);
-                
-                socket.on('connect', () => {
-                    const duration = Date.now() - start;
-                    socket.destroy();
-                    resolve(duration);
-                });
+      };
 
-                socket.on('timeout', () => {
-                    socket.destroy();
-                    reject(new Error('Timeout'));
-                });
+      try {
+        const output = await tool.stream!(values, ctx, (item) => send({ item }));
+        send({ result: output.result, data: output.data });
+        await finish(output.outcome ?? 'ok', output.result, ctx.address);
+      } catch (error) {
+        const message = `${tool.label} failed: ${errorMessage(error)}`;
+        send({ error: message });
+        await finish('error', message, ctx.address);
+      }
+      try {
+        controller.close();
+      } catch {
+        // already closed by the client
+      }
+    },
+  });
 
-                socket.on('error', (err) => {
-                    socket.destroy();
-                    reject(err);
-                });
+  return new Response(stream, {
+    headers: { 'Content-Type': 'application/x-ndjson', 'Cache-Control': 'no-cache, no-transform' },
+  });
+};
 
-                socket.connect(port, host);
-            });
-        };
+// The available tools and their options, for the dashboard to render its forms from
+export async function GET(request: Request) {
+  const auth = await requireRole(request, 'operator');
+  if ('response' in auth) return auth.response;
+  return NextResponse.json(toolInfo());
+}
 
-        try {
-            try {
-                const duration = await checkPort(target, 80);
-                return NextResponse.json({ result: `Target ${target} is ALIVE (Port 80). Latency: ${duration}ms` });
-            } catch {
-                 const duration = await checkPort(target, 443);
-                 return NextResponse.json({ result: `Target ${target} is ALIVE (Port 443). Latency: ${duration}ms` });
-            }
-        } catch (error) {
-             return NextResponse.json({ result: `Target ${target} unreachable (Ports 80/443 closed or timeout).` });
-        }
+// Body: { tool, target, ...options }. `type` is accepted in place of `tool` for older clients.
+// With `nodeId` instead of a target the tool runs against that node's address and the run
+// is kept in the node's history (GET /api/nodes/:id/tool-runs).
+export async function POST(request: Request) {
+  const auth = await requireRole(request, 'operator');
+  if ('response' in auth) return auth.response;
+  const ip = clientIp(request);
+  try {
+    const body = await request.json();
+    const tool = findTool(body.tool ?? body.type);
+    const node = body.nodeId !== undefined ? await findToolNode(String(body.nodeId)) : null;
+    if (body.nodeId !== undefined && !node) {
+      return NextResponse.json({ error: 'Node not found' }, { status: 404 });
+    }
+    const target = node ? node.ip : body.target;
 
-    } else if (type === 'port') {
-        const targetPort = port || 80;
-        try {
-            await new Promise((resolve, reject) => {
-                const socket = new net.Socket();
-                socket.setTimeout(2000);
-                socket.on('connect', () => {
-                    socket.destroy();
-                    resolve(true);
-                });
-                socket.on('timeout', () => {
-                    socket.destroy();
-                    reject(new Error('Timeout'));
-                });
-                socket.on('error', (err) => {
-                    socket.destroy();
-                    reject(err);
-                });
-                socket.connect(targetPort, target);
-            });
-            return NextResponse.json({ result: `Port ${targetPort} on ${target} is OPEN.` });
-        } catch (error: any) {
-            return NextResponse.json({ result: `Port ${targetPort} on ${target} is CLOSED/FILTERED (${error.message}).` });
-        }
-    } else if (type === 'ssl') {
-        try {
-             const result = await new Promise<string>((resolve, reject) => {
-                const socket = tls.connect(443, target, { servername: target }, () => {
-                    const cert = socket.getPeerCertificate();
-                    if (!cert || Object.keys(cert).length === 0) {
-                        reject(new Error('No certificate found'));
-                        return;
-                    }
-                    socket.end();
-                    
-                    const validTo = new Date(cert.valid_to);
-                    const daysRemaining = Math.ceil((validTo.getTime() - Date.now()) / (1000 * 60 * 60 * 24));
-                    resolve(`SSL Certificate for ${target}:\n- Issuer: ${cert.issuer.O}\n- Valid To: ${validTo.toDateString()}\n- Days Remaining: ${daysRemaining}`);
-                });
+    if (!target || typeof target !== 'string') {
+      return NextResponse.json({ error: 'Target is required' }, { status: 400 });
+    }
+    if (!tool) {
+      return NextResponse.json({ error: 'Invalid tool type' }, { status: 400 });
+    }
+    const input = validateToolInput(tool.fields, body);
+    if ('error' in input) {
+      return NextResponse.json({ error: input.error }, { status: 400 });
+    }
+    const invalid = tool.check?.(input.values, target);
+    if (invalid) {
+      return NextResponse.json({ error: invalid }, { status: 400 });
+    }
 
-                socket.on('error', (err) => {
-                    reject(err);
-                });
-                
-                socket.setTimeout(3000, () => {
-                    socket.destroy();
-                    reject(new Error('Timeout connecting to SSL'));
-                });
-             });
-             return NextResponse.json({ result });
-        } catch (error: any) {
-             return NextResponse.json({ result: `SSL Check Failed: ${error.message}` });
-        }
-    } else {
-        return NextResponse.json({ error: 'Invalid tool type' }, { status: 400 });
+    const limited = [takeToken(`tools:user:${auth.principal.id}`, USER_LIMIT, RATE_WINDOW_MS), takeToken(`tools:ip:${ip}`, IP_LIMIT, RATE_WINDOW_MS)]
+      .find(r => !r.ok);
+    if (limited && !limited.ok) {
+      await recordAudit(auth.principal, ip, { action: tool.name, target, outcome: 'rate_limited' });
+      return NextResponse.json(
+        { error: `Rate limit exceeded; try again in ${limited.retryAfterSec}s` },
+        { status: 429, headers: { 'Retry-After': String(limited.retryAfterSec) } }
+      );
+    }
+
+    // Header values can hold credentials, and node run histories are visible to viewers
+    const options = Object.fromEntries(tool.fields.filter(f => f.type !== 'headers').map(f => [f.name, input.values[f.name]]));
+    const finish: Finish = async (outcome, detail, address) => {
+      await recordAudit(auth.principal, ip, { action: tool.name, target, address, outcome, detail });
+      if (node) await recordToolRun(node.id, { user: auth.principal.username, tool: tool.name, options, outcome, result: detail });
+    };
+
+    const check = await checkTarget(tool.policyTarget?.(input.values, target) ?? target, { resolve: tool.resolve ?? true });
+    if (!check.allowed) {
+      await finish('denied', `Target not allowed: ${check.reason}`);
+      return NextResponse.json({ error: `Target not allowed: ${check.reason}` }, { status: 403 });
+    }
+    const extra = await checkExtraTargets(tool, input.values);
+    if (extra) {
+      await finish('denied', `${extra.label} not allowed: ${extra.reason}`, extra.target);
+      return NextResponse.json({ error: `${extra.label} not allowed: ${extra.reason}` }, { status: 403 });
+    }
+
+    const ctx: ToolContext = { target, host: check.host, address: check.address, signal: request.signal };
+    if (tool.stream) {
+      return streamTool(tool, input.values, ctx, finish);
     }
 
+    const output: ToolOutput = await tool.run!(input.values, ctx);
+    // A target that was never resolved has no address of its own
+    await finish(output.outcome ?? 'ok', output.result, output.address ?? (tool.resolve === false ? undefined : check.address));
+    const response: ToolResponse = { tool: tool.name, result: output.result, data: output.data };
+    return NextResponse.json(response);
   } catch (error) {
+    console.error("Error running tool:", error);
+    await recordAudit(auth.principal, ip, { action: 'tool', outcome: 'error', detail: errorMessage(error) });
     return NextResponse.json({ error: 'Internal Server Error' }, { status: 500 });
   }
 }
@@ -0,0 +1,16 @@
+import LoginForm from "../../components/LoginForm";
+import { oidcEnabled } from "../../utils/oidc";
+
+const ERRORS: Record<string, string> = {
+  sso_failed: "Single sign-on failed. Try again or sign in with a password.",
+  sso_unavailable: "The identity provider could not be reached.",
+};
+
+export default async function LoginPage({ searchParams }: { searchParams: Promise<{ error?: string }> }) {
+  const { error } = await searchParams;
+  return (
+    <main className="flex h-screen w-full items-center justify-center bg-[#050505] text-zinc-100 font-sans">
+      <LoginForm sso={oidcEnabled()} initialError={error ? ERRORS[error] ?? "Sign-in failed." : null} />
+    </main>
+  );
+}
@@ -1,9 +1,15 @@
+import { cookies } from "next/headers";
+import { redirect } from "next/navigation";
 import OpsGlobeScene from "../components/OpsGlobeScene";
+import { principalFromSession, SESSION_COOKIE } from "../utils/auth";
+
+export default async function Home() {
+  const principal = await principalFromSession((await cookies()).get(SESSION_COOKIE)?.value);
+  if (!principal) redirect("/login");
 
-export default function Home() {
   return (
     <main>
-      <OpsGlobeScene />
+      <OpsGlobeScene user={{ id: principal.id, username: principal.username, role: principal.role }} />
     </main>
   );
 }
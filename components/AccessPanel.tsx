@@ -0,0 +1,188 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { PublicToken, PublicUser } from "../utils/userStore";
+import { Role, ROLES } from "../utils/roles";
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded px-2 py-1.5 text-xs text-white focus:border-cyan-500 outline-none";
+const smallButtonClass = "rounded border border-white/10 bg-white/5 px-2 py-1 text-[10px] text-zinc-300 hover:bg-white/10 hover:text-white transition";
+
+const EMPTY_USER = { username: "", password: "", role: "viewer" as Role };
+const EMPTY_TOKEN = { name: "", role: "viewer" as Role };
+
+async function send(url: string, method: string, body?: unknown) {
+    const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = res.status === 204 ? null : await res.json();
+    if (!res.ok) throw new Error(data?.error ?? `Request failed (${res.status})`);
+    return data;
+}
+
+// Admin-only: local users, their roles, and API tokens for automation
+export default function AccessPanel({ currentUserId }: { currentUserId: string }) {
+    const [users, setUsers] = useState<PublicUser[] | null>(null);
+    const [tokens, setTokens] = useState<PublicToken[]>([]);
+    const [message, setMessage] = useState<string | null>(null);
+    const [userForm, setUserForm] = useState(EMPTY_USER);
+    const [tokenForm, setTokenForm] = useState(EMPTY_TOKEN);
+    const [showUserForm, setShowUserForm] = useState(false);
+    const [showTokenForm, setShowTokenForm] = useState(false);
+    const [newToken, setNewToken] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            const [usersRes, tokensRes] = await Promise.all([fetch("/api/auth/users"), fetch("/api/auth/tokens")]);
+            if (usersRes.ok) setUsers(await usersRes.json());
+            if (tokensRes.ok) setTokens(await tokensRes.json());
+        } catch (e) {
+            console.error("Failed to fetch users", e);
+        }
+    }, []);
+
+    useEffect(() => {
+        const initial = setTimeout(load, 0);
+        return () => clearTimeout(initial);
+    }, [load]);
+
+    const run = async (action: () => Promise<unknown>, success?: string) => {
+        setMessage(null);
+        try {
+            await action();
+            if (success) setMessage(success);
+            await load();
+            return true;
+        } catch (e) {
+            setMessage((e as Error).message);
+            return false;
+        }
+    };
+
+    const addUser = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await run(() => send("/api/auth/users", "POST", userForm), `User ${userForm.username} added.`)) {
+            setUserForm(EMPTY_USER);
+            setShowUserForm(false);
+        }
+    };
+
+    const resetPassword = (user: PublicUser) => {
+        const password = prompt(`New password for ${user.username}:`);
+        if (password) void run(() => send(`/api/auth/users/${user.id}`, "PATCH", { password }), "Password changed.");
+    };
+
+    const addToken = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setNewToken(null);
+        await run(async () => {
+            const created = await send("/api/auth/tokens", "POST", tokenForm);
+            setNewToken(created.token);
+            setTokenForm(EMPTY_TOKEN);
+            setShowTokenForm(false);
+        });
+    };
+
+    if (!users) {
+        return <div className="text-xs text-zinc-500">Loading users...</div>;
+    }
+
+    return (
+        <div className="flex flex-col h-full overflow-y-auto scrollbar-none space-y-4">
+            <h3 className="text-sm font-bold text-white uppercase tracking-widest border-b border-white/10 pb-2">Access</h3>
+
+            {message && (
+                <div className="rounded border border-white/10 bg-white/5 px-2 py-1.5 text-[10px] font-mono text-zinc-300">{message}</div>
+            )}
+
+            {/* Users */}
+            <div>
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-[10px] text-zinc-400 uppercase tracking-wider">Users</span>
+                    <button onClick={() => setShowUserForm(!showUserForm)} className={smallButtonClass}>{showUserForm ? "Cancel" : "+ Add"}</button>
+                </div>
+                {showUserForm && (
+                    <form onSubmit={addUser} className="space-y-2 mb-2 rounded border border-white/10 p-2">
+                        <div className="grid grid-cols-3 gap-2">
+                            <input required className={`${inputClass} col-span-2`} placeholder="Username" value={userForm.username} onChange={e => setUserForm({ ...userForm, username: e.target.value })} />
+                            <select className={inputClass} value={userForm.role} onChange={e => setUserForm({ ...userForm, role: e.target.value as Role })}>
+                                {ROLES.map(r => <option key={r} value={r} className="bg-black">{r}</option>)}
+                            </select>
+                        </div>
+                        <input required type="password" autoComplete="new-password" className={inputClass} placeholder="Password (10+ characters)" value={userForm.password} onChange={e => setUserForm({ ...userForm, password: e.target.value })} />
+                        <button type="submit" className="w-full bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold py-1.5 rounded transition">Save User</button>
+                    </form>
+                )}
+                <div className="space-y-1">
+                    {users.map(u => (
+                        <div key={u.id} className="flex items-center justify-between rounded bg-white/5 px-2 py-1.5 text-[10px]">
+                            <div className="min-w-0">
+                                <div className="text-zinc-200 truncate">{u.username}{u.id === currentUserId ? " (you)" : ""}</div>
+                                <div className="text-zinc-500 font-mono truncate">{u.sso ? "SSO" : "Local"} · since {new Date(u.createdAt).toLocaleDateString()}</div>
+                            </div>
+                            <div className="flex gap-1 shrink-0 ml-2">
+                                <select
+                                    className="rounded border border-white/10 bg-white/5 px-1 py-1 text-[10px] text-zinc-300 outline-none"
+                                    value={u.role}
+                                    onChange={e => run(() => send(`/api/auth/users/${u.id}`, "PATCH", { role: e.target.value }), "Role updated.")}
+                                >
+                                    {ROLES.map(r => <option key={r} value={r} className="bg-black">{r}</option>)}
+                                </select>
+                                {!u.sso && <button onClick={() => resetPassword(u)} className={smallButtonClass} title="Set password">🔑</button>}
+                                {u.id !== currentUserId && (
+                                    <button
+                                        onClick={() => confirm(`Delete user "${u.username}"?`) && run(() => send(`/api/auth/users/${u.id}`, "DELETE"), "User deleted.")}
+                                        className={smallButtonClass}
+                                    >✕</button>
+                                )}
+                            </div>
+                        </div>
+                    ))}
+                </div>
+            </div>
+
+            {/* API tokens */}
+            <div>
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-[10px] text-zinc-400 uppercase tracking-wider">API Tokens</span>
+                    <button onClick={() => setShowTokenForm(!showTokenForm)} className={smallButtonClass}>{showTokenForm ? "Cancel" : "+ Add"}</button>
+                </div>
+                {showTokenForm && (
+                    <form onSubmit={addToken} className="space-y-2 mb-2 rounded border border-white/10 p-2">
+                        <div className="grid grid-cols-3 gap-2">
+                            <input required className={`${inputClass} col-span-2`} placeholder="Name, e.g. CI deploy" value={tokenForm.name} onChange={e => setTokenForm({ ...tokenForm, name: e.target.value })} />
+                            <select className={inputClass} value={tokenForm.role} onChange={e => setTokenForm({ ...tokenForm, role: e.target.value as Role })}>
+                                {ROLES.map(r => <option key={r} value={r} className="bg-black">{r}</option>)}
+                            </select>
+                        </div>
+                        <button type="submit" className="w-full bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold py-1.5 rounded transition">Create Token</button>
+                    </form>
+                )}
+                {newToken && (
+                    <div className="mb-2 rounded border border-amber-500/30 bg-amber-900/20 p-2 text-[10px]">
+                        <div className="text-amber-300 mb-1">Copy this token now; it will not be shown again.</div>
+                        <div className="font-mono text-cyan-300 break-all select-all">{newToken}</div>
+                    </div>
+                )}
+                <div className="space-y-1">
+                    {tokens.map(t => (
+                        <div key={t.id} className="flex items-center justify-between rounded bg-white/5 px-2 py-1.5 text-[10px]">
+                            <div className="min-w-0">
+                                <div className="text-zinc-200 truncate">{t.name} <span className="text-zinc-500">· {t.role}</span></div>
+                                <div className="text-zinc-500 font-mono truncate">
+                                    {t.lastUsedAt ? `used ${new Date(t.lastUsedAt).toLocaleString()}` : "never used"} · by {t.createdBy}
+                                </div>
+                            </div>
+                            <button
+                                onClick={() => confirm(`Revoke token "${t.name}"?`) && run(() => send(`/api/auth/tokens/${t.id}`, "DELETE"), "Token revoked.")}
+                                className={`${smallButtonClass} shrink-0 ml-2`}
+                            >✕</button>
+                        </div>
+                    ))}
+                    {tokens.length === 0 && <div className="text-[10px] text-zinc-600">No API tokens.</div>}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,249 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { ActiveAlert } from "../utils/alerts";
+import type { AlertChannel, AlertRule, AlertRuleKind } from "../utils/alertStore";
+
+const RULE_KINDS: { kind: AlertRuleKind; label: string; op: string; unit: string; placeholder: string }[] = [
+    { kind: "node_offline", label: "Node offline", op: "≥", unit: "failed checks", placeholder: "3" },
+    { kind: "latency", label: "Latency", op: ">", unit: "ms", placeholder: "500" },
+    { kind: "ssl_expiry", label: "SSL expiry", op: "≤", unit: "days", placeholder: "14" },
+    { kind: "hq_cpu", label: "HQ CPU", op: ">", unit: "%", placeholder: "90" },
+    { kind: "hq_memory", label: "HQ memory", op: ">", unit: "%", placeholder: "90" },
+];
+
+const kindInfo = (kind: AlertRuleKind) => RULE_KINDS.find(k => k.kind === kind)!;
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded px-2 py-1.5 text-xs text-white focus:border-cyan-500 outline-none";
+const smallButtonClass = "rounded border border-white/10 bg-white/5 px-2 py-1 text-[10px] text-zinc-300 hover:bg-white/10 hover:text-white transition";
+
+type AlertsData = { active: ActiveAlert[]; rules: AlertRule[]; channels: AlertChannel[] };
+
+const EMPTY_CHANNEL = { type: "webhook" as "webhook" | "email", name: "", url: "", host: "", port: "25", secure: false, user: "", pass: "", from: "", to: "" };
+const EMPTY_RULE = { name: "", kind: "node_offline" as AlertRuleKind, nodeId: "", threshold: "", channelIds: [] as string[] };
+
+async function send(url: string, method: string, body?: unknown) {
+    const res = await fetch(url, {
+        method,
+        headers: body ? { "Content-Type": "application/json" } : undefined,
+        body: body ? JSON.stringify(body) : undefined,
+    });
+    const data = res.status === 204 ? null : await res.json();
+    if (!res.ok) throw new Error(data?.error ?? `Request failed (${res.status})`);
+    return data;
+}
+
+// canManage (admin) shows the forms and buttons that change rules and channels
+export default function AlertsPanel({ nodes, canManage }: { nodes: { id: string; name: string }[]; canManage: boolean }) {
+    const [data, setData] = useState<AlertsData | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [channelForm, setChannelForm] = useState(EMPTY_CHANNEL);
+    const [ruleForm, setRuleForm] = useState(EMPTY_RULE);
+    const [showChannelForm, setShowChannelForm] = useState(false);
+    const [showRuleForm, setShowRuleForm] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch("/api/alerts");
+            if (res.ok) setData(await res.json());
+        } catch (e) {
+            console.error("Failed to fetch alerts", e);
+        }
+    }, []);
+
+    useEffect(() => {
+        const initial = setTimeout(load, 0);
+        const interval = setInterval(load, 10000);
+        return () => {
+            clearTimeout(initial);
+            clearInterval(interval);
+        };
+    }, [load]);
+
+    const run = async (action: () => Promise<unknown>, success?: string) => {
+        setMessage(null);
+        try {
+            const result = await action();
+            const text = (result as { result?: string } | null)?.result;
+            if (success || text) setMessage(text ?? success!);
+            await load();
+            return true;
+        } catch (e) {
+            setMessage((e as Error).message);
+            return false;
+        }
+    };
+
+    const addChannel = async (e: React.FormEvent) => {
+        e.preventDefault();
+        const f = channelForm;
+        const body = f.type === "webhook"
+            ? { type: "webhook", name: f.name, url: f.url }
+            : { type: "email", name: f.name, from: f.from, to: f.to, smtp: { host: f.host, port: f.port, secure: f.secure, user: f.user, pass: f.pass } };
+        if (await run(() => send("/api/alerts/channels", "POST", body), "Channel added.")) {
+            setChannelForm(EMPTY_CHANNEL);
+            setShowChannelForm(false);
+        }
+    };
+
+    const addRule = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (await run(() => send("/api/alerts/rules", "POST", ruleForm), "Rule added.")) {
+            setRuleForm(EMPTY_RULE);
+            setShowRuleForm(false);
+        }
+    };
+
+    if (!data) {
+        return <div className="text-xs text-zinc-500">Loading alerts...</div>;
+    }
+
+    const ruleUsesNode = !ruleForm.kind.startsWith("hq_");
+
+    return (
+        <div className="flex flex-col h-full overflow-y-auto scrollbar-none space-y-4">
+            <h3 className="text-sm font-bold text-white uppercase tracking-widest border-b border-white/10 pb-2">Alerts</h3>
+
+            {message && (
+                <div className="rounded border border-white/10 bg-white/5 px-2 py-1.5 text-[10px] font-mono text-zinc-300">{message}</div>
+            )}
+
+            {/* Active */}
+            <div>
+                <div className="text-[10px] text-zinc-400 uppercase tracking-wider mb-2">Firing ({data.active.length})</div>
+                <div className="space-y-1">
+                    {data.active.map(a => (
+                        <div key={`${a.ruleId}:${a.subjectId}`} className="rounded border border-red-500/30 bg-red-500/10 px-2 py-1.5 text-[10px]">
+                            <div className="flex justify-between text-red-300 font-bold">
+                                <span>{a.subject}</span>
+                                <span className="font-mono font-normal text-red-400/70">{new Date(a.since).toLocaleTimeString()}</span>
+                            </div>
+                            <div className="text-zinc-300">{a.rule}: {a.message}</div>
+                        </div>
+                    ))}
+                    {data.active.length === 0 && <div className="text-[10px] text-zinc-600">All clear.</div>}
+                </div>
+            </div>
+
+            {/* Channels */}
+            <div>
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-[10px] text-zinc-400 uppercase tracking-wider">Channels</span>
+                    {canManage && <button onClick={() => setShowChannelForm(!showChannelForm)} className={smallButtonClass}>{showChannelForm ? "Cancel" : "+ Add"}</button>}
+                </div>
+                {canManage && showChannelForm && (
+                    <form onSubmit={addChannel} className="space-y-2 mb-2 rounded border border-white/10 p-2">
+                        <div className="grid grid-cols-3 gap-2">
+                            <select className={inputClass} value={channelForm.type} onChange={e => setChannelForm({ ...channelForm, type: e.target.value as "webhook" | "email" })}>
+                                <option value="webhook" className="bg-black">Webhook</option>
+                                <option value="email" className="bg-black">Email</option>
+                            </select>
+                            <input required className={`${inputClass} col-span-2`} placeholder="Name" value={channelForm.name} onChange={e => setChannelForm({ ...channelForm, name: e.target.value })} />
+                        </div>
+                        {channelForm.type === "webhook" ? (
+                            <input required className={inputClass} placeholder="https://hooks.slack.com/..." value={channelForm.url} onChange={e => setChannelForm({ ...channelForm, url: e.target.value })} />
+                        ) : (
+                            <>
+                                <div className="grid grid-cols-3 gap-2">
+                                    <input required className={`${inputClass} col-span-2`} placeholder="SMTP host" value={channelForm.host} onChange={e => setChannelForm({ ...channelForm, host: e.target.value })} />
+                                    <input required type="number" className={inputClass} placeholder="Port" value={channelForm.port} onChange={e => setChannelForm({ ...channelForm, port: e.target.value })} />
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <input className={inputClass} placeholder="User (optional)" value={channelForm.user} onChange={e => setChannelForm({ ...channelForm, user: e.target.value })} />
+                                    <input type="password" className={inputClass} placeholder="Password" value={channelForm.pass} onChange={e => setChannelForm({ ...channelForm, pass: e.target.value })} />
+                                </div>
+                                <input required className={inputClass} placeholder="From address" value={channelForm.from} onChange={e => setChannelForm({ ...channelForm, from: e.target.value })} />
+                                <input required className={inputClass} placeholder="To (comma separated)" value={channelForm.to} onChange={e => setChannelForm({ ...channelForm, to: e.target.value })} />
+                                <label className="flex items-center gap-2 text-[10px] text-zinc-400">
+                                    <input type="checkbox" checked={channelForm.secure} onChange={e => setChannelForm({ ...channelForm, secure: e.target.checked })} />
+                                    Implicit TLS (port 465)
+                                </label>
+                            </>
+                        )}
+                        <button type="submit" className="w-full bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold py-1.5 rounded transition">Save Channel</button>
+                    </form>
+                )}
+                <div className="space-y-1">
+                    {data.channels.map(c => (
+                        <div key={c.id} className="flex items-center justify-between rounded bg-white/5 px-2 py-1.5 text-[10px]">
+                            <div className="min-w-0">
+                                <div className="text-zinc-200 truncate">{c.name}</div>
+                                <div className="text-zinc-500 font-mono truncate">{c.type === "webhook" ? c.url : `${c.smtp.host}:${c.smtp.port} → ${c.to.join(", ")}`}</div>
+                            </div>
+                            {canManage && (
+                                <div className="flex gap-1 shrink-0 ml-2">
+                                    <button onClick={() => run(() => send(`/api/alerts/channels/${c.id}/test`, "POST"))} className={smallButtonClass}>Test</button>
+                                    <button onClick={() => run(() => send(`/api/alerts/channels/${c.id}`, "DELETE"), "Channel deleted.")} className={smallButtonClass}>✕</button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                    {data.channels.length === 0 && <div className="text-[10px] text-zinc-600">No channels configured.</div>}
+                </div>
+            </div>
+
+            {/* Rules */}
+            <div>
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-[10px] text-zinc-400 uppercase tracking-wider">Rules</span>
+                    {canManage && <button onClick={() => setShowRuleForm(!showRuleForm)} className={smallButtonClass}>{showRuleForm ? "Cancel" : "+ Add"}</button>}
+                </div>
+                {canManage && showRuleForm && (
+                    <form onSubmit={addRule} className="space-y-2 mb-2 rounded border border-white/10 p-2">
+                        <input required className={inputClass} placeholder="Rule name" value={ruleForm.name} onChange={e => setRuleForm({ ...ruleForm, name: e.target.value })} />
+                        <div className="grid grid-cols-2 gap-2">
+                            <select className={inputClass} value={ruleForm.kind} onChange={e => setRuleForm({ ...ruleForm, kind: e.target.value as AlertRuleKind })}>
+                                {RULE_KINDS.map(k => <option key={k.kind} value={k.kind} className="bg-black">{k.label}</option>)}
+                            </select>
+                            <input required type="number" step="any" className={inputClass} placeholder={`${kindInfo(ruleForm.kind).placeholder} ${kindInfo(ruleForm.kind).unit}`}
+                                value={ruleForm.threshold} onChange={e => setRuleForm({ ...ruleForm, threshold: e.target.value })} />
+                        </div>
+                        {ruleUsesNode && (
+                            <select className={inputClass} value={ruleForm.nodeId} onChange={e => setRuleForm({ ...ruleForm, nodeId: e.target.value })}>
+                                <option value="" className="bg-black">All custom nodes</option>
+                                {nodes.map(n => <option key={n.id} value={n.id} className="bg-black">{n.name}</option>)}
+                            </select>
+                        )}
+                        <div className="flex flex-wrap gap-2">
+                            {data.channels.map(c => (
+                                <label key={c.id} className="flex items-center gap-1 text-[10px] text-zinc-400">
+                                    <input
+                                        type="checkbox"
+                                        checked={ruleForm.channelIds.includes(c.id)}
+                                        onChange={e => setRuleForm({
+                                            ...ruleForm,
+                                            channelIds: e.target.checked ? [...ruleForm.channelIds, c.id] : ruleForm.channelIds.filter(id => id !== c.id),
+                                        })}
+                                    />
+                                    {c.name}
+                                </label>
+                            ))}
+                        </div>
+                        <button type="submit" className="w-full bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold py-1.5 rounded transition">Save Rule</button>
+                    </form>
+                )}
+                <div className="space-y-1">
+                    {data.rules.map(r => (
+                        <div key={r.id} className="flex items-center justify-between rounded bg-white/5 px-2 py-1.5 text-[10px]">
+                            <div className={`min-w-0 ${r.enabled ? "" : "opacity-40"}`}>
+                                <div className="text-zinc-200 truncate">{r.name}</div>
+                                <div className="text-zinc-500 font-mono truncate">
+                                    {kindInfo(r.kind).label} {kindInfo(r.kind).op} {r.threshold} {kindInfo(r.kind).unit}
+                                    {r.nodeId ? ` · ${nodes.find(n => n.id === r.nodeId)?.name ?? r.nodeId}` : ""}
+                                    {` · ${r.channelIds.length} channel${r.channelIds.length === 1 ? "" : "s"}`}
+                                </div>
+                            </div>
+                            {canManage && (
+                                <div className="flex gap-1 shrink-0 ml-2">
+                                    <button onClick={() => run(() => send(`/api/alerts/rules/${r.id}`, "PATCH", { enabled: !r.enabled }))} className={smallButtonClass}>{r.enabled ? "Off" : "On"}</button>
+                                    <button onClick={() => run(() => send(`/api/alerts/rules/${r.id}`, "DELETE"), "Rule deleted.")} className={smallButtonClass}>✕</button>
+                                </div>
+                            )}
+                        </div>
+                    ))}
+                    {data.rules.length === 0 && <div className="text-[10px] text-zinc-600">No rules configured.</div>}
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,146 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { AuditEntry, AuditOutcome } from "../utils/audit";
+import type { ToolPolicy } from "../utils/toolPolicy";
+
+const inputClass = "w-full bg-white/5 border border-white/10 rounded px-2 py-1.5 text-xs text-white focus:border-cyan-500 outline-none";
+const smallButtonClass = "rounded border border-white/10 bg-white/5 px-2 py-1 text-[10px] text-zinc-300 hover:bg-white/10 hover:text-white transition";
+
+const OUTCOME_COLORS: Record<AuditOutcome, string> = {
+    ok: "text-cyan-400",
+    denied: "text-red-400",
+    rate_limited: "text-amber-400",
+    error: "text-red-400",
+};
+
+const toLines = (entries: string[]) => entries.join("\n");
+const fromLines = (text: string) => text.split(/[\n,]/).map(s => s.trim()).filter(Boolean);
+
+// Admin-only: the network tool target policy and the audit log of tool runs and sign-ins
+export default function AuditPanel() {
+    const [entries, setEntries] = useState<AuditEntry[] | null>(null);
+    const [outcome, setOutcome] = useState<"" | AuditOutcome>("");
+    const [policy, setPolicy] = useState<{ allow: string; deny: string; allowlistOnly: boolean } | null>(null);
+    const [defaults, setDefaults] = useState<ToolPolicy | null>(null);
+    const [showPolicy, setShowPolicy] = useState(false);
+    const [message, setMessage] = useState<string | null>(null);
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/admin/audit?limit=200${outcome ? `&outcome=${outcome}` : ""}`);
+            if (res.ok) setEntries(await res.json());
+        } catch (e) {
+            console.error("Failed to fetch audit log", e);
+        }
+    }, [outcome]);
+
+    useEffect(() => {
+        const initial = setTimeout(load, 0);
+        const interval = setInterval(load, 10000);
+        return () => {
+            clearTimeout(initial);
+            clearInterval(interval);
+        };
+    }, [load]);
+
+    useEffect(() => {
+        const loadPolicy = async () => {
+            try {
+                const res = await fetch("/api/admin/tool-policy");
+                if (!res.ok) return;
+                const data: { policy: ToolPolicy; defaults: ToolPolicy } = await res.json();
+                setPolicy({ allow: toLines(data.policy.allow), deny: toLines(data.policy.deny), allowlistOnly: data.policy.allowlistOnly });
+                setDefaults(data.defaults);
+            } catch (e) {
+                console.error("Failed to fetch tool policy", e);
+            }
+        };
+        void loadPolicy();
+    }, []);
+
+    const savePolicy = async (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!policy) return;
+        setMessage(null);
+        try {
+            const res = await fetch("/api/admin/tool-policy", {
+                method: "PUT",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ allow: fromLines(policy.allow), deny: fromLines(policy.deny), allowlistOnly: policy.allowlistOnly }),
+            });
+            const data = await res.json();
+            if (!res.ok) throw new Error(data.error);
+            setMessage("Policy saved.");
+            await load();
+        } catch (err) {
+            setMessage((err as Error).message);
+        }
+    };
+
+    return (
+        <div className="flex flex-col h-full overflow-y-auto scrollbar-none space-y-4">
+            <h3 className="text-sm font-bold text-white uppercase tracking-widest border-b border-white/10 pb-2">Audit</h3>
+
+            {message && (
+                <div className="rounded border border-white/10 bg-white/5 px-2 py-1.5 text-[10px] font-mono text-zinc-300">{message}</div>
+            )}
+
+            {/* Target policy */}
+            <div>
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-[10px] text-zinc-400 uppercase tracking-wider">Tool Target Policy</span>
+                    <button onClick={() => setShowPolicy(!showPolicy)} className={smallButtonClass}>{showPolicy ? "Close" : "Edit"}</button>
+                </div>
+                {showPolicy && policy && (
+                    <form onSubmit={savePolicy} className="space-y-2 rounded border border-white/10 p-2">
+                        <p className="text-[10px] text-zinc-500">One CIDR (10.0.0.0/8) or hostname (*.internal) per line. Allow beats deny; names are checked again after DNS resolution.</p>
+                        <label className="text-[10px] text-zinc-400 block">Allow</label>
+                        <textarea rows={3} className={`${inputClass} font-mono`} value={policy.allow} onChange={e => setPolicy({ ...policy, allow: e.target.value })} placeholder="e.g. 10.20.0.0/16" />
+                        <label className="text-[10px] text-zinc-400 block">Deny</label>
+                        <textarea rows={6} className={`${inputClass} font-mono`} value={policy.deny} onChange={e => setPolicy({ ...policy, deny: e.target.value })} />
+                        <label className="flex items-center gap-2 text-[10px] text-zinc-400">
+                            <input type="checkbox" checked={policy.allowlistOnly} onChange={e => setPolicy({ ...policy, allowlistOnly: e.target.checked })} />
+                            Only allow targets on the allow list
+                        </label>
+                        <div className="grid grid-cols-2 gap-2">
+                            {defaults && (
+                                <button type="button" onClick={() => setPolicy({ allow: toLines(defaults.allow), deny: toLines(defaults.deny), allowlistOnly: defaults.allowlistOnly })} className={smallButtonClass}>
+                                    Reset to defaults
+                                </button>
+                            )}
+                            <button type="submit" className="bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold py-1.5 rounded transition">Save Policy</button>
+                        </div>
+                    </form>
+                )}
+            </div>
+
+            {/* Log */}
+            <div className="min-h-0">
+                <div className="flex justify-between items-center mb-2">
+                    <span className="text-[10px] text-zinc-400 uppercase tracking-wider">Log</span>
+                    <select className="rounded border border-white/10 bg-white/5 px-1 py-1 text-[10px] text-zinc-300 outline-none" value={outcome} onChange={e => setOutcome(e.target.value as "" | AuditOutcome)}>
+                        <option value="" className="bg-black">All outcomes</option>
+                        {Object.keys(OUTCOME_COLORS).map(o => <option key={o} value={o} className="bg-black">{o.replace("_", " ")}</option>)}
+                    </select>
+                </div>
+                <div className="space-y-1">
+                    {entries?.map((e, i) => (
+                        <div key={`${e.t}-${i}`} className="rounded bg-white/5 px-2 py-1.5 text-[10px]" title={e.detail}>
+                            <div className="flex justify-between">
+                                <span className="text-zinc-200 truncate">{e.user} <span className="text-zinc-500">· {e.action}</span></span>
+                                <span className={`font-mono shrink-0 ml-2 ${OUTCOME_COLORS[e.outcome]}`}>{e.outcome.replace("_", " ")}</span>
+                            </div>
+                            <div className="text-zinc-500 font-mono truncate">
+                                {new Date(e.t).toLocaleString()} · {e.ip}{e.target ? ` → ${e.target}` : ""}{e.address && e.address !== e.target ? ` (${e.address})` : ""}
+                            </div>
+                            {e.detail && <div className="text-zinc-400 font-mono truncate">{e.detail.split("\n")[0]}</div>}
+                        </div>
+                    ))}
+                    {entries?.length === 0 && <div className="text-[10px] text-zinc-600">No entries.</div>}
+                    {!entries && <div className="text-[10px] text-zinc-600">Loading audit log...</div>}
+                </div>
+            </div>
+        </div>
+    );
+}
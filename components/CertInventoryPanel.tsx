@@ -0,0 +1,173 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import type { CertificateReport } from "../utils/certs";
+import type { CertInventoryEntry } from "../utils/certInventory";
+
+type InventoryData = { entries: CertInventoryEntry[]; sweeping: boolean };
+
+// Red when expired or within a week, amber within a month
+const expiryClass = (days: number) =>
+    days < 7 ? "text-red-400" : days < 30 ? "text-amber-400" : "text-cyan-400";
+
+const expiryBorder = (days: number) =>
+    days < 7 ? "border-red-500/30 bg-red-500/10" : days < 30 ? "border-amber-500/30 bg-amber-500/10" : "border-white/10 bg-white/5";
+
+const formatDays = (days: number) => (days < 0 ? `expired ${-days}d ago` : `${days}d`);
+
+// Connection summary and every certificate the server sent, leaf first
+export function CertificateChain({ report }: { report: CertificateReport }) {
+    return (
+        <div className="space-y-2">
+            <div className="space-y-0.5">
+                <div><span className="text-zinc-500">Endpoint:</span> {report.host}:{report.port} ({report.address})</div>
+                <div><span className="text-zinc-500">Protocol:</span> {report.protocol ?? "unknown"} · {report.cipher ?? "unknown"}</div>
+                <div className={report.trusted ? "text-cyan-400" : "text-red-400"}>
+                    {report.trusted ? "✓ Chain trusted" : `✗ Untrusted: ${report.trustError}`}
+                </div>
+                <div className={report.hostnameMatch ? "text-cyan-400" : "text-red-400"}>
+                    {report.hostnameMatch ? `✓ Valid for ${report.host}` : `✗ ${report.hostnameError}`}
+                </div>
+            </div>
+            {report.chain.map((cert, i) => (
+                <div key={cert.fingerprint256} className="rounded border border-white/10 bg-black/40 p-2 space-y-0.5">
+                    <div className="flex justify-between gap-2">
+                        <span className="truncate text-white" title={cert.subject}>
+                            {i === 0 ? "Leaf" : cert.selfSigned ? "Root" : "Intermediate"}: {cert.commonName || cert.subject}
+                        </span>
+                        <span className={`shrink-0 ${expiryClass(cert.daysRemaining)}`}>{formatDays(cert.daysRemaining)}</span>
+                    </div>
+                    <div className="break-all"><span className="text-zinc-500">Subject:</span> {cert.subject}</div>
+                    <div className="break-all"><span className="text-zinc-500">Issuer:</span> {cert.issuer}</div>
+                    <div><span className="text-zinc-500">Valid:</span> {cert.validFrom.slice(0, 10)} → {cert.validTo.slice(0, 10)}</div>
+                    <div><span className="text-zinc-500">Key:</span> {cert.keyType} · {cert.signatureAlgorithm}</div>
+                    {cert.altNames.length > 0 && (
+                        <div className="break-all"><span className="text-zinc-500">SANs:</span> {cert.altNames.join(", ")}</div>
+                    )}
+                    <div className="break-all text-zinc-600">SHA-256 {cert.fingerprint256}</div>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+// canRefresh (operator) shows the button that re-checks every node immediately
+export default function CertInventoryPanel({ canRefresh }: { canRefresh: boolean }) {
+    const [data, setData] = useState<InventoryData | null>(null);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const [message, setMessage] = useState<string | null>(null);
+    const [refreshing, setRefreshing] = useState(false);
+
+    const load = useCallback(async () => {
+        try {
+            const res = await fetch("/api/certs");
+            if (res.ok) setData(await res.json());
+        } catch (e) {
+            console.error("Failed to fetch certificate inventory", e);
+        }
+    }, []);
+
+    useEffect(() => {
+        const initial = setTimeout(load, 0);
+        const interval = setInterval(load, 30000);
+        return () => {
+            clearTimeout(initial);
+            clearInterval(interval);
+        };
+    }, [load]);
+
+    const refresh = async () => {
+        setRefreshing(true);
+        setMessage(null);
+        try {
+            const res = await fetch("/api/certs", { method: "POST" });
+            const body = await res.json();
+            if (res.ok) setData(body);
+            else setMessage(body.error ?? `Request failed (${res.status})`);
+        } catch (e) {
+            setMessage((e as Error).message);
+        } finally {
+            setRefreshing(false);
+        }
+    };
+
+    if (!data) {
+        return <div className="text-xs text-zinc-500">Loading certificates...</div>;
+    }
+
+    const withCert = data.entries.filter(e => e.report?.chain[0]);
+    const without = data.entries.filter(e => !e.report?.chain[0]);
+
+    return (
+        <div className="flex flex-col h-full overflow-y-auto scrollbar-none space-y-4">
+            <div className="flex justify-between items-center border-b border-white/10 pb-2">
+                <h3 className="text-sm font-bold text-white uppercase tracking-widest">Certificates</h3>
+                {canRefresh && (
+                    <button
+                        onClick={refresh}
+                        disabled={refreshing || data.sweeping}
+                        className="rounded border border-white/10 bg-white/5 px-2 py-1 text-[10px] text-zinc-300 hover:bg-white/10 hover:text-white transition disabled:opacity-50"
+                    >
+                        {refreshing || data.sweeping ? "Checking..." : "Check now"}
+                    </button>
+                )}
+            </div>
+
+            {message && (
+                <div className="rounded border border-white/10 bg-white/5 px-2 py-1.5 text-[10px] font-mono text-zinc-300">{message}</div>
+            )}
+
+            <div>
+                <div className="text-[10px] text-zinc-400 uppercase tracking-wider mb-2">By expiry ({withCert.length})</div>
+                <div className="space-y-1">
+                    {withCert.map(entry => {
+                        const report = entry.report!;
+                        const leaf = report.chain[0];
+                        const open = expanded === entry.nodeId;
+                        return (
+                            <div key={entry.nodeId} className={`rounded border px-2 py-1.5 text-[10px] ${expiryBorder(leaf.daysRemaining)}`}>
+                                <button onClick={() => setExpanded(open ? null : entry.nodeId)} className="w-full text-left">
+                                    <div className="flex justify-between gap-2 font-bold">
+                                        <span className="truncate text-white">{entry.name}</span>
+                                        <span className={`shrink-0 font-mono ${expiryClass(leaf.daysRemaining)}`}>{formatDays(leaf.daysRemaining)}</span>
+                                    </div>
+                                    <div className="flex justify-between gap-2 text-zinc-400">
+                                        <span className="truncate">{leaf.commonName || leaf.subject}</span>
+                                        <span className="shrink-0 font-mono">{leaf.validTo.slice(0, 10)}</span>
+                                    </div>
+                                    {(!report.trusted || !report.hostnameMatch) && (
+                                        <div className="text-red-400">{!report.trusted ? "Untrusted chain" : "Hostname mismatch"}</div>
+                                    )}
+                                </button>
+                                {open && (
+                                    <div className="mt-2 font-mono text-zinc-300">
+                                        <CertificateChain report={report} />
+                                        <div className="mt-1 text-zinc-600">Checked {new Date(entry.checkedAt).toLocaleString()}</div>
+                                    </div>
+                                )}
+                            </div>
+                        );
+                    })}
+                    {withCert.length === 0 && <div className="text-[10px] text-zinc-600">No certificates found yet.</div>}
+                </div>
+            </div>
+
+            {without.length > 0 && (
+                <div>
+                    <div className="text-[10px] text-zinc-400 uppercase tracking-wider mb-2">No certificate ({without.length})</div>
+                    <div className="space-y-1">
+                        {without.map(entry => (
+                            <div key={entry.nodeId} className="rounded border border-white/10 bg-white/5 px-2 py-1.5 text-[10px]">
+                                <div className="flex justify-between gap-2">
+                                    <span className="truncate text-zinc-300">{entry.name}</span>
+                                    <span className="shrink-0 font-mono text-zinc-500">{entry.address}:{entry.port}</span>
+                                </div>
+                                <div className="text-zinc-500 break-all">{entry.error}</div>
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
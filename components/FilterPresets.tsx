@@ -0,0 +1,78 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import type { FilterPreset } from "../utils/filterPresets";
+
+export type FilterView = Pick<FilterPreset, "query" | "status" | "groupBy">;
+
+// The current user's saved node-list views as chips: click one to apply it, save the
+// current search, status filter and grouping under a name to add one.
+export default function FilterPresets({ current, onApply }: { current: FilterView, onApply: (view: FilterView) => void }) {
+    const [presets, setPresets] = useState<FilterPreset[]>([]);
+    const [error, setError] = useState<string | null>(null);
+
+    useEffect(() => {
+        fetch("/api/filter-presets")
+            .then(res => (res.ok ? res.json() : []))
+            .then(setPresets)
+            .catch(e => console.error("Failed to load filter presets", e));
+    }, []);
+
+    const isActive = (p: FilterPreset) => p.query === current.query.trim() && p.status === current.status && p.groupBy === current.groupBy;
+
+    const save = async () => {
+        const name = prompt("Save the current filter as:");
+        if (!name?.trim()) return;
+        setError(null);
+        try {
+            const res = await fetch("/api/filter-presets", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ name, ...current }),
+            });
+            const body = await res.json();
+            if (!res.ok) {
+                setError(body.error);
+                return;
+            }
+            setPresets(prev => (prev.some(p => p.id === body.id) ? prev.map(p => (p.id === body.id ? body : p)) : [...prev, body]));
+        } catch (e) {
+            setError(`Could not save preset: ${(e as Error).message}`);
+        }
+    };
+
+    const remove = async (preset: FilterPreset) => {
+        if (!confirm(`Delete the preset "${preset.name}"?`)) return;
+        const res = await fetch(`/api/filter-presets/${preset.id}`, { method: "DELETE" });
+        if (res.ok) setPresets(prev => prev.filter(p => p.id !== preset.id));
+    };
+
+    const empty = !current.query.trim() && current.status === "all" && current.groupBy === "none";
+
+    return (
+        <div className="mt-3">
+            <div className="flex flex-wrap items-center gap-1">
+                {presets.map(p => (
+                    <span
+                        key={p.id}
+                        className={`group flex items-center rounded border text-[10px] transition ${isActive(p) ? 'border-cyan-500/40 bg-cyan-500/20 text-cyan-300' : 'border-white/10 bg-white/5 text-zinc-400 hover:text-white'}`}
+                    >
+                        <button onClick={() => onApply({ query: p.query, status: p.status, groupBy: p.groupBy })} className="px-2 py-1" title={p.query || undefined}>
+                            {p.name}
+                        </button>
+                        <button onClick={() => remove(p)} className="pr-1.5 text-zinc-600 hover:text-red-400" title="Delete preset">×</button>
+                    </span>
+                ))}
+                <button
+                    onClick={save}
+                    disabled={empty}
+                    className="rounded border border-dashed border-white/20 px-2 py-1 text-[10px] text-zinc-500 hover:text-white hover:border-white/40 transition disabled:opacity-40 disabled:hover:text-zinc-500"
+                    title={empty ? "Set a search, status or grouping to save it" : "Save the current filter"}
+                >
+                    + Save view
+                </button>
+            </div>
+            {error && <div className="mt-1 text-[10px] text-red-400">{error}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,179 @@
+"use client";
+
+import { useState } from "react";
+import type { ImportAction, ImportPlanRow, ImportSummary, NodeFormat } from "../utils/nodeTransfer";
+
+type ImportResult = { format: NodeFormat; dryRun: boolean; summary: ImportSummary; rows: ImportPlanRow[] };
+
+const FORMAT_LABELS: Record<NodeFormat, string> = {
+    csv: "CSV",
+    json: "JSON",
+    yaml: "YAML",
+    file_sd: "Prometheus file_sd",
+    ansible: "Ansible INI",
+};
+
+const ACTION_CLASSES: Record<ImportAction, string> = {
+    create: "text-cyan-400",
+    update: "text-amber-400",
+    unchanged: "text-zinc-500",
+    conflict: "text-red-400",
+    invalid: "text-red-400",
+};
+
+const inputClass = "bg-white/5 border border-white/10 rounded px-2 py-1.5 text-xs text-white focus:border-cyan-500 outline-none";
+
+// Drop or paste an inventory, preview what it would change (a dry run), then apply it.
+// Rows match existing nodes by address or name; conflicting and invalid rows are skipped.
+export default function ImportNodesModal({ onClose, onImported }: { onClose: () => void, onImported: () => void }) {
+    const [data, setData] = useState("");
+    const [fileName, setFileName] = useState<string | null>(null);
+    const [format, setFormat] = useState<"" | NodeFormat>("");
+    const [exportFormat, setExportFormat] = useState<NodeFormat>("csv");
+    const [result, setResult] = useState<ImportResult | null>(null);
+    const [error, setError] = useState<string | null>(null);
+    const [dragging, setDragging] = useState(false);
+    const [loading, setLoading] = useState(false);
+
+    const loadFile = async (file: File) => {
+        setData(await file.text());
+        setFileName(file.name);
+        setResult(null);
+        setError(null);
+    };
+
+    const submit = async (dryRun: boolean) => {
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/nodes/import", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ data, format: format || undefined, fileName: fileName ?? undefined, dryRun }),
+            });
+            const body = await res.json();
+            if (!res.ok) {
+                setError(body.error);
+                setResult(null);
+                return;
+            }
+            setResult(body);
+            if (!dryRun) onImported();
+        } catch (e) {
+            setError(`Import failed: ${(e as Error).message}`);
+        } finally {
+            setLoading(false);
+        }
+    };
+
+    const applicable = result ? result.summary.create + result.summary.update : 0;
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 pointer-events-auto">
+            <div className="w-full max-w-2xl max-h-[90vh] flex flex-col bg-[#0a0a0a] border border-white/10 rounded-xl p-6 shadow-2xl relative">
+                <button onClick={onClose} className="absolute top-4 right-4 text-zinc-500 hover:text-white">✕</button>
+                <h2 className="text-xl font-bold text-white mb-1">Import / Export Nodes</h2>
+                <p className="text-xs text-zinc-500 mb-4">CSV, JSON, YAML, Prometheus file_sd or Ansible INI. Nodes are matched by address or name.</p>
+
+                <div
+                    onDragOver={(e) => { e.preventDefault(); setDragging(true); }}
+                    onDragLeave={() => setDragging(false)}
+                    onDrop={(e) => {
+                        e.preventDefault();
+                        setDragging(false);
+                        const file = e.dataTransfer.files[0];
+                        if (file) void loadFile(file);
+                    }}
+                    className={`rounded-lg border border-dashed p-3 transition ${dragging ? 'border-cyan-500 bg-cyan-500/10' : 'border-white/20 bg-white/5'}`}
+                >
+                    <div className="flex items-center justify-between gap-2 mb-2 text-xs text-zinc-400">
+                        <span className="truncate">{fileName ? <span className="text-white font-mono">{fileName}</span> : "Drop a file here, choose one, or paste below"}</span>
+                        <label className="shrink-0 cursor-pointer rounded border border-white/10 bg-white/5 px-2 py-1 text-[10px] text-zinc-300 hover:bg-white/10 hover:text-white transition">
+                            Choose File
+                            <input type="file" className="hidden" accept=".csv,.json,.yml,.yaml,.ini,.cfg,.txt" onChange={(e) => e.target.files?.[0] && loadFile(e.target.files[0])} />
+                        </label>
+                    </div>
+                    <textarea
+                        rows={6}
+                        value={data}
+                        onChange={(e) => { setData(e.target.value); setFileName(null); setResult(null); }}
+                        placeholder={"name,ip,region,check_type,check_port\nweb-1,203.0.113.10,EU-West,https,443"}
+                        className={`w-full font-mono ${inputClass}`}
+                    />
+                </div>
+
+                <div className="flex items-center gap-2 mt-3">
+                    <select className={inputClass} value={format} onChange={(e) => { setFormat(e.target.value as "" | NodeFormat); setResult(null); }}>
+                        <option value="" className="bg-black">Detect format</option>
+                        {Object.entries(FORMAT_LABELS).map(([value, label]) => <option key={value} value={value} className="bg-black">{label}</option>)}
+                    </select>
+                    <div className="flex-1" />
+                    <button
+                        onClick={() => submit(true)}
+                        disabled={!data.trim() || loading}
+                        className="rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-zinc-300 hover:bg-white/10 hover:text-white transition disabled:opacity-50"
+                    >
+                        Preview
+                    </button>
+                    <button
+                        onClick={() => submit(false)}
+                        disabled={!result?.dryRun || applicable === 0 || loading}
+                        className="rounded bg-cyan-600 hover:bg-cyan-500 px-3 py-1.5 text-xs font-bold text-white transition disabled:opacity-50"
+                        title={result?.dryRun ? undefined : "Preview the import first"}
+                    >
+                        {loading ? "Working..." : `Import ${applicable || ''}`.trim()}
+                    </button>
+                </div>
+
+                {error && <div className="mt-3 text-xs text-red-400">{error}</div>}
+
+                {result && (
+                    <div className="mt-3 flex-1 min-h-0 flex flex-col">
+                        <div className="flex flex-wrap gap-3 text-[10px] uppercase tracking-wider mb-2">
+                            <span className="text-zinc-400">{FORMAT_LABELS[result.format]}{result.dryRun ? " · preview" : " · imported"}</span>
+                            {(Object.entries(result.summary) as [ImportAction, number][]).filter(([, n]) => n > 0).map(([action, n]) => (
+                                <span key={action} className={ACTION_CLASSES[action]}>{n} {action}</span>
+                            ))}
+                        </div>
+                        <div className="flex-1 overflow-y-auto rounded border border-white/10">
+                            <table className="w-full text-left text-[10px] font-mono">
+                                <thead className="sticky top-0 bg-[#0a0a0a] text-zinc-500">
+                                    <tr>
+                                        <th className="font-normal px-2 py-1">Row</th>
+                                        <th className="font-normal px-2 py-1">Action</th>
+                                        <th className="font-normal px-2 py-1">Node</th>
+                                        <th className="font-normal px-2 py-1">Details</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {result.rows.map(r => (
+                                        <tr key={r.row} className="border-t border-white/5 align-top">
+                                            <td className="px-2 py-1 text-zinc-500">{r.row}</td>
+                                            <td className={`px-2 py-1 ${ACTION_CLASSES[r.action]}`}>{r.action}</td>
+                                            <td className="px-2 py-1 text-zinc-300 break-all">{r.name || '-'}{r.ip && <span className="text-zinc-500"> · {r.ip}</span>}</td>
+                                            <td className={`px-2 py-1 break-all ${r.error ? 'text-red-400' : 'text-zinc-400'}`}>{r.error ?? (r.changes?.length ? r.changes.join(", ") : "")}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </div>
+                    </div>
+                )}
+
+                <div className="mt-4 pt-3 border-t border-white/10 flex items-center gap-2 text-xs text-zinc-400">
+                    <span className="flex-1">Export all nodes</span>
+                    <select className={inputClass} value={exportFormat} onChange={(e) => setExportFormat(e.target.value as NodeFormat)}>
+                        {Object.entries(FORMAT_LABELS).map(([value, label]) => <option key={value} value={value} className="bg-black">{label}</option>)}
+                    </select>
+                    <a
+                        href={`/api/nodes/export?format=${exportFormat}`}
+                        download
+                        className="rounded border border-white/10 bg-white/5 px-3 py-1.5 text-xs text-zinc-300 hover:bg-white/10 hover:text-white transition"
+                    >
+                        Download
+                    </a>
+                </div>
+            </div>
+        </div>
+    );
+}
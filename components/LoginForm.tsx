@@ -0,0 +1,64 @@
+"use client";
+
+import { useState } from "react";
+
+export default function LoginForm({ sso, initialError }: { sso: boolean; initialError: string | null }) {
+    const [username, setUsername] = useState("");
+    const [password, setPassword] = useState("");
+    const [error, setError] = useState<string | null>(initialError);
+    const [loading, setLoading] = useState(false);
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        setLoading(true);
+        setError(null);
+        try {
+            const res = await fetch("/api/auth/login", {
+                method: "POST",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ username, password }),
+            });
+            if (res.ok) {
+                window.location.href = "/";
+                return;
+            }
+            const data = await res.json();
+            setError(data.error ?? "Sign-in failed.");
+        } catch {
+            setError("Could not reach the server.");
+        }
+        setLoading(false);
+    };
+
+    return (
+        <div className="w-full max-w-sm rounded-xl border border-white/10 bg-black/60 p-6 shadow-2xl backdrop-blur-xl">
+            <h1 className="text-3xl font-bold tracking-tighter text-white mb-1">
+                OPS<span className="text-cyan-400">GLOBE</span>
+            </h1>
+            <p className="text-xs text-zinc-500 mb-5 font-mono">Sign in to continue</p>
+
+            <form onSubmit={handleSubmit} className="space-y-3">
+                <div>
+                    <label className="text-xs text-zinc-400 block mb-1">Username</label>
+                    <input required autoFocus autoComplete="username" className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                        value={username} onChange={e => setUsername(e.target.value)} />
+                </div>
+                <div>
+                    <label className="text-xs text-zinc-400 block mb-1">Password</label>
+                    <input required type="password" autoComplete="current-password" className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                        value={password} onChange={e => setPassword(e.target.value)} />
+                </div>
+                {error && <div className="text-xs text-red-400">{error}</div>}
+                <button disabled={loading} type="submit" className="w-full mt-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 rounded transition">
+                    {loading ? "Signing in..." : "Sign In"}
+                </button>
+            </form>
+
+            {sso && (
+                <a href="/api/auth/oidc/login" className="mt-3 block w-full rounded border border-white/10 bg-white/5 py-2 text-center text-sm text-zinc-300 hover:bg-white/10 hover:text-white transition">
+                    Sign in with SSO
+                </a>
+            )}
+        </div>
+    );
+}
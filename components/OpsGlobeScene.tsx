@@ -1,14 +1,33 @@
 "use client";
 
-import { useMemo, useRef, useState, useEffect, Suspense, useCallback } from "react";
-import { Canvas, useFrame, useLoader } from "@react-three/fiber";
-import { OrbitControls, Stars, Html } from "@react-three/drei";
+import { useMemo, useRef, useState, useEffect, useLayoutEffect, Suspense, useCallback } from "react";
+import { Canvas, useFrame, useLoader, useThree } from "@react-three/fiber";
+import { OrbitControls, Stars, Html, Line } from "@react-three/drei";
 import * as THREE from "three";
-import { latLongToVector3 } from "../utils/geo";
+import { latLongToVector3, greatCircleArc } from "../utils/geo";
+import AlertsPanel from "./AlertsPanel";
+import AccessPanel from "./AccessPanel";
+import AuditPanel from "./AuditPanel";
+import CertInventoryPanel from "./CertInventoryPanel";
+import ToolsPanel from "./ToolsPanel";
+import QuickActions from "./QuickActions";
+import ImportNodesModal from "./ImportNodesModal";
+import FilterPresets, { FilterView } from "./FilterPresets";
+import type { HistoryPoint } from "../utils/history";
+import type { HostStatus } from "../utils/hostStatus";
+import type { AgentReport } from "../utils/agents";
+import type { ExporterMetrics } from "../utils/nodeExporter";
+import type { TraceHop } from "../utils/traceroute";
+import { CheckSpec, CheckType, CHECK_TYPES, DEFAULT_CHECK, DEFAULT_PORTS, describeCheck } from "../utils/checkSpec";
+import { ServerStatus, StatusRules, DEFAULT_RULES, worseStatus } from "../utils/statusRules";
+import { Role, hasRole } from "../utils/roles";
+import { DependencyChain, dependencyChain, dependencyLinks, linkKey } from "../utils/dependencies";
+import { PUBLIC_NODES as PUBLIC_NODE_LIST } from "../utils/publicNodes";
+import { clusterCellDegrees, clusterMarkers } from "../utils/markerClusters";
+import { GroupBy, groupNodes, matchesNodeQuery, parseNodeQuery, QUERY_FIELDS } from "../utils/nodeQuery";
+import { splitTags, tagKey } from "../utils/nodeTags";
 
 // --- DATA TYPES ---
-type ServerStatus = "online" | "warning" | "error" | "offline";
-
 type ProcessInfo = {
     cpu: string;
     mem: string;
@@ -19,8 +38,8 @@ type ServerLocation = {
   id: string;
   name: string;
   location: string;
-  lat: number;
-  lon: number;
+  lat: number | null; // null when the node's location is unknown
+  lon: number | null;
   status: ServerStatus;
   region: string;
   cpu: number;
@@ -28,6 +47,45 @@ type ServerLocation = {
   type: "simulated" | "real" | "public" | "custom";
   processes?: ProcessInfo[];
   ip?: string;
+  check?: CheckSpec;
+  latency?: number | null;
+  checkedAt?: string | null;
+  flapping?: boolean;
+  rules?: StatusRules;
+  agentEnabled?: boolean;
+  agent?: AgentReport | null; // latest metrics while the node's agent is reporting
+  dependsOn?: string[];
+  metricsUrl?: string;
+  exporter?: ExporterMetrics | null; // latest node_exporter scrape, if the node has a metrics URL
+  disk?: number | null;
+  usageWarnings?: string[];
+  tags?: string[];
+};
+
+type LocatedServer = ServerLocation & { lat: number; lon: number };
+
+const hasLocation = (node: ServerLocation): node is LocatedServer => node.lat != null && node.lon != null;
+
+type ApiNode = {
+  id: string;
+  name: string;
+  ip: string;
+  lat: number | null;
+  lng: number | null;
+  region: string;
+  status: ServerStatus;
+  check?: CheckSpec;
+  latency: number | null;
+  checkedAt: string | null;
+  flapping: boolean;
+  rules?: StatusRules;
+  agentEnabled: boolean;
+  agent: AgentReport | null;
+  dependsOn?: string[];
+  metricsUrl?: string;
+  exporter: ExporterMetrics | null;
+  usageWarnings: string[];
+  tags?: string[];
 };
 
 const STATUS_COLORS: Record<ServerStatus, string> = {
@@ -45,85 +103,300 @@ const SIMULATED_SERVERS: ServerLocation[] = [
   { id: "tok", name: "Tokyo Edge", location: "Tokyo, JP", lat: 35.6762, lon: 139.6503, status: "online", region: "AP-North", cpu: 61, memory: 70, type: "simulated" },
 ];
 
-const PUBLIC_NODES: ServerLocation[] = [
-  { id: "goog", name: "Google DNS", location: "Global Anycast", lat: 37.422, lon: -122.084, status: "online", region: "Global", cpu: 0, memory: 0, type: "public" },
-  { id: "cf", name: "Cloudflare", location: "Global Anycast", lat: 37.7749, lon: -122.4194, status: "online", region: "Global", cpu: 0, memory: 0, type: "public" },
-  { id: "q9", name: "Quad9", location: "Zurich, CH", lat: 47.3769, lon: 8.5417, status: "online", region: "EU-Central", cpu: 0, memory: 0, type: "public" },
-];
+const PUBLIC_NODES: ServerLocation[] = PUBLIC_NODE_LIST.map(n => ({ ...n, status: "online", cpu: 0, memory: 0, type: "public" }));
+
+const toHqNode = (statusData: HostStatus): ServerLocation => ({
+    id: 'local-hq',
+    name: `${statusData.hostname} (HQ)`,
+    location: 'Berlin, DE', 
+    lat: 52.5200,
+    lon: 13.4050,
+    status: 'online',
+    region: 'Local',
+    cpu: statusData.cpu,
+    memory: statusData.memory,
+    type: 'real',
+    processes: statusData.processes
+});
+
+const toCustomNode = (n: ApiNode): ServerLocation => ({
+    id: n.id,
+    name: n.name,
+    location: n.ip, // Use IP as location label for now
+    lat: n.lat,
+    lon: n.lng,
+    status: n.status,
+    region: n.region,
+    // The agent reports processes too, so it wins over the exporter when both are set up
+    cpu: n.agent?.cpu ?? n.exporter?.cpu ?? 0,
+    memory: n.agent?.memory ?? n.exporter?.memory ?? 0,
+    disk: n.exporter?.disk,
+    type: 'custom',
+    processes: n.agent?.processes,
+    ip: n.ip,
+    check: n.check,
+    latency: n.latency,
+    checkedAt: n.checkedAt,
+    flapping: n.flapping,
+    rules: n.rules,
+    agentEnabled: n.agentEnabled,
+    agent: n.agent,
+    dependsOn: n.dependsOn,
+    metricsUrl: n.metricsUrl,
+    exporter: n.exporter,
+    usageWarnings: n.usageWarnings,
+    tags: n.tags
+});
 
 // --- 3D COMPONENTS ---
 
-function ServerMarker({
-  data,
-  radius,
-  onSelect,
-  isSelected,
-}: {
-  data: ServerLocation;
-  radius: number;
-  onSelect: (data: ServerLocation) => void;
-  isSelected: boolean;
-}) {
-  const position = useMemo(() => latLongToVector3(data.lat, data.lon, radius), [data.lat, data.lon, radius]);
-  const pulseRef = useRef<THREE.Mesh>(null);
-  const [hovered, setHovered] = useState(false);
-  const color = STATUS_COLORS[data.status];
+// Markers glow brighter than their status color; instance colors skip tone mapping
+const MARKER_GLOW = 2;
+const SELECTED_GLOW = 4;
+const MAX_CLUSTER_LABELS = 60;
+
+// Pulsing halo drawn per instance; the pulse is computed in the vertex shader, so animating
+// every marker costs one uniform update per frame
+const HALO_VERTEX_SHADER = `
+  uniform float uTime;
+  varying vec3 vColor;
+  varying float vOpacity;
+  void main() {
+    float pulse = 1.0 + sin(uTime * 3.0) * 0.2;
+    vOpacity = 0.6 - (pulse - 1.0);
+    vColor = vec3(1.0);
+    #ifdef USE_INSTANCING_COLOR
+      vColor = instanceColor;
+    #endif
+    gl_Position = projectionMatrix * modelViewMatrix * instanceMatrix * vec4(position * pulse, 1.0);
+  }
+`;
 
-  // Different visuals for different types
-  const scale = data.type === 'real' ? 1.5 : 1; 
+const HALO_FRAGMENT_SHADER = `
+  varying vec3 vColor;
+  varying float vOpacity;
+  void main() {
+    gl_FragColor = vec4(vColor, vOpacity);
+    #include <colorspace_fragment>
+  }
+`;
+
+// Instance buffers are allocated in powers of two so adding a node doesn't rebuild the meshes
+const instanceCapacity = (count: number) => Math.max(16, 2 ** Math.ceil(Math.log2(Math.max(count, 1))));
+
+const setCursor = (pointer: boolean) => {
+  document.body.style.cursor = pointer ? "pointer" : "auto";
+};
+
+function HaloMaterial() {
+  const material = useRef<THREE.ShaderMaterial>(null);
+  const uniforms = useMemo(() => ({ uTime: { value: 0 } }), []);
 
   useFrame(({ clock }) => {
-    if (pulseRef.current) {
-      const t = clock.getElapsedTime();
-      const pulse = 1 + Math.sin(t * 3) * 0.2;
-      pulseRef.current.scale.setScalar(pulse);
-      (pulseRef.current.material as THREE.MeshBasicMaterial).opacity = 0.6 - (pulse - 1);
-    }
+    if (material.current) material.current.uniforms.uTime.value = clock.getElapsedTime();
   });
 
   return (
-    <group position={position}>
-      {/* Interaction Hitbox */}
-      <mesh
+    <shaderMaterial
+      ref={material}
+      uniforms={uniforms}
+      vertexShader={HALO_VERTEX_SHADER}
+      fragmentShader={HALO_FRAGMENT_SHADER}
+      transparent
+      depthWrite={false}
+      blending={THREE.AdditiveBlending}
+    />
+  );
+}
+
+type MarkerInstance = { position: THREE.Vector3; scale: number; color: string; glow: number };
+
+// Writes one transform and color per instance and refreshes the bounds used for picking
+const writeInstances = (mesh: THREE.InstancedMesh | null, instances: MarkerInstance[], scale: (i: MarkerInstance) => number, glow: boolean) => {
+  if (!mesh) return;
+  const matrix = new THREE.Matrix4();
+  const rotation = new THREE.Quaternion();
+  const size = new THREE.Vector3();
+  const color = new THREE.Color();
+  instances.forEach((instance, i) => {
+    mesh.setMatrixAt(i, matrix.compose(instance.position, rotation, size.setScalar(scale(instance))));
+    mesh.setColorAt(i, color.set(instance.color).multiplyScalar(glow ? instance.glow : 1));
+  });
+  mesh.count = instances.length;
+  mesh.instanceMatrix.needsUpdate = true;
+  if (mesh.instanceColor) mesh.instanceColor.needsUpdate = true;
+  mesh.computeBoundingSphere();
+};
+
+// Every node or cluster of one kind drawn as three instanced meshes: the glowing core, the
+// pulsing halo and a larger invisible sphere that catches pointer events
+function MarkerInstances({
+  instances,
+  coreSize,
+  haloSize,
+  hitSize,
+  onHover,
+  onPick,
+}: {
+  instances: MarkerInstance[];
+  coreSize: number;
+  haloSize: number;
+  hitSize: number;
+  onHover: (index: number | null) => void;
+  onPick: (index: number) => void;
+}) {
+  const core = useRef<THREE.InstancedMesh>(null);
+  const halo = useRef<THREE.InstancedMesh>(null);
+  const hitbox = useRef<THREE.InstancedMesh>(null);
+  const capacity = instanceCapacity(instances.length);
+
+  useLayoutEffect(() => {
+    writeInstances(core.current, instances, i => i.scale, true);
+    writeInstances(halo.current, instances, i => i.scale, false);
+    writeInstances(hitbox.current, instances, () => 1, false);
+  }, [instances, capacity]);
+
+  return (
+    <group>
+      <instancedMesh key={`core-${capacity}`} ref={core} args={[undefined, undefined, capacity]} frustumCulled={false}>
+        <sphereGeometry args={[coreSize, 16, 16]} />
+        <meshBasicMaterial toneMapped={false} />
+      </instancedMesh>
+      <instancedMesh key={`halo-${capacity}`} ref={halo} args={[undefined, undefined, capacity]} frustumCulled={false}>
+        <sphereGeometry args={[haloSize, 16, 16]} />
+        <HaloMaterial />
+      </instancedMesh>
+      <instancedMesh
+        key={`hit-${capacity}`}
+        ref={hitbox}
+        args={[undefined, undefined, capacity]}
+        visible={false}
         onClick={(e) => {
           e.stopPropagation();
-          onSelect(data);
+          if (e.instanceId !== undefined) onPick(e.instanceId);
         }}
-        onPointerOver={() => {
-          setHovered(true);
-          document.body.style.cursor = "pointer";
+        onPointerMove={(e) => {
+          e.stopPropagation();
+          if (e.instanceId !== undefined) onHover(e.instanceId);
+          setCursor(true);
         }}
         onPointerOut={() => {
-          setHovered(false);
-          document.body.style.cursor = "auto";
+          onHover(null);
+          setCursor(false);
         }}
-        visible={false}
       >
-        <sphereGeometry args={[0.2, 16, 16]} />
-      </mesh>
+        <sphereGeometry args={[hitSize, 8, 8]} />
+      </instancedMesh>
+    </group>
+  );
+}
 
-      {/* Core Marker */}
-      <mesh scale={isSelected ? scale * 1.5 : hovered ? scale * 1.2 : scale}>
-        <sphereGeometry args={[0.04, 16, 16]} />
-        <meshStandardMaterial
-          color={color}
-          emissive={color}
-          emissiveIntensity={isSelected ? 4 : 2}
-          toneMapped={false}
-        />
-      </mesh>
+// All node markers on the globe. Zoomed out, nearby nodes merge into cluster bubbles showing
+// how many nodes they hold in the color of the worst status; clicking one flies in until it
+// splits. The selected node is never clustered.
+function GlobeMarkers({
+  nodes,
+  radius,
+  selectedNodeId,
+  onSelect,
+  onExpand,
+  occluder,
+}: {
+  nodes: LocatedServer[];
+  radius: number;
+  selectedNodeId: string | null;
+  onSelect: (node: ServerLocation) => void;
+  onExpand: (direction: THREE.Vector3) => void;
+  occluder: React.RefObject<THREE.Mesh | null>;
+}) {
+  const camera = useThree(state => state.camera);
+  const [view, setView] = useState({ cellDeg: -1, facing: new THREE.Vector3(0, 0, 1) });
+  const [hoveredNode, setHoveredNode] = useState<string | null>(null);
+  const [hoveredCluster, setHoveredCluster] = useState<string | null>(null);
 
-      {/* Pulse / Selection Ring */}
-      <mesh ref={pulseRef}>
-        <sphereGeometry args={[0.08 * scale, 16, 16]} />
-        <meshBasicMaterial color={color} transparent opacity={0.3} blending={THREE.AdditiveBlending} depthWrite={false} />
-      </mesh>
+  // Re-cluster on zoom steps and re-pick the labeled clusters once the view turned far enough
+  useFrame(() => {
+    const distance = camera.position.length();
+    const cellDeg = clusterCellDegrees(Math.round(((distance - radius) / radius) * 8) / 8);
+    const facing = camera.position.clone().divideScalar(distance);
+    if (cellDeg !== view.cellDeg || facing.angleTo(view.facing) > 0.2) setView({ cellDeg, facing });
+  });
 
-      {/* Label on Hover/Select */}
-      {(hovered || isSelected) && (
-        <Html position={[0, 0.15, 0]} center distanceFactor={10} zIndexRange={[100, 0]} occlude>
-          <div className={`pointer-events-none whitespace-nowrap rounded bg-black/80 px-2 py-1 text-[10px] font-mono backdrop-blur border ${data.type === 'real' ? 'border-cyan-500 text-cyan-400 font-bold' : 'border-white/20 text-white'}`}>
-            {data.name}
+  const { singles, clusters } = useMemo(() => {
+    const selected = nodes.find(n => n.id === selectedNodeId);
+    const grouped = clusterMarkers(nodes.filter(n => n !== selected), view.cellDeg);
+    return { singles: selected ? [...grouped.singles, selected] : grouped.singles, clusters: grouped.clusters };
+  }, [nodes, selectedNodeId, view.cellDeg]);
+
+  const nodeInstances = useMemo(() => singles.map(node => {
+    const base = node.type === "real" ? 1.5 : 1;
+    const selected = node.id === selectedNodeId;
+    return {
+      position: new THREE.Vector3(...latLongToVector3(node.lat, node.lon, radius)),
+      scale: selected ? base * 1.5 : node.id === hoveredNode ? base * 1.2 : base,
+      color: STATUS_COLORS[node.status],
+      glow: selected ? SELECTED_GLOW : MARKER_GLOW,
+    };
+  }), [singles, selectedNodeId, hoveredNode, radius]);
+
+  const clusterInstances = useMemo(() => clusters.map(cluster => ({
+    position: new THREE.Vector3(...cluster.direction).multiplyScalar(radius),
+    scale: (1 + Math.log2(cluster.members.length) * 0.35) * (cluster.key === hoveredCluster ? 1.15 : 1),
+    color: STATUS_COLORS[cluster.status],
+    glow: MARKER_GLOW,
+  })), [clusters, hoveredCluster, radius]);
+
+  // Counts only on the clusters facing the camera, biggest first
+  const labeledClusters = useMemo(() => clusters
+    .map((cluster, i) => ({ cluster, position: clusterInstances[i].position }))
+    .filter(({ position }) => position.clone().normalize().dot(view.facing) > 0.25)
+    .sort((a, b) => b.cluster.members.length - a.cluster.members.length)
+    .slice(0, MAX_CLUSTER_LABELS), [clusters, clusterInstances, view.facing]);
+
+  // Labels hide behind the globe only; testing against every marker would cost a raycast per instance
+  const occludeBy = [occluder as React.RefObject<THREE.Object3D>];
+  const labeledNodes = singles.filter(n => n.id === hoveredNode || n.id === selectedNodeId);
+  const hovered = clusters.find(c => c.key === hoveredCluster);
+
+  return (
+    <group>
+      <MarkerInstances
+        instances={nodeInstances}
+        coreSize={0.04}
+        haloSize={0.08}
+        hitSize={0.2}
+        onHover={(i) => setHoveredNode(i === null ? null : singles[i]?.id ?? null)}
+        onPick={(i) => singles[i] && onSelect(singles[i])}
+      />
+      <MarkerInstances
+        instances={clusterInstances}
+        coreSize={0.06}
+        haloSize={0.1}
+        hitSize={0.2}
+        onHover={(i) => setHoveredCluster(i === null ? null : clusters[i]?.key ?? null)}
+        onPick={(i) => clusters[i] && onExpand(new THREE.Vector3(...clusters[i].direction))}
+      />
+
+      {labeledClusters.map(({ cluster, position }) => (
+        <Html key={cluster.key} position={position} center zIndexRange={[80, 0]}>
+          <div className="pointer-events-none select-none text-[10px] font-bold font-mono text-black">{cluster.members.length}</div>
+        </Html>
+      ))}
+
+      {labeledNodes.map(node => (
+        <Html key={node.id} position={nodeInstances[singles.indexOf(node)].position.clone().add(new THREE.Vector3(0, 0.15, 0))} center distanceFactor={10} zIndexRange={[100, 0]} occlude={occludeBy}>
+          <div className={`pointer-events-none whitespace-nowrap rounded bg-black/80 px-2 py-1 text-[10px] font-mono backdrop-blur border ${node.type === 'real' ? 'border-cyan-500 text-cyan-400 font-bold' : 'border-white/20 text-white'}`}>
+            {node.name}
+          </div>
+        </Html>
+      ))}
+
+      {hovered && (
+        <Html position={new THREE.Vector3(...hovered.direction).multiplyScalar(radius + 0.2)} center distanceFactor={10} zIndexRange={[100, 0]} occlude={occludeBy}>
+          <div className="pointer-events-none whitespace-nowrap rounded bg-black/80 px-2 py-1 text-[10px] font-mono backdrop-blur border border-white/20 text-white">
+            <div className="font-bold" style={{ color: STATUS_COLORS[hovered.status] }}>{hovered.members.length} nodes · click to expand</div>
+            {hovered.members.slice(0, 4).map(m => <div key={m.id} className="text-zinc-400">{m.name}</div>)}
+            {hovered.members.length > 4 && <div className="text-zinc-500">+{hovered.members.length - 4} more</div>}
           </div>
         </Html>
       )}
@@ -131,17 +404,143 @@ function ServerMarker({
   );
 }
 
+// Animated arc between two points on the globe; the dashes travel from `from` to `to`
+function FlowArc({
+  from,
+  to,
+  radius,
+  color,
+  emphasis,
+}: {
+  from: { lat: number; lon: number };
+  to: { lat: number; lon: number };
+  radius: number;
+  color: string;
+  emphasis: "normal" | "highlight" | "dim";
+}) {
+  const { lat: fromLat, lon: fromLon } = from;
+  const { lat: toLat, lon: toLon } = to;
+  const points = useMemo(
+    () => greatCircleArc({ lat: fromLat, lon: fromLon }, { lat: toLat, lon: toLon }, radius),
+    [fromLat, fromLon, toLat, toLon, radius]
+  );
+  const lineRef = useRef<React.ComponentRef<typeof Line>>(null);
+
+  useFrame((_, delta) => {
+    if (lineRef.current) lineRef.current.material.dashOffset -= delta * 0.4;
+  });
+
+  return (
+    <Line
+      ref={lineRef}
+      points={points}
+      color={color}
+      lineWidth={emphasis === "highlight" ? 2.5 : 1.2}
+      dashed
+      dashSize={0.08}
+      gapSize={0.05}
+      transparent
+      opacity={emphasis === "highlight" ? 1 : emphasis === "dim" ? 0.12 : 0.6}
+      depthWrite={false}
+      toneMapped={false}
+    />
+  );
+}
+
+const TRACE_COLOR = "#bd00ff";
+
+// A traceroute's located hops joined in order; hops sharing a location share one label
+function TracePath({ hops, radius }: { hops: TraceHop[]; radius: number }) {
+  const stops = useMemo(() => {
+    const located: { lat: number; lon: number; hops: number[] }[] = [];
+    for (const hop of hops) {
+      if (hop.lat == null || hop.lng == null) continue;
+      const last = located[located.length - 1];
+      if (last && last.lat === hop.lat && last.lon === hop.lng) last.hops.push(hop.hop);
+      else located.push({ lat: hop.lat, lon: hop.lng, hops: [hop.hop] });
+    }
+    return located;
+  }, [hops]);
+
+  return (
+    <group>
+      {stops.slice(1).map((stop, i) => (
+        <FlowArc key={`arc-${stop.hops[0]}`} from={stops[i]} to={stop} radius={radius} color={TRACE_COLOR} emphasis="highlight" />
+      ))}
+      {stops.map(stop => (
+        <group key={`hop-${stop.hops[0]}`} position={latLongToVector3(stop.lat, stop.lon, radius)}>
+          <mesh>
+            <sphereGeometry args={[0.025, 12, 12]} />
+            <meshBasicMaterial color={TRACE_COLOR} toneMapped={false} />
+          </mesh>
+          <Html position={[0, 0.08, 0]} center distanceFactor={10} zIndexRange={[90, 0]}>
+            <div className="pointer-events-none whitespace-nowrap rounded bg-black/80 px-1 text-[9px] font-mono text-purple-300 border border-purple-500/40">
+              {stop.hops.length > 1 ? `${stop.hops[0]}-${stop.hops[stop.hops.length - 1]}` : stop.hops[0]}
+            </div>
+          </Html>
+        </group>
+      ))}
+    </group>
+  );
+}
+
 function MainGlobe({
   nodes,
   onSelectNode,
   selectedNodeId,
+  chain,
+  trace,
 }: {
   nodes: ServerLocation[];
   onSelectNode: (node: ServerLocation | null) => void;
   selectedNodeId: string | null;
+  chain: DependencyChain | null; // the selected node's upstream/downstream chain, highlighted
+  trace: TraceHop[] | null; // path of the running or last traceroute
 }) {
   const globeRef = useRef<THREE.Mesh>(null);
   const GLOBE_RADIUS = 2;
+  const camera = useThree(state => state.camera);
+  const controls = useThree(state => state.controls) as THREE.EventDispatcher<{ start: object }> | null;
+  const flight = useRef<THREE.Vector3 | null>(null); // where the camera is flying to after a cluster click
+
+  const located = useMemo(() => nodes.filter(hasLocation), [nodes]);
+
+  // Dragging takes over from a flight in progress
+  useEffect(() => {
+    if (!controls) return;
+    const cancel = () => {
+      flight.current = null;
+    };
+    controls.addEventListener('start', cancel);
+    return () => controls.removeEventListener('start', cancel);
+  }, [controls]);
+
+  // Eases toward the target along the sphere around the globe rather than through it
+  useFrame((_, delta) => {
+    const target = flight.current;
+    if (!target) return;
+    const t = 1 - Math.exp(-delta * 4);
+    const distance = THREE.MathUtils.lerp(camera.position.length(), target.length(), t);
+    camera.position.normalize().lerp(target.clone().normalize(), t).normalize().multiplyScalar(distance);
+    camera.lookAt(0, 0, 0);
+    if (camera.position.distanceTo(target) < 0.01) flight.current = null;
+  });
+
+  // Halves the camera's height over the cluster, which shrinks the cells enough to split it
+  const expandCluster = (direction: THREE.Vector3) => {
+    const altitude = camera.position.length() - GLOBE_RADIUS;
+    flight.current = direction.clone().normalize().multiplyScalar(GLOBE_RADIUS + Math.max(1, altitude / 2));
+  };
+
+  // Links are only drawn when both ends are on the globe
+  const arcs = useMemo(() => {
+    const byId = new Map(located.map(n => [n.id, n]));
+    return dependencyLinks(nodes).flatMap(link => {
+      const from = byId.get(link.from);
+      const to = byId.get(link.to);
+      return from && to ? [{ key: linkKey(link), from, to }] : [];
+    });
+  }, [nodes, located]);
   
   // Load texture
   const colorMap = useLoader(THREE.TextureLoader, '/earth_daymap.jpg');
@@ -182,29 +581,78 @@ function MainGlobe({
         />
       </mesh>
 
-      {nodes.map((loc) => (
-        <ServerMarker
-          key={loc.id}
-          data={loc}
+      {trace && <TracePath hops={trace} radius={GLOBE_RADIUS} />}
+
+      {/* A link is only as healthy as its worse end */}
+      {arcs.map(({ key, from, to }) => (
+        <FlowArc
+          key={key}
+          from={from}
+          to={to}
           radius={GLOBE_RADIUS}
-          onSelect={onSelectNode}
-          isSelected={selectedNodeId === loc.id}
+          color={STATUS_COLORS[worseStatus(from.status, to.status)]}
+          emphasis={!chain ? "normal" : chain.links.has(key) ? "highlight" : "dim"}
         />
       ))}
+
+      <GlobeMarkers
+        nodes={located}
+        radius={GLOBE_RADIUS}
+        selectedNodeId={selectedNodeId}
+        onSelect={onSelectNode}
+        onExpand={expandCluster}
+        occluder={globeRef}
+      />
     </group>
   );
 }
 
 // --- UI COMPONENTS ---
 
-function AddNodeModal({ onClose, onAdd }: { onClose: () => void, onAdd: (node: any) => Promise<void> }) {
-    const [formData, setFormData] = useState({ name: '', ip: '', lat: '', lng: '', region: '' });
+type CheckFormData = { type: CheckType; port: string; path: string; expectStatus: string; bodyRegex: string; timeoutMs: string; intervalSec: string };
+
+type RulesFormData = { latencyWarnMs: string; failuresToError: string; failuresToOffline: string; usageWarnPercent: string };
+
+type NodeFormData = { name: string; ip: string; lat: string; lng: string; region: string; check: CheckFormData; rules: RulesFormData; dependsOn: string[]; metricsUrl: string; tags: string[] };
+
+const toRulesForm = (rules: StatusRules = {}): RulesFormData => ({
+    latencyWarnMs: rules.latencyWarnMs !== undefined ? String(rules.latencyWarnMs) : '',
+    failuresToError: rules.failuresToError !== undefined ? String(rules.failuresToError) : '',
+    failuresToOffline: rules.failuresToOffline !== undefined ? String(rules.failuresToOffline) : '',
+    usageWarnPercent: rules.usageWarnPercent !== undefined ? String(rules.usageWarnPercent) : '',
+});
+
+const toCheckForm = (check: CheckSpec = DEFAULT_CHECK): CheckFormData => ({
+    type: check.type,
+    port: check.port !== undefined ? String(check.port) : '',
+    path: check.path ?? '',
+    expectStatus: check.expectStatus !== undefined ? String(check.expectStatus) : '',
+    bodyRegex: check.bodyRegex ?? '',
+    timeoutMs: check.timeoutMs !== undefined ? String(check.timeoutMs) : '',
+    intervalSec: check.intervalSec !== undefined ? String(check.intervalSec) : '',
+});
+
+function AddNodeModal({ onClose, onAdd, node, candidates }: { onClose: () => void, onAdd: (node: NodeFormData) => Promise<void>, node?: ServerLocation, candidates: ServerLocation[] }) {
+    const [formData, setFormData] = useState<NodeFormData>(node
+        ? { name: node.name, ip: node.ip ?? '', lat: node.lat != null ? String(node.lat) : '', lng: node.lon != null ? String(node.lon) : '', region: node.region, check: toCheckForm(node.check), rules: toRulesForm(node.rules), dependsOn: node.dependsOn ?? [], metricsUrl: node.metricsUrl ?? '', tags: node.tags ?? [] }
+        : { name: '', ip: '', lat: '', lng: '', region: '', check: toCheckForm(), rules: toRulesForm(), dependsOn: [], metricsUrl: '', tags: [] });
+    const [tagText, setTagText] = useState((node?.tags ?? []).join(', '));
     const [loading, setLoading] = useState(false);
+    const isEdit = !!node;
+    const check = formData.check;
+    const setCheck = (patch: Partial<CheckFormData>) => setFormData({ ...formData, check: { ...check, ...patch } });
+    const isHttp = check.type === 'http' || check.type === 'https';
+    const setRules = (patch: Partial<RulesFormData>) => setFormData({ ...formData, rules: { ...formData.rules, ...patch } });
+    const toggleDependency = (id: string) => setFormData({
+        ...formData,
+        dependsOn: formData.dependsOn.includes(id) ? formData.dependsOn.filter(d => d !== id) : [...formData.dependsOn, id],
+    });
+    const dependencyOptions = candidates.filter(c => c.id !== node?.id);
 
     const handleSubmit = async (e: React.FormEvent) => {
         e.preventDefault();
         setLoading(true);
-        await onAdd(formData);
+        await onAdd({ ...formData, tags: splitTags(tagText) });
         setLoading(false);
         onClose();
     };
@@ -213,8 +661,8 @@ function AddNodeModal({ onClose, onAdd }: { onClose: () => void, onAdd: (node: a
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 pointer-events-auto">
             <div className="w-full max-w-md bg-[#0a0a0a] border border-white/10 rounded-xl p-6 shadow-2xl relative">
                 <button onClick={onClose} className="absolute top-4 right-4 text-zinc-500 hover:text-white">✕</button>
-                <h2 className="text-xl font-bold text-white mb-1">Add New Node</h2>
-                <p className="text-xs text-zinc-500 mb-4">Register an external server for monitoring.</p>
+                <h2 className="text-xl font-bold text-white mb-1">{isEdit ? 'Edit Node' : 'Add New Node'}</h2>
+                <p className="text-xs text-zinc-500 mb-4">{isEdit ? 'Clear the coordinates to re-detect the location.' : 'Register an external server for monitoring.'}</p>
                 
                 <form onSubmit={handleSubmit} className="space-y-3">
                     <div>
@@ -244,8 +692,71 @@ function AddNodeModal({ onClose, onAdd }: { onClose: () => void, onAdd: (node: a
                         <input className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none" 
                             value={formData.region} onChange={e => setFormData({...formData, region: e.target.value})} placeholder="e.g. US-West" />
                     </div>
+                    <div>
+                        <label className="text-xs text-zinc-400 block mb-1">Tags</label>
+                        <input className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white font-mono focus:border-cyan-500 outline-none"
+                            value={tagText} onChange={e => setTagText(e.target.value)} placeholder="e.g. env:prod, team:payments, role:db" />
+                    </div>
+                    <div className="pt-2 border-t border-white/10">
+                        <label className="text-xs text-zinc-400 block mb-1">Health Check</label>
+                        <div className="grid grid-cols-4 gap-3">
+                            <select className="col-span-1 bg-white/5 border border-white/10 rounded px-2 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                value={check.type} onChange={e => setCheck({ type: e.target.value as CheckType, port: '' })}>
+                                {CHECK_TYPES.map(t => <option key={t} value={t} className="bg-black">{t.toUpperCase()}</option>)}
+                            </select>
+                            {check.type !== 'dns' && (
+                                <input type="number" min={1} max={65535} className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                    value={check.port} onChange={e => setCheck({ port: e.target.value })} placeholder={`Port ${DEFAULT_PORTS[check.type]}`} />
+                            )}
+                            <input type="number" min={100} max={30000} className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                value={check.timeoutMs} onChange={e => setCheck({ timeoutMs: e.target.value })} placeholder="Timeout ms" />
+                            <input type="number" min={5} className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                value={check.intervalSec} onChange={e => setCheck({ intervalSec: e.target.value })} placeholder="Every 30s" />
+                        </div>
+                        {isHttp && (
+                            <div className="grid grid-cols-3 gap-3 mt-3">
+                                <input className="col-span-2 bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                    value={check.path} onChange={e => setCheck({ path: e.target.value })} placeholder="Path, e.g. /health" />
+                                <input type="number" className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                    value={check.expectStatus} onChange={e => setCheck({ expectStatus: e.target.value })} placeholder="Status 200" />
+                                <input className="col-span-3 bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white font-mono focus:border-cyan-500 outline-none"
+                                    value={check.bodyRegex} onChange={e => setCheck({ bodyRegex: e.target.value })} placeholder="Body regex (optional)" />
+                            </div>
+                        )}
+                    </div>
+                    <div>
+                        <label className="text-xs text-zinc-400 block mb-1">Status Thresholds</label>
+                        <div className="grid grid-cols-4 gap-3">
+                            <input type="number" min={1} className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                value={formData.rules.latencyWarnMs} onChange={e => setRules({ latencyWarnMs: e.target.value })} placeholder={`Warn ${DEFAULT_RULES.latencyWarnMs}ms`} title="Latency that marks the node as warning" />
+                            <input type="number" min={1} className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                value={formData.rules.failuresToError} onChange={e => setRules({ failuresToError: e.target.value })} placeholder={`Error ${DEFAULT_RULES.failuresToError}x`} title="Consecutive failures before error" />
+                            <input type="number" min={1} className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                value={formData.rules.failuresToOffline} onChange={e => setRules({ failuresToOffline: e.target.value })} placeholder={`Offline ${DEFAULT_RULES.failuresToOffline}x`} title="Consecutive failures before offline" />
+                            <input type="number" min={1} max={100} className="bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white focus:border-cyan-500 outline-none"
+                                value={formData.rules.usageWarnPercent} onChange={e => setRules({ usageWarnPercent: e.target.value })} placeholder={`Usage ${DEFAULT_RULES.usageWarnPercent}%`} title="CPU, memory or disk usage (from node_exporter) that marks the node as warning" />
+                        </div>
+                    </div>
+                    <div>
+                        <label className="text-xs text-zinc-400 block mb-1">node_exporter URL</label>
+                        <input type="url" className="w-full bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white font-mono focus:border-cyan-500 outline-none"
+                            value={formData.metricsUrl} onChange={e => setFormData({...formData, metricsUrl: e.target.value})} placeholder="Optional, e.g. http://10.0.0.5:9100/metrics" />
+                    </div>
+                    {dependencyOptions.length > 0 && (
+                        <div>
+                            <label className="text-xs text-zinc-400 block mb-1">Depends On</label>
+                            <div className="max-h-24 overflow-y-auto scrollbar-none rounded border border-white/10 bg-white/5 p-2 grid grid-cols-2 gap-1">
+                                {dependencyOptions.map(c => (
+                                    <label key={c.id} className="flex items-center gap-2 text-xs text-zinc-300 truncate">
+                                        <input type="checkbox" checked={formData.dependsOn.includes(c.id)} onChange={() => toggleDependency(c.id)} />
+                                        <span className="truncate">{c.name}</span>
+                                    </label>
+                                ))}
+                            </div>
+                        </div>
+                    )}
                     <button disabled={loading} type="submit" className="w-full mt-2 bg-cyan-600 hover:bg-cyan-500 text-white font-bold py-2 rounded transition">
-                        {loading ? 'Adding...' : 'Add Node'}
+                        {loading ? (isEdit ? 'Saving...' : 'Adding...') : (isEdit ? 'Save Changes' : 'Add Node')}
                     </button>
                 </form>
             </div>
@@ -253,6 +764,12 @@ function AddNodeModal({ onClose, onAdd }: { onClose: () => void, onAdd: (node: a
     );
 }
 
+const formatUptime = (seconds: number) => {
+    const days = Math.floor(seconds / 86400);
+    const hours = Math.floor((seconds % 86400) / 3600);
+    return days > 0 ? `${days}d ${hours}h` : `${hours}h ${Math.floor((seconds % 3600) / 60)}m`;
+};
+
 function StatusBadge({ status }: { status: ServerStatus }) {
   const color = STATUS_COLORS[status];
   return (
@@ -266,174 +783,404 @@ function StatusBadge({ status }: { status: ServerStatus }) {
   );
 }
 
-function ToolsPanel() {
-    const [target, setTarget] = useState("");
-    const [port, setPort] = useState("80");
-    const [result, setResult] = useState<string | null>(null);
-    const [loading, setLoading] = useState(false);
-    const [activeTool, setActiveTool] = useState<'ping' | 'nslookup' | 'ssl' | 'port'>('ping');
+function NodeListItem({ node, selected, onSelect }: { node: ServerLocation, selected: boolean, onSelect: (node: ServerLocation) => void }) {
+    return (
+        <button
+            onClick={() => onSelect(node)}
+            className={`group w-full flex items-center justify-between rounded-lg border px-3 py-3 transition-all ${
+            selected
+                ? 'border-cyan-500/40 bg-cyan-500/10 shadow-[inset_0_0_20px_rgba(0,240,255,0.05)]'
+                : 'border-transparent hover:bg-white/5 hover:border-white/5'
+            }`}
+        >
+            <div className="text-left min-w-0">
+            <div className={`text-sm font-medium ${selected ? 'text-white' : 'text-zinc-300 group-hover:text-white'} flex items-center gap-2`}>
+                {node.name}
+                {node.type === 'real' && <span className="text-[9px] bg-cyan-900/50 text-cyan-300 px-1 rounded border border-cyan-500/30">HQ</span>}
+                {node.type === 'custom' && <span className="text-[9px] bg-purple-900/50 text-purple-300 px-1 rounded border border-purple-500/30">EXT</span>}
+                {!hasLocation(node) && <span className="text-[9px] bg-zinc-800/80 text-zinc-400 px-1 rounded border border-white/10" title="Location unknown - not shown on the globe">NO GEO</span>}
+            </div>
+            <div className="text-[10px] text-zinc-500 font-mono mt-0.5">{node.location}</div>
+            {node.tags && node.tags.length > 0 && (
+                <div className="mt-1 flex flex-wrap gap-1">
+                    {node.tags.map(tag => <span key={tag} className="rounded bg-white/5 px-1 text-[9px] font-mono text-zinc-400">{tag}</span>)}
+                </div>
+            )}
+            </div>
+            <div className={`h-2 w-2 shrink-0 rounded-full shadow-[0_0_8px_currentColor]`} style={{ color: STATUS_COLORS[node.status], backgroundColor: STATUS_COLORS[node.status] }} />
+        </button>
+    );
+}
 
-    const runTool = async () => {
-        if (!target) return;
-        setLoading(true);
-        setResult(null);
+// Issues (or replaces) the node's agent token and shows how to run the agent with it
+function AgentSetupModal({ node, onClose }: { node: ServerLocation, onClose: () => void }) {
+    const [token, setToken] = useState<string | null>(null);
+    const [busy, setBusy] = useState(false);
+    const origin = typeof window !== 'undefined' ? window.location.origin : '';
+
+    const generate = async () => {
+        if (node.agentEnabled && !confirm('Generating a new token disconnects the agent using the current one. Continue?')) return;
+        setBusy(true);
         try {
-            const res = await fetch('/api/tools', {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify({ type: activeTool, target, port: parseInt(port) })
-            });
+            const res = await fetch(`/api/nodes/${node.id}/agent-token`, { method: 'POST' });
             const data = await res.json();
-            setResult(data.result || data.error);
+            if (!res.ok) throw new Error(data.error);
+            setToken(data.token);
         } catch (e) {
-            setResult("Error executing command.");
-        } finally {
-            setLoading(false);
+            alert(`Could not generate token: ${e instanceof Error ? e.message : e}`);
         }
+        setBusy(false);
     };
 
-    const tools = ['ping', 'nslookup', 'ssl', 'port'];
+    const revoke = async () => {
+        if (!confirm(`Revoke the agent token for "${node.name}"?`)) return;
+        setBusy(true);
+        await fetch(`/api/nodes/${node.id}/agent-token`, { method: 'DELETE' });
+        setBusy(false);
+        onClose();
+    };
 
     return (
-        <div className="flex flex-col h-full">
-            <h3 className="text-sm font-bold text-white mb-4 uppercase tracking-widest border-b border-white/10 pb-2">Network Tools</h3>
-            
-            <div className="grid grid-cols-4 gap-1 mb-4">
-                {tools.map(t => (
-                    <button 
-                        key={t}
-                        onClick={() => setActiveTool(t as any)}
-                        className={`py-1.5 text-[10px] font-mono border rounded uppercase ${activeTool === t ? 'border-cyan-500 bg-cyan-500/20 text-cyan-300' : 'border-white/10 bg-white/5 text-zinc-400'}`}
-                    >
-                        {t}
-                    </button>
-                ))}
-            </div>
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 pointer-events-auto">
+            <div className="w-full max-w-md bg-[#0a0a0a] border border-white/10 rounded-xl p-6 shadow-2xl relative">
+                <button onClick={onClose} className="absolute top-4 right-4 text-zinc-500 hover:text-white">✕</button>
+                <h2 className="text-xl font-bold text-white mb-1">Agent for {node.name}</h2>
+                <p className="text-xs text-zinc-500 mb-4">
+                    Run <span className="font-mono text-zinc-300">scripts/opsglobe-agent.mjs</span> on the server to report its CPU, memory and top processes.
+                </p>
 
-            <div className="flex gap-2 mb-4">
-                <input 
-                    type="text" 
-                    value={target}
-                    onChange={(e) => setTarget(e.target.value)}
-                    placeholder="Domain or IP..."
-                    className="flex-1 bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white font-mono focus:border-cyan-500/50 outline-none"
-                    onKeyDown={(e) => e.key === 'Enter' && runTool()}
-                />
-                {activeTool === 'port' && (
-                    <input 
-                        type="number"
-                        value={port}
-                        onChange={(e) => setPort(e.target.value)}
-                        className="w-16 bg-black/40 border border-white/10 rounded px-2 py-2 text-xs text-white font-mono focus:border-cyan-500/50 outline-none"
-                        placeholder="Port"
-                    />
+                {token ? (
+                    <div className="space-y-3">
+                        <div className="text-xs text-amber-400">Copy the token now; it will not be shown again.</div>
+                        <pre className="bg-white/5 border border-white/10 rounded p-3 text-[10px] text-cyan-300 font-mono whitespace-pre-wrap break-all select-all">
+                            {`OPSGLOBE_URL=${origin} OPSGLOBE_TOKEN=${token} node opsglobe-agent.mjs`}
+                        </pre>
+                    </div>
+                ) : (
+                    <div className="text-xs text-zinc-400">
+                        {node.agent
+                            ? `Agent connected from ${node.agent.hostname}, last report ${new Date(node.agent.reportedAt).toLocaleTimeString()}.`
+                            : node.agentEnabled ? 'A token has been issued but no agent is reporting.' : 'No agent token has been issued for this node.'}
+                    </div>
                 )}
-                <button 
-                    onClick={runTool}
-                    disabled={loading}
-                    className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded text-xs font-bold disabled:opacity-50"
-                >
-                    {loading ? '...' : '>'}
-                </button>
+
+                <div className="grid grid-cols-2 gap-3 mt-4">
+                    <button disabled={busy} onClick={generate} className="bg-cyan-600 hover:bg-cyan-500 text-white text-xs font-bold py-2 rounded transition">
+                        {node.agentEnabled || token ? 'Regenerate Token' : 'Generate Token'}
+                    </button>
+                    <button disabled={busy || (!node.agentEnabled && !token)} onClick={revoke} className="rounded border border-red-500/30 bg-red-500/10 py-2 text-xs font-medium text-red-400 hover:bg-red-500/20 disabled:opacity-40 transition">
+                        Revoke
+                    </button>
+                </div>
             </div>
+        </div>
+    );
+}
+
+type NodeHistoryData = { uptime: number | null; points: HistoryPoint[] };
+
+function LatencySparkline({ points }: { points: HistoryPoint[] }) {
+    const latencies = points.map(p => p.latency).filter((l): l is number => l != null);
+    if (latencies.length < 2) {
+        return <div className="h-10 flex items-center justify-center text-[10px] text-zinc-600">Not enough data yet</div>;
+    }
+
+    const max = Math.max(...latencies, 1);
+    const t0 = points[0].t;
+    const span = Math.max(points[points.length - 1].t - t0, 1);
 
-            <div className="flex-1 bg-black/60 border border-white/10 rounded p-3 font-mono text-[10px] text-zinc-300 overflow-y-auto whitespace-pre-wrap">
-                {result ? result : <span className="text-zinc-600">// Output will appear here...</span>}
+    // Break the line wherever a probe failed so outages show up as gaps
+    const segments: string[] = [];
+    let current: string[] = [];
+    for (const p of points) {
+        if (p.latency == null) {
+            if (current.length) segments.push(current.join(' '));
+            current = [];
+            continue;
+        }
+        current.push(`${((p.t - t0) / span) * 100},${24 - (p.latency / max) * 22}`);
+    }
+    if (current.length) segments.push(current.join(' '));
+
+    return (
+        <svg viewBox="0 0 100 24" preserveAspectRatio="none" className="h-10 w-full">
+            {segments.map((pts, i) => (
+                <polyline key={i} points={pts} fill="none" stroke="#00f0ff" strokeWidth="1" vectorEffect="non-scaling-stroke" />
+            ))}
+        </svg>
+    );
+}
+
+function NodeHistory({ nodeId }: { nodeId: string }) {
+    const [history, setHistory] = useState<NodeHistoryData | null>(null);
+
+    useEffect(() => {
+        let cancelled = false;
+        const load = async () => {
+            try {
+                const res = await fetch(`/api/nodes/${nodeId}/history`);
+                if (!res.ok) return;
+                const data: NodeHistoryData = await res.json();
+                if (!cancelled) setHistory(data);
+            } catch (e) {
+                console.error("Failed to fetch history", e);
+            }
+        };
+        load();
+        const interval = setInterval(load, 30000);
+        return () => {
+            cancelled = true;
+            clearInterval(interval);
+        };
+    }, [nodeId]);
+
+    if (!history) return null;
+
+    const latencies = history.points.map(p => p.latency).filter((l): l is number => l != null);
+    const avg = latencies.length ? Math.round(latencies.reduce((a, b) => a + b, 0) / latencies.length) : null;
+
+    return (
+        <div className="pt-2 border-t border-white/10 space-y-2">
+            <div className="flex justify-between text-[10px] text-zinc-400 uppercase tracking-wider">
+                <span>Latency (24h)</span>
+                <span className="font-mono normal-case text-white">{avg != null ? `avg ${avg}ms` : '--'}</span>
+            </div>
+            <LatencySparkline points={history.points} />
+            <div className="flex justify-between text-[10px] text-zinc-400 uppercase tracking-wider">
+                <span>Uptime</span>
+                <span className="font-mono text-white">{history.uptime != null ? `${history.uptime.toFixed(2)}%` : '--'}</span>
+            </div>
+            <div className="flex h-2 w-full gap-px overflow-hidden rounded">
+                {history.points.length === 0 && <div className="flex-1 bg-white/10" />}
+                {history.points.map(p => (
+                    <div
+                        key={p.t}
+                        className="flex-1"
+                        style={{ background: STATUS_COLORS[p.status] }}
+                        title={`${new Date(p.t).toLocaleString()} · ${p.status}${p.error ? ` (${p.error})` : ''}`}
+                    />
+                ))}
             </div>
         </div>
     );
 }
 
-export default function OpsGlobeScene() {
-  const [selectedNode, setSelectedNode] = useState<ServerLocation | null>(null);
-  const [nodes, setNodes] = useState<ServerLocation[]>([]);
+type CurrentUser = { id: string; username: string; role: Role };
+
+export default function OpsGlobeScene({ user }: { user: CurrentUser }) {
+  const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [hqNode, setHqNode] = useState<ServerLocation | null>(null);
+  const [customNodes, setCustomNodes] = useState<ServerLocation[]>([]);
+  const [connection, setConnection] = useState<'connecting' | 'live' | 'reconnecting'>('connecting');
   const [statusFilter, setStatusFilter] = useState<"all" | ServerStatus>("all");
   const [search, setSearch] = useState("");
-  const [tab, setTab] = useState<'nodes' | 'tools'>('nodes');
+  const [groupBy, setGroupBy] = useState<GroupBy>("none");
+  const [collapsedGroups, setCollapsedGroups] = useState<Set<string>>(new Set());
+  const [tab, setTab] = useState<'nodes' | 'tools' | 'alerts' | 'certs' | 'access' | 'audit'>('nodes');
   const [showAddModal, setShowAddModal] = useState(false);
+  const [showImportModal, setShowImportModal] = useState(false);
+  const [editingNode, setEditingNode] = useState<ServerLocation | null>(null);
+  const [agentNode, setAgentNode] = useState<ServerLocation | null>(null);
+  const [trace, setTrace] = useState<TraceHop[] | null>(null);
+  // Controls are hidden for roles the API would refuse anyway
+  const canOperate = hasRole(user.role, 'operator');
+  const canAdmin = hasRole(user.role, 'admin');
+
+  const nodes = useMemo(
+    () => [...(hqNode ? [hqNode] : []), ...customNodes, ...SIMULATED_SERVERS, ...PUBLIC_NODES],
+    [hqNode, customNodes]
+  );
+
+  // Derived from the latest update so the details panel never shows stale data
+  const selectedNode = useMemo(() => nodes.find(n => n.id === selectedNodeId) ?? null, [nodes, selectedNodeId]);
+  const setSelectedNode = useCallback((node: ServerLocation | null) => setSelectedNodeId(node?.id ?? null), []);
+  const chain = useMemo(() => (selectedNodeId ? dependencyChain(nodes, selectedNodeId) : null), [nodes, selectedNodeId]);
   
   // FETCH DATA
+  // One-shot refresh after mutations; everything else arrives over the live stream
   const fetchData = useCallback(async () => {
     try {
         // 1. Fetch Local Status
         const statusRes = await fetch('/api/status');
-        const statusData = await statusRes.json();
-        
-        const realNode: ServerLocation = {
-            id: 'local-hq',
-            name: `${statusData.hostname} (HQ)`,
-            location: 'Berlin, DE', 
-            lat: 52.5200,
-            lon: 13.4050,
-            status: 'online',
-            region: 'Local',
-            cpu: statusData.cpu,
-            memory: statusData.memory,
-            type: 'real',
-            processes: statusData.processes
-        };
+        if (statusRes.status === 401) {
+            window.location.href = '/login'; // session expired
+            return;
+        }
+        setHqNode(toHqNode(await statusRes.json()));
 
         // 2. Fetch Custom Nodes
         const nodesRes = await fetch('/api/nodes');
-        const customNodesRaw = await nodesRes.json();
-        const customNodes: ServerLocation[] = customNodesRaw.map((n: any) => ({
-            id: n.id,
-            name: n.name,
-            location: n.ip, // Use IP as location label for now
-            lat: n.lat,
-            lon: n.lng,
-            status: n.status === 'online' ? 'online' : 'offline',
-            region: n.region,
-            cpu: 0,
-            memory: 0,
-            type: 'custom',
-            ip: n.ip
-        }));
-
-        setNodes([realNode, ...customNodes, ...SIMULATED_SERVERS, ...PUBLIC_NODES]);
-
+        const customNodesRaw: ApiNode[] = await nodesRes.json();
+        setCustomNodes(customNodesRaw.map(toCustomNode));
     } catch (e) {
         console.error("Failed to fetch data", e);
     }
   }, []);
 
+  // LIVE UPDATES (Server-Sent Events)
   useEffect(() => {
-    fetchData();
-    const interval = setInterval(fetchData, 5000); 
-    return () => clearInterval(interval);
-  }, [fetchData]);
+    let source: EventSource | null = null;
+    let retryTimer: ReturnType<typeof setTimeout> | undefined;
+    let attempt = 0;
+    let disposed = false;
+
+    const connect = () => {
+        source = new EventSource('/api/stream');
+        source.onopen = () => {
+            attempt = 0;
+            setConnection('live');
+        };
+        source.addEventListener('nodes', (e) => {
+            const raw: ApiNode[] = JSON.parse(e.data);
+            setCustomNodes(raw.map(toCustomNode));
+        });
+        source.addEventListener('node', (e) => {
+            const node = toCustomNode(JSON.parse(e.data));
+            setCustomNodes(prev => prev.map(n => n.id === node.id ? node : n));
+        });
+        source.addEventListener('hq', (e) => setHqNode(toHqNode(JSON.parse(e.data))));
+        source.onerror = () => {
+            // Take over from EventSource's fixed retry so we can back off exponentially
+            source?.close();
+            if (disposed) return;
+            // EventSource hides the status code, so check whether the session expired
+            void fetch('/api/auth/me').then(res => {
+                if (res.status === 401) window.location.href = '/login';
+            }).catch(() => {
+                // Server unreachable: the reconnect below keeps trying
+            });
+            setConnection('reconnecting');
+            const delay = Math.min(30000, 1000 * 2 ** attempt) * (0.5 + Math.random() / 2);
+            attempt++;
+            retryTimer = setTimeout(connect, delay);
+        };
+    };
+
+    connect();
+    return () => {
+        disposed = true;
+        clearTimeout(retryTimer);
+        source?.close();
+    };
+  }, []);
 
-  const handleAddNode = async (data: any) => {
+  const handleAddNode = async (data: NodeFormData) => {
     try {
-        await fetch('/api/nodes', {
+        const res = await fetch('/api/nodes', {
             method: 'POST',
             headers: { 'Content-Type': 'application/json' },
             body: JSON.stringify(data)
         });
+        if (!res.ok) {
+            const err = await res.json();
+            alert(`Failed to add node: ${err.error}`);
+        }
         await fetchData(); // Refresh list immediately
     } catch (e) {
         console.error("Failed to add node", e);
     }
   };
 
-  const filteredNodes = useMemo(() => {
-    const term = search.trim().toLowerCase();
-    return nodes.filter((node) => {
-      const matchesStatus = statusFilter === "all" || node.status === statusFilter;
-      const matchesSearch =
-        term.length === 0 ||
-        node.name.toLowerCase().includes(term) ||
-        node.location.toLowerCase().includes(term) ||
-        node.region.toLowerCase().includes(term);
-      return matchesStatus && matchesSearch;
-    });
-  }, [search, statusFilter, nodes]);
+  const handleEditNode = async (id: string, data: NodeFormData) => {
+    try {
+        const res = await fetch(`/api/nodes/${id}`, {
+            method: 'PATCH',
+            headers: { 'Content-Type': 'application/json' },
+            body: JSON.stringify(data)
+        });
+        if (!res.ok) {
+            const err = await res.json();
+            alert(`Failed to update node: ${err.error}`);
+        }
+        await fetchData();
+    } catch (e) {
+        console.error("Failed to update node", e);
+    }
+  };
+
+  const handleDeleteNode = async (node: ServerLocation) => {
+    if (!confirm(`Delete node "${node.name}"? This cannot be undone.`)) return;
+    try {
+        const res = await fetch(`/api/nodes/${node.id}`, { method: 'DELETE' });
+        if (!res.ok) {
+            const err = await res.json().catch(() => ({ error: `HTTP ${res.status}` }));
+            alert(`Delete failed: ${err.error}`);
+            return;
+        }
+        setSelectedNodeId(null);
+        await fetchData();
+    } catch (e) {
+        console.error("Failed to delete node", e);
+    }
+  };
+
+  const handleRegeolocateNode = async (id: string) => {
+    try {
+        const res = await fetch(`/api/nodes/${id}/geolocate`, { method: 'POST' });
+        if (!res.ok) {
+            const err = await res.json();
+            alert(`Geolocation failed: ${err.error}`);
+        }
+        await fetchData();
+    } catch (e) {
+        console.error("Failed to geolocate node", e);
+    }
+  };
+
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' });
+    window.location.href = '/login';
+  };
+
+  // The search box takes the query syntax in utils/nodeQuery; plain words still match by substring
+  const query = useMemo(() => parseNodeQuery(search), [search]);
+
+  const filteredNodes = useMemo(
+    () => nodes.filter(node => (statusFilter === "all" || node.status === statusFilter) && matchesNodeQuery(node, query)),
+    [query, statusFilter, nodes]
+  );
+
+  const groups = useMemo(() => groupNodes(filteredNodes, groupBy), [filteredNodes, groupBy]);
+
+  // Keys of key:value tags, offered as "group by" choices
+  const tagKeys = useMemo(
+    () => [...new Set(nodes.flatMap(n => (n.tags ?? []).filter(t => t.includes(':')).map(tagKey)))].sort(),
+    [nodes]
+  );
+
+  const toggleGroup = (key: string) => setCollapsedGroups(prev => {
+    const next = new Set(prev);
+    if (next.has(key)) next.delete(key);
+    else next.add(key);
+    return next;
+  });
+
+  const applyView = (view: FilterView) => {
+    setSearch(view.query);
+    setStatusFilter(view.status);
+    setGroupBy(view.groupBy);
+  };
 
   return (
     <div className="relative h-screen w-full bg-[#050505] overflow-hidden text-zinc-100 font-sans selection:bg-cyan-500/30">
       
       {showAddModal && (
-          <AddNodeModal onClose={() => setShowAddModal(false)} onAdd={handleAddNode} />
+          <AddNodeModal onClose={() => setShowAddModal(false)} onAdd={handleAddNode} candidates={customNodes} />
+      )}
+      {showImportModal && (
+          <ImportNodesModal onClose={() => setShowImportModal(false)} onImported={fetchData} />
+      )}
+      {editingNode && (
+          <AddNodeModal
+              key={editingNode.id}
+              node={editingNode}
+              candidates={customNodes}
+              onClose={() => setEditingNode(null)}
+              onAdd={(data) => handleEditNode(editingNode.id, data)}
+          />
+      )}
+      {agentNode && (
+          <AgentSetupModal key={agentNode.id} node={agentNode} onClose={() => setAgentNode(null)} />
       )}
 
       {/* Canvas Layer */}
@@ -450,10 +1197,13 @@ export default function OpsGlobeScene() {
               nodes={filteredNodes}
               onSelectNode={setSelectedNode}
               selectedNodeId={selectedNode?.id ?? null}
+              chain={chain}
+              trace={trace}
             />
           </Suspense>
           
           <OrbitControls 
+            makeDefault
             enablePan={false} 
             minDistance={3} 
             maxDistance={8}
@@ -471,10 +1221,18 @@ export default function OpsGlobeScene() {
             OPS<span className="text-cyan-400">GLOBE</span>
           </h1>
           <div className="mt-1 flex items-center gap-2 text-xs font-mono text-cyan-500/80">
-            <span className="animate-pulse">●</span> LIVE SYSTEM
+            {connection === 'live' ? (
+                <><span className="animate-pulse">●</span> LIVE SYSTEM</>
+            ) : (
+                <span className="text-amber-400/90"><span className="animate-pulse">○</span> {connection === 'connecting' ? 'CONNECTING' : 'RECONNECTING'}...</span>
+            )}
             <span className="text-zinc-600">|</span>
             <span>V3.0.0</span>
           </div>
+          <div className="mt-1 flex items-center gap-2 text-[10px] font-mono text-zinc-500">
+            <span>{user.username.toUpperCase()} · {user.role.toUpperCase()}</span>
+            <button onClick={handleLogout} className="pointer-events-auto text-zinc-400 hover:text-white underline-offset-2 hover:underline">SIGN OUT</button>
+          </div>
         </div>
       </div>
 
@@ -485,16 +1243,46 @@ export default function OpsGlobeScene() {
         <div className="flex bg-black/60 rounded-xl p-1 border border-white/10 backdrop-blur-xl pointer-events-auto">
              <button 
                 onClick={() => setTab('nodes')}
-                className={`flex-1 py-2 text-xs font-bold uppercase tracking-wide rounded-lg transition-all ${tab === 'nodes' ? 'bg-cyan-500/20 text-cyan-300 shadow-[0_0_10px_rgba(0,240,255,0.1)]' : 'text-zinc-500 hover:text-zinc-300'}`}
+                className={`flex-1 py-2 text-[10px] whitespace-nowrap font-bold uppercase tracking-wide rounded-lg transition-all ${tab === 'nodes' ? 'bg-cyan-500/20 text-cyan-300 shadow-[0_0_10px_rgba(0,240,255,0.1)]' : 'text-zinc-500 hover:text-zinc-300'}`}
              >
                 Nodes
              </button>
+             {canOperate && (
+                <button 
+                    onClick={() => setTab('tools')}
+                    className={`flex-1 py-2 text-[10px] whitespace-nowrap font-bold uppercase tracking-wide rounded-lg transition-all ${tab === 'tools' ? 'bg-cyan-500/20 text-cyan-300 shadow-[0_0_10px_rgba(0,240,255,0.1)]' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                    Net Tools
+                </button>
+             )}
+             <button 
+                onClick={() => setTab('alerts')}
+                className={`flex-1 py-2 text-[10px] whitespace-nowrap font-bold uppercase tracking-wide rounded-lg transition-all ${tab === 'alerts' ? 'bg-cyan-500/20 text-cyan-300 shadow-[0_0_10px_rgba(0,240,255,0.1)]' : 'text-zinc-500 hover:text-zinc-300'}`}
+             >
+                Alerts
+             </button>
              <button 
-                onClick={() => setTab('tools')}
-                className={`flex-1 py-2 text-xs font-bold uppercase tracking-wide rounded-lg transition-all ${tab === 'tools' ? 'bg-cyan-500/20 text-cyan-300 shadow-[0_0_10px_rgba(0,240,255,0.1)]' : 'text-zinc-500 hover:text-zinc-300'}`}
+                onClick={() => setTab('certs')}
+                className={`flex-1 py-2 text-[10px] whitespace-nowrap font-bold uppercase tracking-wide rounded-lg transition-all ${tab === 'certs' ? 'bg-cyan-500/20 text-cyan-300 shadow-[0_0_10px_rgba(0,240,255,0.1)]' : 'text-zinc-500 hover:text-zinc-300'}`}
              >
-                Net Tools
+                Certs
              </button>
+             {canAdmin && (
+                <button 
+                    onClick={() => setTab('access')}
+                    className={`flex-1 py-2 text-[10px] whitespace-nowrap font-bold uppercase tracking-wide rounded-lg transition-all ${tab === 'access' ? 'bg-cyan-500/20 text-cyan-300 shadow-[0_0_10px_rgba(0,240,255,0.1)]' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                    Access
+                </button>
+             )}
+             {canAdmin && (
+                <button 
+                    onClick={() => setTab('audit')}
+                    className={`flex-1 py-2 text-[10px] whitespace-nowrap font-bold uppercase tracking-wide rounded-lg transition-all ${tab === 'audit' ? 'bg-cyan-500/20 text-cyan-300 shadow-[0_0_10px_rgba(0,240,255,0.1)]' : 'text-zinc-500 hover:text-zinc-300'}`}
+                >
+                    Audit
+                </button>
+             )}
         </div>
 
         {tab === 'nodes' ? (
@@ -504,18 +1292,30 @@ export default function OpsGlobeScene() {
                     <div className="flex gap-2 mb-3">
                         <input
                             type="text"
-                            placeholder="Search nodes..."
+                            placeholder="Search, e.g. tag:env:prod status:offline"
+                            title={`Words match name, location, region and tags. Filters: ${QUERY_FIELDS.map(f => `${f}:`).join(' ')} with * wildcards, commas for alternatives and - to exclude.`}
                             value={search}
                             onChange={(e) => setSearch(e.target.value)}
                             className="flex-1 rounded-lg border border-white/10 bg-white/5 px-3 py-2 text-sm text-white placeholder-zinc-500 outline-none focus:border-cyan-500/50 focus:bg-white/10 transition-all"
                         />
-                        <button 
-                            onClick={() => setShowAddModal(true)}
-                            className="bg-cyan-600 hover:bg-cyan-500 text-white px-3 rounded-lg text-lg font-bold"
-                            title="Add Node"
-                        >
-                            +
-                        </button>
+                        {canAdmin && (
+                            <>
+                                <button
+                                    onClick={() => setShowImportModal(true)}
+                                    className="border border-white/10 bg-white/5 hover:bg-white/10 text-zinc-300 hover:text-white px-3 rounded-lg text-sm"
+                                    title="Import / Export Nodes"
+                                >
+                                    ⇅
+                                </button>
+                                <button 
+                                    onClick={() => setShowAddModal(true)}
+                                    className="bg-cyan-600 hover:bg-cyan-500 text-white px-3 rounded-lg text-lg font-bold"
+                                    title="Add Node"
+                                >
+                                    +
+                                </button>
+                            </>
+                        )}
                     </div>
                     
                     <div className="flex gap-2">
@@ -533,31 +1333,54 @@ export default function OpsGlobeScene() {
                         </button>
                         ))}
                     </div>
+
+                    {query.errors.length > 0 && (
+                        <div className="mt-2 text-[10px] text-amber-400">{query.errors.join('. ')}</div>
+                    )}
+
+                    <div className="mt-3 flex items-center gap-2 text-[10px] text-zinc-500 uppercase tracking-wide">
+                        <span>Group by</span>
+                        <select
+                            value={groupBy}
+                            onChange={(e) => setGroupBy(e.target.value as GroupBy)}
+                            className="flex-1 rounded border border-white/10 bg-white/5 px-2 py-1 text-xs normal-case text-white outline-none focus:border-cyan-500/50"
+                        >
+                            <option value="none" className="bg-black">Nothing</option>
+                            <option value="region" className="bg-black">Region</option>
+                            <option value="status" className="bg-black">Status</option>
+                            <option value="type" className="bg-black">Type</option>
+                            {/* A saved preset may group by a key no node has any more */}
+                            {[...new Set([...tagKeys.map(k => `tag:${k}`), ...(groupBy.startsWith('tag:') ? [groupBy] : [])])].map(value => (
+                                <option key={value} value={value} className="bg-black">Tag {value.slice(4)}</option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <FilterPresets current={{ query: search, status: statusFilter, groupBy }} onApply={applyView} />
                 </div>
 
                 {/* List */}
                 <div className="flex-1 overflow-y-auto rounded-xl border border-white/10 bg-black/60 p-2 backdrop-blur-xl shadow-2xl scrollbar-none pointer-events-auto">
                 <div className="space-y-1">
-                    {filteredNodes.map(node => (
-                    <button
-                        key={node.id}
-                        onClick={() => setSelectedNode(node)}
-                        className={`group w-full flex items-center justify-between rounded-lg border px-3 py-3 transition-all ${
-                        selectedNode?.id === node.id
-                            ? 'border-cyan-500/40 bg-cyan-500/10 shadow-[inset_0_0_20px_rgba(0,240,255,0.05)]'
-                            : 'border-transparent hover:bg-white/5 hover:border-white/5'
-                        }`}
-                    >
-                        <div className="text-left">
-                        <div className={`text-sm font-medium ${selectedNode?.id === node.id ? 'text-white' : 'text-zinc-300 group-hover:text-white'} flex items-center gap-2`}>
-                            {node.name}
-                            {node.type === 'real' && <span className="text-[9px] bg-cyan-900/50 text-cyan-300 px-1 rounded border border-cyan-500/30">HQ</span>}
-                            {node.type === 'custom' && <span className="text-[9px] bg-purple-900/50 text-purple-300 px-1 rounded border border-purple-500/30">EXT</span>}
-                        </div>
-                        <div className="text-[10px] text-zinc-500 font-mono mt-0.5">{node.location}</div>
+                    {groupBy === 'none' ? filteredNodes.map(node => (
+                        <NodeListItem key={node.id} node={node} selected={selectedNode?.id === node.id} onSelect={setSelectedNode} />
+                    )) : groups.map(group => (
+                        <div key={group.key}>
+                            <button
+                                onClick={() => toggleGroup(group.key)}
+                                className="w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded text-[10px] uppercase tracking-wider text-zinc-400 hover:text-white hover:bg-white/5"
+                            >
+                                <span className="truncate">{collapsedGroups.has(group.key) ? '▸' : '▾'} {group.label} <span className="text-zinc-600">({group.nodes.length})</span></span>
+                                <span className="flex gap-2 font-mono">
+                                    {(Object.entries(group.counts) as [ServerStatus, number][]).filter(([, n]) => n > 0).map(([status, n]) => (
+                                        <span key={status} style={{ color: STATUS_COLORS[status] }} title={`${n} ${status}`}>{n}</span>
+                                    ))}
+                                </span>
+                            </button>
+                            {!collapsedGroups.has(group.key) && group.nodes.map(node => (
+                                <NodeListItem key={node.id} node={node} selected={selectedNode?.id === node.id} onSelect={setSelectedNode} />
+                            ))}
                         </div>
-                        <div className={`h-2 w-2 rounded-full shadow-[0_0_8px_currentColor]`} style={{ color: STATUS_COLORS[node.status], backgroundColor: STATUS_COLORS[node.status] }} />
-                    </button>
                     ))}
                     {filteredNodes.length === 0 && (
                     <div className="p-4 text-center text-xs text-zinc-500">No servers found.</div>
@@ -565,9 +1388,25 @@ export default function OpsGlobeScene() {
                 </div>
                 </div>
             </>
-        ) : (
+        ) : tab === 'tools' ? (
             <div className="flex-1 rounded-xl border border-white/10 bg-black/60 p-4 backdrop-blur-xl shadow-2xl pointer-events-auto">
-                <ToolsPanel />
+                <ToolsPanel onTrace={setTrace} />
+            </div>
+        ) : tab === 'alerts' ? (
+            <div className="flex-1 min-h-0 rounded-xl border border-white/10 bg-black/60 p-4 backdrop-blur-xl shadow-2xl pointer-events-auto">
+                <AlertsPanel nodes={nodes.filter(n => n.type === 'custom')} canManage={canAdmin} />
+            </div>
+        ) : tab === 'certs' ? (
+            <div className="flex-1 min-h-0 rounded-xl border border-white/10 bg-black/60 p-4 backdrop-blur-xl shadow-2xl pointer-events-auto">
+                <CertInventoryPanel canRefresh={canOperate} />
+            </div>
+        ) : tab === 'access' ? (
+            <div className="flex-1 min-h-0 rounded-xl border border-white/10 bg-black/60 p-4 backdrop-blur-xl shadow-2xl pointer-events-auto">
+                <AccessPanel currentUserId={user.id} />
+            </div>
+        ) : (
+            <div className="flex-1 min-h-0 rounded-xl border border-white/10 bg-black/60 p-4 backdrop-blur-xl shadow-2xl pointer-events-auto">
+                <AuditPanel />
             </div>
         )}
       </div>
@@ -590,11 +1429,16 @@ export default function OpsGlobeScene() {
             <div className="space-y-6">
               <div className="flex items-center justify-between p-3 rounded-lg bg-white/5 border border-white/5">
                 <span className="text-xs text-zinc-400">Status</span>
-                <StatusBadge status={selectedNode.status} />
+                <div className="flex items-center gap-2">
+                    {selectedNode.flapping && (
+                        <span className="text-[9px] uppercase tracking-wider text-amber-300 border border-amber-500/30 bg-amber-900/30 px-1.5 py-0.5 rounded" title="Status is changing frequently; changes are being held back">Flapping</span>
+                    )}
+                    <StatusBadge status={selectedNode.status} />
+                </div>
               </div>
 
               {/* Metrics */}
-              {selectedNode.type === 'real' ? (
+              {(selectedNode.type === 'real' || selectedNode.agent || selectedNode.exporter) && (
                 <div className="space-y-4">
                     <div>
                     <div className="flex justify-between text-xs mb-1.5">
@@ -621,23 +1465,148 @@ export default function OpsGlobeScene() {
                         />
                     </div>
                     </div>
+
+                    {selectedNode.disk != null && (
+                    <div>
+                    <div className="flex justify-between text-xs mb-1.5">
+                        <span className="text-zinc-400">Disk Usage</span>
+                        <span className="font-mono text-white">{selectedNode.disk}%</span>
+                    </div>
+                    <div className="h-1.5 w-full bg-white/10 rounded-full overflow-hidden">
+                        <div 
+                            className="h-full rounded-full bg-amber-400 transition-all duration-700 ease-out" 
+                            style={{ width: `${selectedNode.disk}%` }} 
+                        />
+                    </div>
+                    </div>
+                    )}
+                    {selectedNode.usageWarnings && selectedNode.usageWarnings.length > 0 && (
+                        <div className="text-[10px] text-amber-400">Over the usage threshold: {selectedNode.usageWarnings.join(', ')}</div>
+                    )}
                 </div>
-              ) : selectedNode.type === 'custom' ? (
+              )}
+              {selectedNode.type === 'custom' ? (
                   <div className="p-4 bg-white/5 rounded text-xs text-zinc-400 space-y-2">
                       <div className="flex justify-between">
                           <span>Target IP</span>
                           <span className="text-white font-mono">{selectedNode.ip}</span>
                       </div>
+                      {selectedNode.tags && selectedNode.tags.length > 0 && (
+                          <div className="flex justify-between gap-3">
+                              <span>Tags</span>
+                              <div className="flex flex-wrap justify-end gap-1">
+                                  {selectedNode.tags.map(tag => (
+                                      <button key={tag} onClick={() => { setTab('nodes'); setSearch(`tag:${tag}`); }} className="rounded bg-white/10 px-1.5 font-mono text-[10px] text-zinc-300 hover:text-white" title="Show nodes with this tag">{tag}</button>
+                                  ))}
+                              </div>
+                          </div>
+                      )}
+                      {!hasLocation(selectedNode) && (
+                          <div className="flex justify-between">
+                              <span>Location</span>
+                              <span className="text-amber-400">Unknown</span>
+                          </div>
+                      )}
                       <div className="flex justify-between">
                           <span>Monitoring</span>
-                          <span className="text-cyan-400">TCP Ping (Port 80)</span>
+                          <span className="text-cyan-400">{describeCheck(selectedNode.check)}</span>
+                      </div>
+                      <div className="flex justify-between">
+                          <span>Last Check</span>
+                          <span className="text-white font-mono">
+                              {selectedNode.checkedAt
+                                  ? `${new Date(selectedNode.checkedAt).toLocaleTimeString()}${selectedNode.latency != null ? ` · ${selectedNode.latency}ms` : ''}`
+                                  : 'Pending'}
+                          </span>
                       </div>
+                      <div className="flex justify-between">
+                          <span>Agent</span>
+                          {selectedNode.agent ? (
+                              <span className="text-cyan-400 font-mono">{selectedNode.agent.hostname} · up {formatUptime(selectedNode.agent.uptime)}</span>
+                          ) : (
+                              <span className="text-zinc-500">{selectedNode.agentEnabled ? 'Not reporting' : 'Not installed'}</span>
+                          )}
+                      </div>
+                      {selectedNode.metricsUrl && (
+                          <div className="flex justify-between gap-2">
+                              <span>Exporter</span>
+                              {selectedNode.exporter?.error ? (
+                                  <span className="text-red-400 truncate" title={selectedNode.exporter.error}>{selectedNode.exporter.error}</span>
+                              ) : selectedNode.exporter ? (
+                                  <span className="text-cyan-400 font-mono truncate">
+                                      {selectedNode.exporter.hostname ?? 'Scraped'}{selectedNode.exporter.uptime != null ? ` · up ${formatUptime(selectedNode.exporter.uptime)}` : ''}
+                                  </span>
+                              ) : (
+                                  <span className="text-zinc-500">Waiting for scrape</span>
+                              )}
+                          </div>
+                      )}
                   </div>
-              ) : (
+              ) : selectedNode.type !== 'real' && (
                   <div className="p-4 bg-white/5 rounded text-xs text-zinc-400 italic text-center">
                       Public Infrastructure Node<br/>Metrics unavailable
+                      {selectedNode.ip && <div className="mt-1 not-italic font-mono text-white">{selectedNode.ip}</div>}
                   </div>
               )}
+
+              {chain && (chain.upstream.size > 0 || chain.downstream.size > 0) && (
+                  <div className="space-y-3">
+                      {([['Depends On', chain.downstream], ['Affected If Down', chain.upstream]] as const).map(([label, ids]) => ids.size > 0 && (
+                          <div key={label}>
+                              <div className="text-[10px] text-zinc-400 uppercase tracking-wider mb-1">{label} ({ids.size})</div>
+                              <div className="flex flex-wrap gap-1">
+                                  {nodes.filter(n => ids.has(n.id)).map(n => (
+                                      <button
+                                          key={n.id}
+                                          onClick={() => setSelectedNode(n)}
+                                          className="flex items-center gap-1.5 rounded border border-white/10 bg-white/5 px-2 py-1 text-[10px] text-zinc-300 hover:bg-white/10 hover:text-white transition"
+                                      >
+                                          <span className="h-1.5 w-1.5 rounded-full" style={{ background: STATUS_COLORS[n.status] }} />
+                                          {n.name}
+                                      </button>
+                                  ))}
+                              </div>
+                          </div>
+                      ))}
+                  </div>
+              )}
+
+              {selectedNode.type === 'custom' && <NodeHistory key={selectedNode.id} nodeId={selectedNode.id} />}
+
+              {(selectedNode.type === 'custom' || selectedNode.type === 'public') && (
+                  <QuickActions key={selectedNode.id} nodeId={selectedNode.id} canRun={canOperate} onTrace={setTrace} />
+              )}
+
+              {selectedNode.type === 'custom' && canAdmin && (
+                <div className="grid grid-cols-4 gap-2">
+                    <button
+                        onClick={() => setEditingNode(selectedNode)}
+                        className="rounded-lg border border-white/10 bg-white/5 py-2 text-xs font-medium text-zinc-300 hover:bg-white/10 hover:text-white transition"
+                    >
+                    Edit
+                    </button>
+                    <button
+                        onClick={() => handleRegeolocateNode(selectedNode.id)}
+                        className="rounded-lg border border-white/10 bg-white/5 py-2 text-xs font-medium text-zinc-300 hover:bg-white/10 hover:text-white transition"
+                        title="Re-run geolocation"
+                    >
+                    Locate
+                    </button>
+                    <button
+                        onClick={() => setAgentNode(selectedNode)}
+                        className="rounded-lg border border-white/10 bg-white/5 py-2 text-xs font-medium text-zinc-300 hover:bg-white/10 hover:text-white transition"
+                        title="Set up the metrics agent"
+                    >
+                    Agent
+                    </button>
+                    <button
+                        onClick={() => handleDeleteNode(selectedNode)}
+                        className="rounded-lg border border-red-500/30 bg-red-500/10 py-2 text-xs font-medium text-red-400 hover:bg-red-500/20 hover:text-red-300 transition"
+                    >
+                    Delete
+                    </button>
+                </div>
+              )}
               
               {/* TOP PROCESSES */}
               {selectedNode.processes && selectedNode.processes.length > 0 && (
@@ -655,7 +1624,7 @@ export default function OpsGlobeScene() {
               )}
 
               {/* Action Buttons */}
-              {selectedNode.type === 'real' && (
+              {selectedNode.type === 'real' && canAdmin && (
                 <div className="grid grid-cols-2 gap-3 pt-2">
                     <button className="rounded-lg border border-white/10 bg-white/5 py-2 text-xs font-medium text-zinc-300 hover:bg-white/10 hover:text-white transition">
                     Restart Service
@@ -681,7 +1650,7 @@ export default function OpsGlobeScene() {
       {/* Footer / Overlay details */}
       <div className="absolute bottom-6 right-6 z-0 text-right pointer-events-none opacity-50">
         <div className="text-[10px] text-zinc-600 font-mono uppercase tracking-widest">System Operational</div>
-        <div className="text-[10px] text-zinc-700 font-mono">lat: {selectedNode?.lat.toFixed(4) ?? '--'} lon: {selectedNode?.lon.toFixed(4) ?? '--'}</div>
+        <div className="text-[10px] text-zinc-700 font-mono">lat: {selectedNode?.lat?.toFixed(4) ?? '--'} lon: {selectedNode?.lon?.toFixed(4) ?? '--'}</div>
       </div>
 
     </div>
@@ -0,0 +1,105 @@
+"use client";
+
+import { useCallback, useEffect, useState } from "react";
+import { ToolOutput, defaultOptions, useToolRunner } from "./ToolsPanel";
+import type { ToolInfo } from "../utils/toolSchema";
+import type { ToolRunRecord } from "../utils/toolRuns";
+import type { AuditOutcome } from "../utils/audit";
+import type { TraceHop } from "../utils/traceroute";
+
+const OUTCOME_COLORS: Record<AuditOutcome, string> = {
+    ok: "text-cyan-400",
+    denied: "text-red-400",
+    rate_limited: "text-amber-400",
+    error: "text-red-400",
+};
+
+// One-click tool runs against the selected node's address, with defaults for every option.
+// Runs go through the same tool policy as the Tools tab and land in the node's run history,
+// which viewers can read too.
+export default function QuickActions({ nodeId, canRun, onTrace }: { nodeId: string; canRun: boolean; onTrace: (hops: TraceHop[] | null) => void }) {
+    const [tools, setTools] = useState<ToolInfo[]>([]);
+    const [runs, setRuns] = useState<ToolRunRecord[] | null>(null);
+    const [expanded, setExpanded] = useState<string | null>(null);
+    const { run, start } = useToolRunner(onTrace);
+
+    const loadRuns = useCallback(async () => {
+        try {
+            const res = await fetch(`/api/nodes/${nodeId}/tool-runs`);
+            if (res.ok) setRuns(await res.json());
+        } catch (e) {
+            console.error("Failed to fetch tool runs", e);
+        }
+    }, [nodeId]);
+
+    useEffect(() => {
+        const initial = setTimeout(loadRuns, 0);
+        const interval = setInterval(loadRuns, 30000);
+        return () => {
+            clearTimeout(initial);
+            clearInterval(interval);
+        };
+    }, [loadRuns]);
+
+    // Listing the tools takes the operator role, like running them
+    useEffect(() => {
+        if (!canRun) return;
+        fetch("/api/tools")
+            .then(res => (res.ok ? res.json() : []))
+            .then(setTools)
+            .catch(e => console.error("Failed to fetch tools", e));
+    }, [canRun]);
+
+    const runTool = async (tool: ToolInfo) => {
+        await start(tool, { nodeId, ...defaultOptions(tool) });
+        await loadRuns();
+    };
+
+    if (!canRun && runs?.length === 0) return null;
+
+    return (
+        <div className="pt-2 border-t border-white/10 space-y-2">
+            {canRun && tools.length > 0 && (
+                <>
+                    <div className="text-[10px] text-zinc-400 uppercase tracking-wider">Quick Actions</div>
+                    <div className="grid grid-cols-3 gap-1">
+                        {tools.map(t => (
+                            <button
+                                key={t.name}
+                                onClick={() => runTool(t)}
+                                disabled={Boolean(run?.running)}
+                                title={t.description}
+                                className={`py-1.5 text-[10px] font-mono border rounded uppercase disabled:opacity-50 ${run?.tool === t.name ? 'border-cyan-500 bg-cyan-500/20 text-cyan-300' : 'border-white/10 bg-white/5 text-zinc-400 hover:text-white'}`}
+                            >
+                                {t.label}
+                            </button>
+                        ))}
+                    </div>
+                    {run && <ToolOutput run={run} streaming={tools.find(t => t.name === run.tool)?.streaming} className="max-h-64" />}
+                </>
+            )}
+
+            {runs && runs.length > 0 && (
+                <div>
+                    <div className="text-[10px] text-zinc-400 uppercase tracking-wider mb-1">Recent Runs</div>
+                    <div className="space-y-1">
+                        {runs.map(r => (
+                            <div key={`${r.t}-${r.tool}`} className="rounded bg-white/5 px-2 py-1.5 text-[10px]">
+                                <button onClick={() => setExpanded(expanded === r.t ? null : r.t)} className="w-full text-left">
+                                    <div className="flex justify-between">
+                                        <span className="text-zinc-200 font-mono uppercase">{r.tool}</span>
+                                        <span className={`font-mono shrink-0 ml-2 ${OUTCOME_COLORS[r.outcome]}`}>{r.outcome.replace("_", " ")}</span>
+                                    </div>
+                                    <div className="text-zinc-500 truncate">{r.user} · {new Date(r.t).toLocaleString()}</div>
+                                </button>
+                                {expanded === r.t && (
+                                    <div className="mt-1 max-h-48 overflow-y-auto whitespace-pre-wrap break-all font-mono text-zinc-300">{r.result}</div>
+                                )}
+                            </div>
+                        ))}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -0,0 +1,495 @@
+"use client";
+
+import { useEffect, useRef, useState } from "react";
+import { CertificateChain } from "./CertInventoryPanel";
+import { fieldVisible } from "../utils/toolSchema";
+import type { ToolField, ToolInfo, ToolValues } from "../utils/toolSchema";
+import type { PingData, DnsLookupData } from "../utils/tools";
+import type { TraceHop } from "../utils/traceroute";
+import type { HttpProbeResult } from "../utils/httpProbe";
+import type { PortScanResult } from "../utils/portScan";
+import type { CertificateReport } from "../utils/certs";
+
+// Form values as typed: numbers stay strings until the server validates them, headers are
+// "Name: value" lines
+type FormValues = Record<string, string | boolean>;
+
+type ToolRun = {
+    tool: string;
+    text: string | null; // plain-text result, for copying
+    data?: unknown;      // the tool's typed result, once it finished
+    items: unknown[];    // partial results from a streaming tool
+    running: boolean;
+};
+
+const inputClass = "bg-black/40 border border-white/10 rounded px-2 py-2 text-xs text-white font-mono focus:border-cyan-500/50 outline-none";
+
+const initialValues = (tool: ToolInfo): FormValues =>
+    Object.fromEntries(tool.fields.map(f => [f.name, f.type === 'checkbox' ? Boolean(f.default) : f.default === undefined ? '' : String(f.default)]));
+
+const parseHeaderLines = (text: string) => Object.fromEntries(
+    text.split('\n').map(line => {
+        const colon = line.indexOf(':');
+        return colon === -1 ? [line.trim(), ''] : [line.slice(0, colon).trim(), line.slice(colon + 1).trim()];
+    }).filter(([name]) => name)
+);
+
+// The request options for the visible fields, in the shape the API takes
+const toOptions = (tool: ToolInfo, values: FormValues) => Object.fromEntries(
+    tool.fields
+        .filter(f => fieldVisible(f, values as ToolValues))
+        .map(f => [f.name, f.type === 'headers' ? parseHeaderLines(String(values[f.name] ?? '')) : values[f.name]])
+);
+
+// What a tool runs with when nobody filled in its form
+export const defaultOptions = (tool: ToolInfo) => toOptions(tool, initialValues(tool));
+
+// Reads the newline-delimited JSON a streaming tool sends back, calling onLine per message
+const readLines = async (res: Response, onLine: (line: { item?: unknown; result?: string; data?: unknown; error?: string }) => void) => {
+    const reader = res.body!.pipeThrough(new TextDecoderStream()).getReader();
+    let buffer = '';
+    for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffer += value;
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+        for (const line of lines) if (line) onLine(JSON.parse(line));
+    }
+};
+
+// --- Generic result views ---
+
+function KeyValueView({ rows }: { rows: [string, React.ReactNode, string?][] }) {
+    return (
+        <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+            {rows.map(([label, value, tone]) => (
+                <div key={label} className="contents">
+                    <span className="text-zinc-500">{label}</span>
+                    <span className={`break-all ${tone ?? ''}`}>{value}</span>
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function TableView({ columns, rows }: { columns: string[]; rows: { key: string | number; cells: React.ReactNode[] }[] }) {
+    return (
+        <table className="w-full text-left">
+            <thead className="text-zinc-500">
+                <tr>{columns.map(c => <th key={c} className="font-normal pr-2">{c}</th>)}</tr>
+            </thead>
+            <tbody>
+                {rows.map(row => (
+                    <tr key={row.key} className="align-top">
+                        {row.cells.map((cell, i) => <td key={i} className={`break-all ${i < row.cells.length - 1 ? 'pr-2' : ''}`}>{cell}</td>)}
+                    </tr>
+                ))}
+            </tbody>
+        </table>
+    );
+}
+
+// --- Tool-specific views ---
+
+const WATERFALL_PHASES = [
+    { key: 'dns', label: 'DNS', color: '#14b8a6' },
+    { key: 'connect', label: 'Connect', color: '#f7b731' },
+    { key: 'tls', label: 'TLS', color: '#bd00ff' },
+    { key: 'ttfb', label: 'Wait', color: '#00f0ff' },
+    { key: 'total', label: 'Download', color: '#22c55e' },
+] as const;
+
+// One row per hop of the redirect chain; each phase is a bar segment on a shared time scale
+function HttpWaterfall({ probe }: { probe: HttpProbeResult }) {
+    const scale = Math.max(1, ...probe.hops.map(h => h.timings.total));
+    return (
+        <div className="space-y-3">
+            <div className="flex flex-wrap gap-2 text-[9px] text-zinc-500">
+                {WATERFALL_PHASES.map(p => (
+                    <span key={p.key} className="flex items-center gap-1"><span className="h-1.5 w-2 rounded-sm" style={{ background: p.color }} />{p.label}</span>
+                ))}
+            </div>
+            {probe.hops.map((hop, i) => {
+                // Phase timings are offsets from the start of the hop; a missing phase takes no space
+                let previous = 0;
+                const segments = WATERFALL_PHASES.flatMap(p => {
+                    const end = hop.timings[p.key];
+                    if (end === undefined) return [];
+                    const segment = { ...p, start: previous, duration: Math.max(0, end - previous) };
+                    previous = Math.max(previous, end);
+                    return [segment];
+                });
+                return (
+                    <div key={i} className="space-y-1">
+                        <div className="flex justify-between gap-2">
+                            <span className="truncate text-zinc-300" title={hop.url}>{hop.url}</span>
+                            <span className={`shrink-0 ${!hop.status || hop.status >= 400 ? 'text-red-400' : hop.status >= 300 ? 'text-amber-400' : 'text-cyan-400'}`}>
+                                {hop.status ?? 'ERR'} · {hop.timings.total}ms
+                            </span>
+                        </div>
+                        <div className="relative h-2 rounded bg-white/5">
+                            {segments.map(seg => (
+                                <div
+                                    key={seg.key}
+                                    className="absolute top-0 h-full rounded-sm"
+                                    style={{ left: `${(seg.start / scale) * 100}%`, width: `${Math.max(0.5, (seg.duration / scale) * 100)}%`, background: seg.color }}
+                                    title={`${seg.label}: ${seg.duration}ms`}
+                                />
+                            ))}
+                        </div>
+                        <div className="text-zinc-500">
+                            {segments.map(seg => `${seg.label} ${seg.duration}ms`).join(' · ')}
+                            {hop.bodyBytes !== undefined && ` · ${hop.bodyBytes.toLocaleString()}${hop.bodyTruncated ? '+' : ''} bytes`}
+                            {hop.address && ` · ${hop.address}`}
+                        </div>
+                        {hop.error && <div className="text-red-400 break-all">{hop.error}</div>}
+                        {hop.headers && (
+                            <details>
+                                <summary className="cursor-pointer text-zinc-500 hover:text-zinc-300">Headers ({Object.keys(hop.headers).length})</summary>
+                                <div className="mt-1 space-y-0.5">
+                                    {Object.entries(hop.headers).map(([name, value]) => (
+                                        <div key={name} className="break-all"><span className="text-zinc-500">{name}:</span> {value}</div>
+                                    ))}
+                                </div>
+                            </details>
+                        )}
+                    </div>
+                );
+            })}
+        </div>
+    );
+}
+
+const PORT_STATE_CLASSES: Record<PortScanResult['state'], string> = {
+    open: 'text-cyan-400',
+    closed: 'text-zinc-500',
+    filtered: 'text-amber-400',
+};
+
+// Open ports only, unless asked for the closed and filtered ones too
+function PortScanTable({ results, running }: { results: PortScanResult[]; running: boolean }) {
+    const [showAll, setShowAll] = useState(false);
+    const open = results.filter(r => r.state === 'open');
+    const rows = (showAll ? results : open).slice().sort((a, b) => a.port - b.port);
+    return (
+        <div className="space-y-2">
+            <div className="flex justify-between gap-2 text-zinc-400">
+                <span>{running ? 'Scanning... ' : ''}{results.length} scanned, {open.length} open</span>
+                <label className="flex items-center gap-1 whitespace-nowrap">
+                    <input type="checkbox" checked={showAll} onChange={(e) => setShowAll(e.target.checked)} />
+                    All
+                </label>
+            </div>
+            <TableView
+                columns={['Port', 'State', 'Service', 'Banner']}
+                rows={rows.map(r => ({
+                    key: r.port,
+                    cells: [
+                        <span key="port" className="text-white">{r.port}</span>,
+                        <span key="state" className={PORT_STATE_CLASSES[r.state]}>{r.state}{r.latencyMs !== undefined && <span className="text-zinc-600"> {r.latencyMs}ms</span>}</span>,
+                        r.service ?? '-',
+                        <span key="banner" className="text-zinc-400">{r.banner ?? ''}</span>,
+                    ],
+                }))}
+            />
+            {rows.length === 0 && <div className="text-zinc-600">{running ? 'No open ports yet.' : 'No open ports.'}</div>}
+        </div>
+    );
+}
+
+function DnsView({ lookup }: { lookup: DnsLookupData }) {
+    if (lookup.answers.length === 1) {
+        const a = lookup.answers[0];
+        return (
+            <div className="space-y-2">
+                <KeyValueView rows={[
+                    ['Query', `${lookup.recordType} ${lookup.name}`],
+                    ['Resolver', `${a.label ? `${a.label} ` : ''}${a.resolver}`],
+                    ['Response', `${a.error ?? a.rcode} in ${a.timeMs}ms`, a.error || a.rcode !== 'NOERROR' ? 'text-red-400' : 'text-cyan-400'],
+                ]} />
+                <TableView columns={['Name', 'TTL', 'Type', 'Value']} rows={a.records.map((r, i) => ({ key: i, cells: [r.name, r.ttl, r.type, r.value] }))} />
+            </div>
+        );
+    }
+    return (
+        <div className="grid grid-cols-2 gap-2 content-start">
+            <div className={`col-span-2 ${lookup.agree ? 'text-cyan-400' : 'text-red-400'}`}>
+                {lookup.recordType} {lookup.name}: {lookup.agree ? 'All responding resolvers agree' : 'Resolvers DISAGREE'}
+            </div>
+            {lookup.answers.map(a => (
+                <div key={a.resolver} className="bg-black/40 border border-white/10 rounded p-2">
+                    <div className="flex justify-between mb-1">
+                        <span className="text-white truncate">{a.label ?? a.resolver}</span>
+                        <span className={a.error || a.rcode !== 'NOERROR' ? 'text-red-400' : 'text-cyan-400'}>{a.error ?? a.rcode}</span>
+                    </div>
+                    <div className="text-zinc-600 mb-1">{a.resolver} · {a.timeMs}ms</div>
+                    {a.records.map((r, i) => (
+                        <div key={i} className="break-all">
+                            <span className="text-zinc-500">{r.type} {r.ttl}s</span> {r.value}
+                        </div>
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+}
+
+function TraceTable({ hops }: { hops: TraceHop[] }) {
+    return (
+        <TableView
+            columns={['#', 'Address', 'RTT', 'Location']}
+            rows={[...hops].sort((a, b) => a.hop - b.hop).map(h => ({
+                key: h.hop,
+                cells: [h.hop, h.address ?? '*', h.rtts.map(r => (r == null ? '*' : `${r.toFixed(1)}`)).join(' / '), h.region ?? ''],
+            }))}
+        />
+    );
+}
+
+// The structured view of a run, or null for tools without one (the text is shown instead)
+function ResultView({ run }: { run: ToolRun }) {
+    const { tool, data, items, running } = run;
+    switch (tool) {
+        case 'ping': {
+            if (!data) return null;
+            const ping = data as PingData;
+            return <KeyValueView rows={[
+                ['Status', ping.alive ? 'ALIVE' : 'UNREACHABLE', ping.alive ? 'text-cyan-400' : 'text-red-400'],
+                ...(ping.alive ? [['Port', ping.port], ['Latency', `${ping.latencyMs}ms`]] as [string, React.ReactNode][] : []),
+            ]} />;
+        }
+        case 'nslookup':
+            return data ? <DnsView lookup={data as DnsLookupData} /> : null;
+        case 'ssl':
+            return data ? <CertificateChain report={data as CertificateReport} /> : null;
+        case 'http':
+            return data ? <HttpWaterfall probe={data as HttpProbeResult} /> : null;
+        case 'port':
+            return <PortScanTable results={(data ?? items) as PortScanResult[]} running={running} />;
+        case 'traceroute':
+            return <TraceTable hops={(data ?? items) as TraceHop[]} />;
+        default:
+            return null;
+    }
+}
+
+function FieldInput({ field, value, onChange, onSubmit }: { field: ToolField; value: string | boolean; onChange: (value: string | boolean) => void; onSubmit: () => void }) {
+    switch (field.type) {
+        case 'select':
+            return (
+                <select value={String(value)} onChange={(e) => onChange(e.target.value)} className={inputClass} title={field.help ?? field.label}>
+                    {field.options?.map(o => <option key={o} value={o} className="bg-black">{o.toUpperCase()}</option>)}
+                </select>
+            );
+        case 'checkbox':
+            return (
+                <label className="flex items-center gap-1.5 text-[10px] text-zinc-400 whitespace-nowrap" title={field.help}>
+                    <input type="checkbox" checked={Boolean(value)} onChange={(e) => onChange(e.target.checked)} />
+                    {field.label}
+                </label>
+            );
+        case 'textarea':
+        case 'headers':
+            return (
+                <textarea
+                    rows={2}
+                    value={String(value)}
+                    onChange={(e) => onChange(e.target.value)}
+                    placeholder={field.placeholder ?? field.label}
+                    className={`w-full ${inputClass}`}
+                />
+            );
+        default:
+            return (
+                <input
+                    type={field.type === 'number' ? 'number' : 'text'}
+                    value={String(value)}
+                    min={field.min}
+                    max={field.max}
+                    onChange={(e) => onChange(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && onSubmit()}
+                    placeholder={field.placeholder ?? field.label}
+                    title={field.help ?? field.label}
+                    className={`${field.type === 'number' ? 'w-24' : 'flex-1 min-w-0'} ${inputClass}`}
+                />
+            );
+    }
+}
+
+// Runs one tool at a time, streaming or not, and keeps the latest run. A new run (or
+// unmounting) aborts the previous one; traceroute hops are handed to onTrace as they arrive.
+export function useToolRunner(onTrace: (hops: TraceHop[] | null) => void) {
+    const [run, setRun] = useState<ToolRun | null>(null);
+    const abortRef = useRef<AbortController | null>(null);
+
+    // Stop a running tool and take a trace off the globe when the owner goes away
+    useEffect(() => () => {
+        abortRef.current?.abort();
+        onTrace(null);
+    }, [onTrace]);
+
+    // Body is { target, ...options } or { nodeId, ...options }; resolves once the run finished
+    const start = async (tool: ToolInfo, body: Record<string, unknown>) => {
+        abortRef.current?.abort();
+        const controller = new AbortController();
+        abortRef.current = controller;
+        setRun({ tool: tool.name, text: null, items: [], running: true });
+        onTrace(null);
+        const update = (patch: Partial<ToolRun>) => {
+            if (abortRef.current === controller) setRun(prev => (prev ? { ...prev, ...patch } : prev));
+        };
+        try {
+            const res = await fetch('/api/tools', {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ tool: tool.name, ...body }),
+                signal: controller.signal,
+            });
+            if (!res.ok) {
+                // 403 is a target refused by the tool policy, 429 the rate limit
+                const data = await res.json();
+                update({ text: `Error: ${data.error}`, running: false });
+                return;
+            }
+            if (tool.streaming) {
+                const items: unknown[] = [];
+                await readLines(res, line => {
+                    if (line.item !== undefined) {
+                        items.push(line.item);
+                        update({ items: [...items] });
+                        // Hops can arrive out of order while their locations are looked up
+                        if (tool.name === 'traceroute') onTrace([...(items as TraceHop[])].sort((a, b) => a.hop - b.hop));
+                    } else {
+                        update({ text: line.result ?? `Error: ${line.error}`, data: line.data, running: false });
+                    }
+                });
+                update({ running: false });
+                return;
+            }
+            const data = await res.json();
+            update({ text: data.result, data: data.data, running: false });
+        } catch {
+            if (!controller.signal.aborted) update({ text: "Error executing command.", running: false });
+        }
+    };
+
+    return { run, start };
+}
+
+// A run's structured view, with a toggle to the plain text and a copy button
+export function ToolOutput({ run, streaming, className }: { run: ToolRun | null; streaming?: boolean; className?: string }) {
+    const [showText, setShowText] = useState(false);
+    const view = run ? <ResultView run={run} /> : null;
+    const hasView = Boolean(run && (run.data !== undefined || run.items.length > 0 || (run.running && streaming)));
+
+    return (
+        <>
+            {run?.text && (
+                <div className="flex justify-end gap-2 mb-1 text-[10px]">
+                    {hasView && (
+                        <button onClick={() => setShowText(!showText)} className="text-zinc-500 hover:text-zinc-300">{showText ? 'Table' : 'Text'}</button>
+                    )}
+                    <button onClick={() => navigator.clipboard?.writeText(run.text ?? '')} className="text-zinc-500 hover:text-zinc-300">Copy</button>
+                </div>
+            )}
+
+            <div className={`bg-black/60 border border-white/10 rounded p-3 font-mono text-[10px] text-zinc-300 overflow-y-auto ${!hasView || showText ? 'whitespace-pre-wrap' : ''} ${className ?? ''}`}>
+                {!run ? (
+                    <span className="text-zinc-600">{"// Output will appear here..."}</span>
+                ) : hasView && !showText ? (
+                    <div className="space-y-2">
+                        {view}
+                        {run.text && !run.data && <div className="text-red-400">{run.text}</div>}
+                    </div>
+                ) : (
+                    run.text ?? <span className="text-zinc-600">Running...</span>
+                )}
+            </div>
+        </>
+    );
+}
+
+// Forms come from GET /api/tools, so a tool added to the registry shows up here by itself
+export default function ToolsPanel({ onTrace }: { onTrace: (hops: TraceHop[] | null) => void }) {
+    const [tools, setTools] = useState<ToolInfo[] | null>(null);
+    const [activeTool, setActiveTool] = useState('ping');
+    const [target, setTarget] = useState("");
+    const [values, setValues] = useState<Record<string, FormValues>>({});
+    const [error, setError] = useState<string | null>(null);
+    const { run, start } = useToolRunner(onTrace);
+
+    useEffect(() => {
+        fetch('/api/tools')
+            .then(res => (res.ok ? res.json() : Promise.reject(new Error(`Request failed (${res.status})`))))
+            .then((list: ToolInfo[]) => {
+                setTools(list);
+                setValues(Object.fromEntries(list.map(t => [t.name, initialValues(t)])));
+            })
+            .catch(e => setError(`Could not load tools: ${(e as Error).message}`));
+    }, []);
+
+    const tool = tools?.find(t => t.name === activeTool);
+    const toolValues = values[activeTool] ?? {};
+
+    const runTool = () => {
+        if (!target || !tool) return;
+        start(tool, { target, ...toOptions(tool, toolValues) });
+    };
+
+    return (
+        <div className="flex flex-col h-full">
+            <h3 className="text-sm font-bold text-white mb-4 uppercase tracking-widest border-b border-white/10 pb-2">Network Tools</h3>
+
+            {error && <div className="mb-4 text-[10px] font-mono text-red-400">{error}</div>}
+
+            <div className="grid grid-cols-3 gap-1 mb-4">
+                {(tools ?? []).map(t => (
+                    <button
+                        key={t.name}
+                        onClick={() => setActiveTool(t.name)}
+                        title={t.description}
+                        className={`py-1.5 text-[10px] font-mono border rounded uppercase ${activeTool === t.name ? 'border-cyan-500 bg-cyan-500/20 text-cyan-300' : 'border-white/10 bg-white/5 text-zinc-400'}`}
+                    >
+                        {t.label}
+                    </button>
+                ))}
+            </div>
+
+            <div className="flex gap-2 mb-2">
+                <input
+                    type="text"
+                    value={target}
+                    onChange={(e) => setTarget(e.target.value)}
+                    placeholder={tool?.targetPlaceholder ?? "Domain or IP..."}
+                    className="flex-1 min-w-0 bg-black/40 border border-white/10 rounded px-3 py-2 text-xs text-white font-mono focus:border-cyan-500/50 outline-none"
+                    onKeyDown={(e) => e.key === 'Enter' && runTool()}
+                />
+                <button
+                    onClick={runTool}
+                    disabled={!tool || Boolean(run?.running)}
+                    className="bg-cyan-600 hover:bg-cyan-500 text-white px-4 py-2 rounded text-xs font-bold disabled:opacity-50"
+                >
+                    {run?.running ? '...' : '>'}
+                </button>
+            </div>
+
+            {tool && (
+                <div className="flex flex-wrap gap-2 mb-4 items-center">
+                    {tool.fields.filter(f => fieldVisible(f, toolValues as ToolValues)).map(f => (
+                        <FieldInput
+                            key={f.name}
+                            field={f}
+                            value={toolValues[f.name] ?? ''}
+                            onChange={(value) => setValues({ ...values, [tool.name]: { ...toolValues, [f.name]: value } })}
+                            onSubmit={runTool}
+                        />
+                    ))}
+                    <div className="w-full text-[10px] text-zinc-600">{tool.description}</div>
+                </div>
+            )}
+
+            <ToolOutput run={run} streaming={tool?.streaming} className="flex-1" />
+        </div>
+    );
+}
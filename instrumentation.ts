@@ -0,0 +1,15 @@
+export async function register() {
+  // Probing needs Node sockets, so only start the scheduler in the Node.js runtime
+  if (process.env.NEXT_RUNTIME === 'nodejs') {
+    // Rate limits and audit entries need the real client address (see clientIp)
+    const { recordPeerAddresses } = await import('./utils/rateLimit');
+    recordPeerAddresses();
+
+    const { ensureScheduler } = await import('./utils/scheduler');
+    ensureScheduler();
+
+    // Print the generated admin password at startup rather than on first login
+    const { ensureAdminUser } = await import('./utils/auth');
+    await ensureAdminUser().catch(e => console.error("Could not create the initial admin user:", e));
+  }
+}
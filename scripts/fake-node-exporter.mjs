@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+// Serves node_exporter-style metrics for trying OpsGlobe's exporter scraping locally. The CPU
+// counters advance in real time at the configured load, so the dashboard shows a steady value.
+//
+//   node scripts/fake-node-exporter.mjs
+//   then set the node's node_exporter URL to http://localhost:9100/metrics
+//
+// FAKE_EXPORTER_PORT (default 9100), FAKE_CPU, FAKE_MEMORY and FAKE_DISK (percent used,
+// defaults 35, 60 and 72) and FAKE_HOSTNAME override the defaults.
+
+import http from 'http';
+
+const PORT = parseInt(process.env.FAKE_EXPORTER_PORT || '9100', 10);
+const CPU = parseFloat(process.env.FAKE_CPU || '35') / 100;
+const MEMORY = parseFloat(process.env.FAKE_MEMORY || '60') / 100;
+const DISK = parseFloat(process.env.FAKE_DISK || '72') / 100;
+const HOSTNAME = process.env.FAKE_HOSTNAME || 'fake-node';
+const CPUS = 2;
+
+const MEM_TOTAL = 8 * 1024 ** 3;
+const DISK_TOTAL = 100 * 1024 ** 3;
+const BOOT_TIME = Math.floor(Date.now() / 1000) - 3 * 86400;
+
+// Seconds each core has spent per mode so far; counters only ever go up
+const counters = Array.from({ length: CPUS }, () => ({ user: 0, system: 0, iowait: 0, idle: 1000 }));
+let lastUpdate = Date.now();
+
+// Adds the time since the last scrape, with a little noise on the busy share
+const advance = () => {
+  const elapsed = (Date.now() - lastUpdate) / 1000;
+  lastUpdate = Date.now();
+  for (const c of counters) {
+    const busy = elapsed * Math.min(1, Math.max(0, CPU + (Math.random() - 0.5) * 0.04));
+    c.user += busy * 0.7;
+    c.system += busy * 0.3;
+    c.idle += elapsed - busy;
+  }
+};
+
+const metrics = () => {
+  advance();
+  const lines = [
+    '# HELP node_cpu_seconds_total Seconds the CPUs spent in each mode.',
+    '# TYPE node_cpu_seconds_total counter',
+  ];
+  for (const [cpu, modes] of counters.entries()) {
+    for (const [mode, value] of Object.entries(modes)) {
+      lines.push(`node_cpu_seconds_total{cpu="${cpu}",mode="${mode}"} ${value.toFixed(2)}`);
+    }
+  }
+  lines.push(
+    '# TYPE node_memory_MemTotal_bytes gauge',
+    `node_memory_MemTotal_bytes ${MEM_TOTAL}`,
+    '# TYPE node_memory_MemAvailable_bytes gauge',
+    `node_memory_MemAvailable_bytes ${Math.round(MEM_TOTAL * (1 - MEMORY))}`,
+    '# TYPE node_filesystem_size_bytes gauge',
+    `node_filesystem_size_bytes{device="/dev/sda1",fstype="ext4",mountpoint="/"} ${DISK_TOTAL}`,
+    `node_filesystem_size_bytes{device="tmpfs",fstype="tmpfs",mountpoint="/run"} ${1024 ** 3}`,
+    '# TYPE node_filesystem_avail_bytes gauge',
+    `node_filesystem_avail_bytes{device="/dev/sda1",fstype="ext4",mountpoint="/"} ${Math.round(DISK_TOTAL * (1 - DISK))}`,
+    `node_filesystem_avail_bytes{device="tmpfs",fstype="tmpfs",mountpoint="/run"} ${1024 ** 3}`,
+    '# TYPE node_load1 gauge',
+    `node_load1 ${(CPU * CPUS).toFixed(2)}`,
+    '# TYPE node_boot_time_seconds gauge',
+    `node_boot_time_seconds ${BOOT_TIME}`,
+    '# TYPE node_time_seconds gauge',
+    `node_time_seconds ${(Date.now() / 1000).toFixed(3)}`,
+    '# TYPE node_uname_info gauge',
+    `node_uname_info{machine="x86_64",nodename="${HOSTNAME}",release="6.1.0",sysname="Linux"} 1`,
+  );
+  return lines.join('\n') + '\n';
+};
+
+const server = http.createServer((req, res) => {
+  if (req.url !== '/metrics') {
+    res.writeHead(404, { 'Content-Type': 'text/plain' });
+    return res.end('Not found; metrics are at /metrics\n');
+  }
+  res.writeHead(200, { 'Content-Type': 'text/plain; version=0.0.4; charset=utf-8' });
+  res.end(metrics());
+});
+
+server.listen(PORT, () => console.log(`Fake node_exporter on http://localhost:${PORT}/metrics (${HOSTNAME})`));
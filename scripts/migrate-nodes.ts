@@ -0,0 +1,45 @@
+// Copies nodes from one storage backend to another, e.g. to switch to SQLite:
+//
+//   npm run migrate:nodes                   # utils/nodes.json -> data/opsglobe.db
+//   npm run migrate:nodes -- --to json      # the reverse
+//
+// NODES_FILE and SQLITE_PATH override the default locations. Nodes that already exist in the
+// target are left alone, so the command is safe to re-run.
+
+import { createNodeRepository } from '../utils/nodeStore';
+
+const args = process.argv.slice(2);
+const option = (name: string) => {
+  const index = args.indexOf(`--${name}`);
+  return index === -1 ? undefined : args[index + 1];
+};
+
+const to = option('to') ?? 'sqlite';
+const from = option('from') ?? (to === 'sqlite' ? 'json' : 'sqlite');
+
+async function main() {
+  if (from === to) throw new Error('--from and --to must be different backends');
+
+  const source = createNodeRepository(from);
+  const target = createNodeRepository(to);
+
+  const nodes = await source.list();
+  let imported = 0;
+  let skipped = 0;
+  for (const node of nodes) {
+    if (await target.get(node.id)) {
+      skipped++;
+      continue;
+    }
+    await target.create(node);
+    imported++;
+  }
+
+  console.log(`Migrated ${imported} node(s) from ${from} to ${to}${skipped ? `, skipped ${skipped} already present` : ''}.`);
+  if (to === 'sqlite') console.log('Set NODE_STORE=sqlite to use the database.');
+}
+
+main().catch(e => {
+  console.error(`Migration failed: ${e instanceof Error ? e.message : e}`);
+  process.exit(1);
+});
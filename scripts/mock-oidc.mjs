@@ -0,0 +1,127 @@
+#!/usr/bin/env node
+// Minimal OpenID Connect provider for trying OpsGlobe's single sign-on locally. Not for production:
+// it signs in whoever fills in the form, with whatever role they pick.
+//
+//   node scripts/mock-oidc.mjs
+//   OIDC_ISSUER=http://localhost:4400 OIDC_CLIENT_ID=opsglobe OIDC_CLIENT_SECRET=opsglobe-secret npm run dev
+//
+// MOCK_OIDC_PORT, MOCK_OIDC_CLIENT_ID and MOCK_OIDC_CLIENT_SECRET override the defaults above.
+
+import http from 'http';
+import crypto from 'crypto';
+
+const PORT = parseInt(process.env.MOCK_OIDC_PORT || '4400', 10);
+const ISSUER = `http://localhost:${PORT}`;
+const CLIENT_ID = process.env.MOCK_OIDC_CLIENT_ID || 'opsglobe';
+const CLIENT_SECRET = process.env.MOCK_OIDC_CLIENT_SECRET || 'opsglobe-secret';
+
+const codes = new Map();  // code -> { claims, redirectUri, challenge }
+const access = new Map(); // access token -> claims
+
+const b64url = (value) => Buffer.from(typeof value === 'string' ? value : JSON.stringify(value)).toString('base64url');
+
+// HS256 with the client secret; OpsGlobe reads the token from the token endpoint directly
+const idToken = (claims) => {
+  const body = `${b64url({ alg: 'HS256', typ: 'JWT' })}.${b64url(claims)}`;
+  return `${body}.${crypto.createHmac('sha256', CLIENT_SECRET).update(body).digest('base64url')}`;
+};
+
+const escape = (s) => String(s).replace(/[&<>"']/g, c => `&#${c.charCodeAt(0)};`);
+
+const readBody = (req) => new Promise((resolve) => {
+  let data = '';
+  req.on('data', chunk => (data += chunk));
+  req.on('end', () => resolve(new URLSearchParams(data)));
+});
+
+const json = (res, status, body) => {
+  res.writeHead(status, { 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const loginForm = (params) => `<!doctype html>
+<title>Mock OIDC</title>
+<body style="font-family:sans-serif;background:#111;color:#eee;display:flex;justify-content:center;padding-top:10vh">
+<form method="post" action="/authorize" style="display:grid;gap:8px;width:260px">
+  <h2>Mock identity provider</h2>
+  ${[...params].map(([k, v]) => `<input type="hidden" name="${escape(k)}" value="${escape(v)}">`).join('')}
+  <label>Username <input name="username" value="alice" required></label>
+  <label>Role <select name="role"><option>viewer</option><option>operator</option><option>admin</option></select></label>
+  <button>Sign in</button>
+</form>`;
+
+const server = http.createServer(async (req, res) => {
+  const url = new URL(req.url, ISSUER);
+
+  if (url.pathname === '/.well-known/openid-configuration') {
+    return json(res, 200, {
+      issuer: ISSUER,
+      authorization_endpoint: `${ISSUER}/authorize`,
+      token_endpoint: `${ISSUER}/token`,
+      userinfo_endpoint: `${ISSUER}/userinfo`,
+      response_types_supported: ['code'],
+      code_challenge_methods_supported: ['S256'],
+    });
+  }
+
+  if (url.pathname === '/authorize' && req.method === 'GET') {
+    if (url.searchParams.get('client_id') !== CLIENT_ID) return json(res, 400, { error: 'unauthorized_client' });
+    res.writeHead(200, { 'Content-Type': 'text/html' });
+    return res.end(loginForm(url.searchParams));
+  }
+
+  if (url.pathname === '/authorize' && req.method === 'POST') {
+    const form = await readBody(req);
+    const username = form.get('username') || 'alice';
+    const code = crypto.randomBytes(16).toString('base64url');
+    codes.set(code, {
+      redirectUri: form.get('redirect_uri'),
+      challenge: form.get('code_challenge'),
+      claims: {
+        iss: ISSUER,
+        aud: CLIENT_ID,
+        sub: `mock-${username}`,
+        preferred_username: username,
+        email: `${username}@example.test`,
+        roles: [form.get('role') || 'viewer'],
+        nonce: form.get('nonce'),
+      },
+    });
+    const redirect = new URL(form.get('redirect_uri'));
+    redirect.searchParams.set('code', code);
+    redirect.searchParams.set('state', form.get('state') ?? '');
+    res.writeHead(302, { Location: redirect.toString() });
+    return res.end();
+  }
+
+  if (url.pathname === '/token' && req.method === 'POST') {
+    const form = await readBody(req);
+    const grant = codes.get(form.get('code'));
+    codes.delete(form.get('code'));
+    if (form.get('client_id') !== CLIENT_ID || form.get('client_secret') !== CLIENT_SECRET) return json(res, 401, { error: 'invalid_client' });
+    if (!grant || grant.redirectUri !== form.get('redirect_uri')) return json(res, 400, { error: 'invalid_grant' });
+    const challenge = crypto.createHash('sha256').update(form.get('code_verifier') ?? '').digest('base64url');
+    if (challenge !== grant.challenge) return json(res, 400, { error: 'invalid_grant', error_description: 'PKCE verification failed' });
+
+    const now = Math.floor(Date.now() / 1000);
+    const token = crypto.randomBytes(16).toString('base64url');
+    access.set(token, grant.claims);
+    return json(res, 200, {
+      access_token: token,
+      token_type: 'Bearer',
+      expires_in: 300,
+      id_token: idToken({ ...grant.claims, iat: now, exp: now + 300 }),
+    });
+  }
+
+  if (url.pathname === '/userinfo') {
+    const claims = access.get(req.headers.authorization?.replace(/^Bearer\s+/i, ''));
+    if (!claims) return json(res, 401, { error: 'invalid_token' });
+    const { sub, preferred_username, email, roles } = claims;
+    return json(res, 200, { sub, preferred_username, email, roles });
+  }
+
+  json(res, 404, { error: 'not_found' });
+});
+
+server.listen(PORT, () => console.log(`Mock OIDC provider on ${ISSUER} (client ${CLIENT_ID} / ${CLIENT_SECRET})`));
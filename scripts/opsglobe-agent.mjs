@@ -0,0 +1,98 @@
+#!/usr/bin/env node
+// OpsGlobe agent: reports this machine's CPU, memory and top processes to an OpsGlobe server.
+// No dependencies beyond Node 18+. Generate a token from the node's "Agent" button, then run:
+//
+//   OPSGLOBE_URL=https://opsglobe.example.com OPSGLOBE_TOKEN=oga_... node opsglobe-agent.mjs
+//
+// OPSGLOBE_INTERVAL_SEC (default 15) sets how often it reports.
+
+import os from 'os';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+
+const execFileAsync = promisify(execFile);
+
+const SERVER = (process.env.OPSGLOBE_URL || 'http://localhost:3000').replace(/\/+$/, '');
+const TOKEN = process.env.OPSGLOBE_TOKEN;
+const INTERVAL_MS = Math.max(5, parseInt(process.env.OPSGLOBE_INTERVAL_SEC || '15', 10)) * 1000;
+
+if (!TOKEN) {
+  console.error('OPSGLOBE_TOKEN is required');
+  process.exit(1);
+}
+
+const cpuTimes = () => os.cpus().reduce(
+  (acc, cpu) => {
+    const { idle, ...busy } = cpu.times;
+    acc.idle += idle;
+    acc.total += idle + Object.values(busy).reduce((a, b) => a + b, 0);
+    return acc;
+  },
+  { idle: 0, total: 0 }
+);
+
+// CPU usage since the previous report, from the kernel's per-core time counters
+let lastTimes = cpuTimes();
+const cpuPercent = () => {
+  const now = cpuTimes();
+  const total = now.total - lastTimes.total;
+  const idle = now.idle - lastTimes.idle;
+  lastTimes = now;
+  return total > 0 ? Math.min(100, Math.max(0, (1 - idle / total) * 100)) : 0;
+};
+
+// Same output as the HQ's /api/status: top 3 processes by CPU, normalised by core count
+const topProcesses = async () => {
+  if (process.platform === 'win32') return [];
+  try {
+    const { stdout } = await execFileAsync('ps', ['-eo', 'pcpu,pmem,comm', '--sort=-%cpu']);
+    const cores = os.cpus().length || 1;
+    return stdout.trim().split('\n').slice(1, 10)
+      .map(line => {
+        const parts = line.trim().split(/\s+/);
+        return {
+          cpu: ((parseFloat(parts[0]) || 0) / cores).toFixed(1),
+          mem: parts[1],
+          name: parts.slice(2).join(' '),
+        };
+      })
+      .filter(p => p.name !== 'ps')
+      .slice(0, 3);
+  } catch {
+    return []; // e.g. BusyBox ps without --sort
+  }
+};
+
+const collect = async () => ({
+  cpu: Math.round(cpuPercent()),
+  memory: Math.round(((os.totalmem() - os.freemem()) / os.totalmem()) * 100),
+  hostname: os.hostname(),
+  platform: os.platform(),
+  uptime: os.uptime(),
+  processes: await topProcesses(),
+});
+
+const report = async () => {
+  try {
+    const res = await fetch(`${SERVER}/api/agents/report`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${TOKEN}` },
+      body: JSON.stringify(await collect()),
+      signal: AbortSignal.timeout(10000),
+    });
+    if (res.status === 401) {
+      console.error('Token rejected by server; was it regenerated or revoked?');
+    } else if (!res.ok) {
+      console.error(`Report failed: HTTP ${res.status} ${await res.text()}`);
+    }
+  } catch (e) {
+    console.error(`Report failed: ${e instanceof Error ? e.message : e}`);
+  }
+};
+
+console.log(`Reporting to ${SERVER} every ${INTERVAL_MS / 1000}s`);
+// Let the first CPU sample cover a real interval rather than the time since boot
+setTimeout(() => {
+  void report();
+  setInterval(() => void report(), INTERVAL_MS);
+}, 1000);
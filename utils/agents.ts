@@ -0,0 +1,93 @@
+import crypto from 'crypto';
+import type { ProcessInfo } from './hostStatus';
+
+// Same shape /api/status returns for the HQ machine, minus the fixed HQ location
+export type AgentReport = {
+  cpu: number;
+  memory: number;
+  hostname: string;
+  platform?: string;
+  uptime: number;
+  processes: ProcessInfo[];
+  reportedAt: string; // ISO timestamp, set by the server on receipt
+};
+
+// An agent reports every 15s by default; after a minute of silence its metrics are dropped
+const AGENT_STALE_MS = parseInt(process.env.AGENT_STALE_SEC || '60', 10) * 1000;
+const MAX_PROCESSES = 20;
+
+type AgentState = {
+  reports: Map<string, AgentReport>;
+};
+
+const globalForAgents = globalThis as unknown as { __opsglobeAgents?: AgentState };
+
+const state: AgentState = globalForAgents.__opsglobeAgents ??= {
+  reports: new Map(),
+};
+
+// Tokens are only shown once; nodes store the SHA-256 so a leaked nodes.json can't be replayed
+export function generateAgentToken(): { token: string; hash: string } {
+  const token = `oga_${crypto.randomBytes(32).toString('base64url')}`;
+  return { token, hash: hashAgentToken(token) };
+}
+
+export function hashAgentToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+export function bearerToken(req: Request): string | null {
+  const match = req.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : null;
+}
+
+const percent = (v: unknown) => typeof v === 'number' && Number.isFinite(v) && v >= 0 && v <= 100;
+
+// Validates a report body. Returns an error message or the cleaned report.
+export function validateAgentReport(input: Record<string, unknown>): { error: string } | { report: Omit<AgentReport, 'reportedAt'> } {
+  if (!percent(input.cpu)) return { error: 'cpu must be a percentage between 0 and 100' };
+  if (!percent(input.memory)) return { error: 'memory must be a percentage between 0 and 100' };
+  if (typeof input.hostname !== 'string' || !input.hostname.trim()) return { error: 'hostname is required' };
+  if (typeof input.uptime !== 'number' || !Number.isFinite(input.uptime) || input.uptime < 0) {
+    return { error: 'uptime must be a non-negative number of seconds' };
+  }
+  if (input.platform !== undefined && typeof input.platform !== 'string') return { error: 'platform must be a string' };
+
+  const processes = input.processes ?? [];
+  if (!Array.isArray(processes)) return { error: 'processes must be an array' };
+  const cleaned: ProcessInfo[] = [];
+  for (const p of processes.slice(0, MAX_PROCESSES)) {
+    if (!p || typeof p !== 'object' || typeof (p as ProcessInfo).name !== 'string') {
+      return { error: 'Each process needs a name' };
+    }
+    const { cpu, mem, name } = p as Record<string, unknown>;
+    cleaned.push({ cpu: String(cpu ?? '0'), mem: String(mem ?? '0'), name: String(name) });
+  }
+
+  return {
+    report: {
+      cpu: Math.round(input.cpu as number),
+      memory: Math.round(input.memory as number),
+      hostname: input.hostname.trim(),
+      platform: input.platform as string | undefined,
+      uptime: input.uptime,
+      processes: cleaned,
+    },
+  };
+}
+
+export function recordAgentReport(nodeId: string, report: Omit<AgentReport, 'reportedAt'>) {
+  state.reports.set(nodeId, { ...report, reportedAt: new Date().toISOString() });
+}
+
+// The latest report, or null if the node has no agent or it stopped reporting
+export function getAgentReport(nodeId: string): AgentReport | null {
+  const report = state.reports.get(nodeId);
+  if (!report) return null;
+  if (Date.now() - Date.parse(report.reportedAt) > AGENT_STALE_MS) return null;
+  return report;
+}
+
+export function forgetAgent(nodeId: string) {
+  state.reports.delete(nodeId);
+}
@@ -0,0 +1,177 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { SmtpConfig } from './smtp';
+
+export const ALERTS_FILE = path.join(process.cwd(), 'data', 'alerts.json');
+
+export type AlertRuleKind = 'node_offline' | 'latency' | 'ssl_expiry' | 'hq_cpu' | 'hq_memory';
+
+export const ALERT_RULE_KINDS: AlertRuleKind[] = ['node_offline', 'latency', 'ssl_expiry', 'hq_cpu', 'hq_memory'];
+
+export type AlertRule = {
+  id: string;
+  name: string;
+  kind: AlertRuleKind;
+  enabled: boolean;
+  nodeId?: string;      // node rules only; omitted means every custom node
+  threshold: number;    // failed checks, ms, days or percent depending on kind
+  channelIds: string[];
+};
+
+export type WebhookChannel = {
+  id: string;
+  name: string;
+  type: 'webhook';
+  url: string;
+};
+
+export type EmailChannel = {
+  id: string;
+  name: string;
+  type: 'email';
+  smtp: SmtpConfig;
+  from: string;
+  to: string[];
+};
+
+export type AlertChannel = WebhookChannel | EmailChannel;
+
+type ChannelFields = Omit<WebhookChannel, 'id'> | Omit<EmailChannel, 'id'>;
+
+export type AlertConfig = {
+  rules: AlertRule[];
+  channels: AlertChannel[];
+};
+
+export async function readAlertConfig(): Promise<AlertConfig> {
+  try {
+    const data = await fs.readFile(ALERTS_FILE, 'utf-8');
+    return { rules: [], channels: [], ...JSON.parse(data) };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return { rules: [], channels: [] };
+    throw e;
+  }
+}
+
+const writeAlertConfig = async (config: AlertConfig) => {
+  await fs.mkdir(path.dirname(ALERTS_FILE), { recursive: true });
+  const tmp = `${ALERTS_FILE}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(config, null, 2));
+  await fs.rename(tmp, ALERTS_FILE);
+};
+
+const globalForAlertConfig = globalThis as unknown as { __opsglobeAlertConfigQueue?: Promise<unknown> };
+
+// Read-modify-write under a per-process queue, so two admins editing rules or channels
+// at once don't drop each other's changes
+export function updateAlertConfig<T>(fn: (config: AlertConfig) => T | Promise<T>): Promise<T> {
+  const run = (globalForAlertConfig.__opsglobeAlertConfigQueue ?? Promise.resolve()).then(async () => {
+    const config = await readAlertConfig();
+    const result = await fn(config);
+    await writeAlertConfig(config);
+    return result;
+  });
+  globalForAlertConfig.__opsglobeAlertConfigQueue = run.catch(() => {});
+  return run;
+}
+
+// Hides SMTP passwords before channels are sent to the browser
+export function maskChannel(channel: AlertChannel): AlertChannel {
+  if (channel.type !== 'email' || !channel.smtp.pass) return channel;
+  return { ...channel, smtp: { ...channel.smtp, pass: '********' } };
+}
+
+const isNonEmptyString = (v: unknown): v is string => typeof v === 'string' && v.trim().length > 0;
+
+// Validates a rule body. With `existing`, fields may be omitted and are kept from it.
+export function validateRule(input: Record<string, unknown>, existing?: AlertRule): { error: string } | { rule: Omit<AlertRule, 'id'> } {
+  const merged = { ...existing, ...input };
+
+  if (!isNonEmptyString(merged.name)) return { error: 'Rule name is required' };
+  if (!ALERT_RULE_KINDS.includes(merged.kind as AlertRuleKind)) {
+    return { error: `Rule kind must be one of: ${ALERT_RULE_KINDS.join(', ')}` };
+  }
+  const kind = merged.kind as AlertRuleKind;
+
+  const threshold = Number(merged.threshold);
+  if (!Number.isFinite(threshold) || threshold <= 0) return { error: 'Threshold must be a positive number' };
+  if ((kind === 'hq_cpu' || kind === 'hq_memory') && threshold > 100) return { error: 'Percentage thresholds must be at most 100' };
+  if (kind === 'node_offline' && !Number.isInteger(threshold)) return { error: 'Offline threshold must be a whole number of checks' };
+
+  if (merged.nodeId !== undefined && merged.nodeId !== null && merged.nodeId !== '' && typeof merged.nodeId !== 'string') {
+    return { error: 'nodeId must be a string' };
+  }
+  const nodeId = kind.startsWith('hq_') || !merged.nodeId ? undefined : merged.nodeId as string;
+
+  const channelIds = merged.channelIds ?? [];
+  if (!Array.isArray(channelIds) || !channelIds.every(c => typeof c === 'string')) {
+    return { error: 'channelIds must be an array of channel ids' };
+  }
+
+  return {
+    rule: {
+      name: (merged.name as string).trim(),
+      kind,
+      enabled: merged.enabled === undefined ? true : Boolean(merged.enabled),
+      nodeId,
+      threshold,
+      channelIds,
+    },
+  };
+}
+
+const EMAIL_RE = /^[^\s@<>]+@[^\s@<>]+$/;
+
+// Validates a channel body. With `existing`, omitted fields (and a masked password) are kept.
+export function validateChannel(input: Record<string, unknown>, existing?: AlertChannel): { error: string } | { channel: ChannelFields } {
+  const merged = { ...existing, ...input } as Record<string, unknown>;
+
+  if (!isNonEmptyString(merged.name)) return { error: 'Channel name is required' };
+  const name = merged.name.trim();
+
+  if (merged.type === 'webhook') {
+    if (!isNonEmptyString(merged.url)) return { error: 'Webhook URL is required' };
+    try {
+      const url = new URL(merged.url);
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error();
+    } catch {
+      return { error: 'Webhook URL must be an http(s) URL' };
+    }
+    return { channel: { name, type: 'webhook', url: merged.url.trim() } };
+  }
+
+  if (merged.type === 'email') {
+    const smtp = (merged.smtp ?? {}) as Record<string, unknown>;
+    if (!isNonEmptyString(smtp.host)) return { error: 'SMTP host is required' };
+    const port = Number(smtp.port ?? 25);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) return { error: 'SMTP port must be between 1 and 65535' };
+
+    const to = typeof merged.to === 'string' ? merged.to.split(',').map(s => s.trim()).filter(Boolean) : merged.to;
+    if (!Array.isArray(to) || to.length === 0 || !to.every(addr => typeof addr === 'string' && EMAIL_RE.test(addr))) {
+      return { error: 'At least one valid recipient address is required' };
+    }
+    if (!isNonEmptyString(merged.from) || !EMAIL_RE.test(merged.from)) return { error: 'A valid sender address is required' };
+
+    const previousPass = existing?.type === 'email' ? existing.smtp.pass : undefined;
+    const pass = smtp.pass === '********' ? previousPass : (smtp.pass as string | undefined) || undefined;
+
+    return {
+      channel: {
+        name,
+        type: 'email',
+        smtp: {
+          host: smtp.host.trim(),
+          port,
+          secure: Boolean(smtp.secure),
+          user: (smtp.user as string | undefined) || undefined,
+          pass,
+        },
+        from: merged.from.trim(),
+        to,
+      },
+    };
+  }
+
+  return { error: 'Channel type must be webhook or email' };
+}
@@ -0,0 +1,168 @@
+import { readAlertConfig, AlertRule, AlertChannel } from './alertStore';
+import { notify, AlertNotification } from './notifiers';
+import { nodeCertificate } from './certInventory';
+import { getHostStatus } from './hostStatus';
+import type { NodeRecord } from './nodeStore';
+import type { ProbeResult } from './scheduler';
+
+export type NodeSnapshot = {
+  node: NodeRecord;
+  probe?: ProbeResult;
+  failures: number;
+};
+
+export type ActiveAlert = {
+  ruleId: string;
+  rule: string;
+  subjectId: string;
+  subject: string;
+  message: string;
+  value: number;
+  since: string;
+};
+
+type Violation = { subjectId: string; subject: string; message: string; value: number };
+
+type AlertState = {
+  firing: Map<string, ActiveAlert>;  // keyed by `${ruleId}:${subjectId}`
+  evaluating: boolean;
+};
+
+const globalForAlerts = globalThis as unknown as { __opsglobeAlerts?: AlertState };
+
+const state: AlertState = globalForAlerts.__opsglobeAlerts ??= {
+  firing: new Map(),
+  evaluating: false,
+};
+
+// Served from the certificate inventory so a cert rule doesn't open a TLS connection to
+// every node on every evaluation
+const certDays = async (node: NodeRecord): Promise<number | null> =>
+  (await nodeCertificate(node)).report?.chain[0]?.daysRemaining ?? null;
+
+const nodesFor = (rule: AlertRule, nodes: NodeSnapshot[]) =>
+  rule.nodeId ? nodes.filter(n => n.node.id === rule.nodeId) : nodes;
+
+const findViolations = async (rule: AlertRule, nodes: NodeSnapshot[]): Promise<Violation[]> => {
+  switch (rule.kind) {
+    case 'node_offline':
+      return nodesFor(rule, nodes)
+        .filter(n => n.failures >= rule.threshold)
+        .map(n => ({
+          subjectId: n.node.id,
+          subject: n.node.name,
+          message: `failed ${n.failures} consecutive checks${n.probe?.error ? ` (${n.probe.error})` : ''}`,
+          value: n.failures,
+        }));
+    case 'latency':
+      return nodesFor(rule, nodes)
+        .filter(n => n.probe?.latency != null && n.probe.latency > rule.threshold)
+        .map(n => ({
+          subjectId: n.node.id,
+          subject: n.node.name,
+          message: `latency ${n.probe!.latency}ms exceeds ${rule.threshold}ms`,
+          value: n.probe!.latency!,
+        }));
+    case 'ssl_expiry': {
+      // Without a specific node, only nodes that are checked over TLS are expected to have certs
+      const candidates = rule.nodeId
+        ? nodesFor(rule, nodes)
+        : nodes.filter(n => n.node.check?.type === 'https' || n.node.check?.type === 'tls');
+      const violations: Violation[] = [];
+      for (const n of candidates) {
+        const days = await certDays(n.node);
+        if (days != null && days <= rule.threshold) {
+          violations.push({
+            subjectId: n.node.id,
+            subject: n.node.name,
+            message: days < 0 ? `certificate expired ${-days} days ago` : `certificate expires in ${days} days`,
+            value: days,
+          });
+        }
+      }
+      return violations;
+    }
+    case 'hq_cpu':
+    case 'hq_memory': {
+      const host = await getHostStatus({ processes: false });
+      const metric = rule.kind === 'hq_cpu' ? 'cpu' : 'memory';
+      const value = host[metric];
+      if (value <= rule.threshold) return [];
+      return [{
+        subjectId: 'local-hq',
+        subject: `${host.hostname} (HQ)`,
+        message: `${metric === 'cpu' ? 'CPU' : 'memory'} at ${value}% exceeds ${rule.threshold}%`,
+        value,
+      }];
+    }
+  }
+};
+
+const dispatch = async (rule: AlertRule, channels: AlertChannel[], n: AlertNotification) => {
+  for (const id of rule.channelIds) {
+    const channel = channels.find(c => c.id === id);
+    if (!channel) continue;
+    try {
+      await notify(channel, n);
+    } catch (e) {
+      console.error(`Alert delivery to channel "${channel.name}" failed:`, e);
+    }
+  }
+};
+
+// Evaluates every enabled rule and notifies only on transitions (firing -> resolved and back),
+// so a node that stays down produces one notification rather than one per evaluation.
+export async function evaluateAlerts(nodes: NodeSnapshot[]): Promise<void> {
+  if (state.evaluating) return;
+  state.evaluating = true;
+
+  try {
+    const { rules, channels } = await readAlertConfig();
+    const enabled = rules.filter(r => r.enabled);
+    const enabledIds = new Set(enabled.map(r => r.id));
+
+    // Rules that were deleted or disabled stop tracking silently
+    for (const [key, alert] of state.firing) {
+      if (!enabledIds.has(alert.ruleId)) state.firing.delete(key);
+    }
+
+    for (const rule of enabled) {
+      let violations: Violation[];
+      try {
+        violations = await findViolations(rule, nodes);
+      } catch (e) {
+        console.error(`Alert rule "${rule.name}" could not be evaluated:`, e);
+        continue;
+      }
+
+      const now = new Date().toISOString();
+      const current = new Set<string>();
+
+      for (const v of violations) {
+        const key = `${rule.id}:${v.subjectId}`;
+        current.add(key);
+        const existing = state.firing.get(key);
+        if (existing) {
+          state.firing.set(key, { ...existing, message: v.message, value: v.value });
+          continue;
+        }
+        state.firing.set(key, { ruleId: rule.id, rule: rule.name, ...v, since: now });
+        await dispatch(rule, channels, { state: 'firing', rule: rule.name, subject: v.subject, message: v.message, value: v.value, at: now });
+      }
+
+      for (const [key, alert] of state.firing) {
+        if (alert.ruleId !== rule.id || current.has(key)) continue;
+        state.firing.delete(key);
+        await dispatch(rule, channels, { state: 'resolved', rule: rule.name, subject: alert.subject, message: `resolved after ${alert.message}`, at: now });
+      }
+    }
+  } catch (e) {
+    console.error("Alert evaluation failed:", e);
+  } finally {
+    state.evaluating = false;
+  }
+}
+
+export function getActiveAlerts(): ActiveAlert[] {
+  return [...state.firing.values()].sort((a, b) => a.since.localeCompare(b.since));
+}
@@ -0,0 +1,67 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { Principal } from './auth';
+
+export const AUDIT_FILE = path.join(process.cwd(), 'data', 'audit.log');
+
+export type AuditOutcome = 'ok' | 'denied' | 'rate_limited' | 'error';
+
+export type AuditEntry = {
+  t: string;          // ISO timestamp
+  user: string;
+  role: string;
+  ip: string;
+  action: string;     // tool name, or e.g. "policy.update"
+  target?: string;
+  address?: string;   // the resolved address that was actually contacted
+  outcome: AuditOutcome;
+  detail?: string;    // result or denial reason, truncated
+};
+
+const MAX_DETAIL = 500;
+
+// One JSON object per line, only ever appended to. Failures are logged, never thrown, so an
+// unwritable log doesn't take the tools down with it.
+export async function recordAudit(principal: Principal | null, ip: string, entry: Omit<AuditEntry, 't' | 'user' | 'role' | 'ip'>) {
+  const line: AuditEntry = {
+    t: new Date().toISOString(),
+    user: principal?.username ?? 'anonymous',
+    role: principal?.role ?? 'none',
+    ip,
+    ...entry,
+    detail: entry.detail && entry.detail.length > MAX_DETAIL ? `${entry.detail.slice(0, MAX_DETAIL)}…` : entry.detail,
+  };
+  try {
+    await fs.mkdir(path.dirname(AUDIT_FILE), { recursive: true });
+    await fs.appendFile(AUDIT_FILE, `${JSON.stringify(line)}\n`, { flag: 'a' });
+  } catch (e) {
+    console.error("Could not write audit log:", e);
+  }
+}
+
+// Newest first, optionally filtered by user, action or outcome
+export async function readAudit({ limit = 200, user, action, outcome }: { limit?: number; user?: string; action?: string; outcome?: string } = {}): Promise<AuditEntry[]> {
+  let data: string;
+  try {
+    data = await fs.readFile(AUDIT_FILE, 'utf-8');
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+    throw e;
+  }
+
+  const entries: AuditEntry[] = [];
+  const lines = data.split('\n');
+  for (let i = lines.length - 1; i >= 0 && entries.length < limit; i--) {
+    if (!lines[i]) continue;
+    try {
+      const entry: AuditEntry = JSON.parse(lines[i]);
+      if (user && entry.user !== user) continue;
+      if (action && entry.action !== action) continue;
+      if (outcome && entry.outcome !== outcome) continue;
+      entries.push(entry);
+    } catch {
+      // a torn final line from a crash; skip it
+    }
+  }
+  return entries;
+}
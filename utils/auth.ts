@@ -0,0 +1,138 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import { NextResponse } from 'next/server';
+import { Role, hasRole } from './roles';
+import { readAuthStore, updateAuthStore, hashPassword, User } from './userStore';
+
+export const SESSION_COOKIE = 'opsglobe_session';
+export const SESSION_TTL_SEC = 12 * 60 * 60;
+export const API_TOKEN_PREFIX = 'opsg_';
+
+const SECRET_FILE = path.join(process.cwd(), 'data', 'session.key');
+const TOKEN_TOUCH_MS = 60 * 1000; // lastUsedAt is only rewritten once a minute per token
+
+export type Principal = {
+  id: string;        // user id, or token id for API tokens
+  username: string;
+  role: Role;
+  via: 'session' | 'token';
+};
+
+let secret: Promise<Buffer> | null = null;
+
+// AUTH_SECRET wins; otherwise a random key is generated once and kept in data/, so sessions
+// survive restarts without any setup
+const sessionSecret = () => secret ??= (async () => {
+  if (process.env.AUTH_SECRET) return Buffer.from(process.env.AUTH_SECRET);
+  try {
+    return await fs.readFile(SECRET_FILE);
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code !== 'ENOENT') throw e;
+    const key = crypto.randomBytes(32);
+    await fs.mkdir(path.dirname(SECRET_FILE), { recursive: true });
+    try {
+      await fs.writeFile(SECRET_FILE, key, { mode: 0o600, flag: 'wx' });
+    } catch {
+      // another process created it first; use theirs
+    }
+    return fs.readFile(SECRET_FILE);
+  }
+})();
+
+const sign = async (payload: string) =>
+  crypto.createHmac('sha256', await sessionSecret()).update(payload).digest('base64url');
+
+// Signed, expiring value: base64url(JSON).signature
+export async function signValue(data: object, ttlSec: number): Promise<string> {
+  const payload = Buffer.from(JSON.stringify({ ...data, exp: Math.floor(Date.now() / 1000) + ttlSec })).toString('base64url');
+  return `${payload}.${await sign(payload)}`;
+}
+
+export async function verifyValue<T>(value: string | undefined): Promise<T | null> {
+  if (!value) return null;
+  const [payload, signature] = value.split('.');
+  if (!payload || !signature) return null;
+  const expected = Buffer.from(await sign(payload));
+  const actual = Buffer.from(signature);
+  if (actual.length !== expected.length || !crypto.timingSafeEqual(actual, expected)) return null;
+  try {
+    const data = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    return data.exp > Date.now() / 1000 ? data : null;
+  } catch {
+    return null;
+  }
+}
+
+export const createSession = (user: User) => signValue({ uid: user.id }, SESSION_TTL_SEC);
+
+export function cookieOptions(req: Request, maxAge: number) {
+  const secure = new URL(req.url).protocol === 'https:' || req.headers.get('x-forwarded-proto') === 'https';
+  return { httpOnly: true, sameSite: 'lax' as const, secure, path: '/', maxAge };
+}
+
+const readCookie = (req: Request, name: string) => {
+  const match = req.headers.get('cookie')?.split(/;\s*/).find(c => c.startsWith(`${name}=`));
+  return match ? decodeURIComponent(match.slice(name.length + 1)) : undefined;
+};
+
+// Users are looked up on every request, so deleting a user or changing a role applies at once
+export async function principalFromSession(cookie: string | undefined): Promise<Principal | null> {
+  const session = await verifyValue<{ uid: string }>(cookie);
+  if (!session) return null;
+  const user = (await readAuthStore()).users.find(u => u.id === session.uid);
+  return user ? { id: user.id, username: user.username, role: user.role, via: 'session' } : null;
+}
+
+const principalFromToken = async (token: string): Promise<Principal | null> => {
+  const hash = crypto.createHash('sha256').update(token).digest('hex');
+  const found = (await readAuthStore()).tokens.find(t => t.hash === hash);
+  if (!found) return null;
+
+  if (!found.lastUsedAt || Date.now() - Date.parse(found.lastUsedAt) > TOKEN_TOUCH_MS) {
+    void updateAuthStore(store => {
+      const t = store.tokens.find(t => t.id === found.id);
+      if (t) t.lastUsedAt = new Date().toISOString();
+    }).catch(e => console.error("Could not record token use:", e));
+  }
+  return { id: found.id, username: `token:${found.name}`, role: found.role, via: 'token' };
+};
+
+export async function authenticate(req: Request): Promise<Principal | null> {
+  const bearer = req.headers.get('authorization')?.match(/^Bearer\s+(\S+)$/i)?.[1];
+  if (bearer?.startsWith(API_TOKEN_PREFIX)) return principalFromToken(bearer);
+  return principalFromSession(readCookie(req, SESSION_COOKIE));
+}
+
+// For route handlers: `const auth = await requireRole(req, 'admin'); if ('response' in auth) return auth.response;`
+export async function requireRole(req: Request, role: Role): Promise<{ principal: Principal } | { response: NextResponse }> {
+  const principal = await authenticate(req);
+  if (!principal) {
+    return { response: NextResponse.json({ error: 'Authentication required' }, { status: 401 }) };
+  }
+  if (!hasRole(principal.role, role)) {
+    return { response: NextResponse.json({ error: `This action requires the ${role} role` }, { status: 403 }) };
+  }
+  return { principal };
+}
+
+// Creates the first admin when there are no users yet. OPSGLOBE_ADMIN_PASSWORD sets its
+// password; without it a random one is generated and printed once to the server log.
+export async function ensureAdminUser() {
+  if ((await readAuthStore()).users.length > 0) return;
+  await updateAuthStore(async store => {
+    if (store.users.length > 0) return;
+    const username = process.env.OPSGLOBE_ADMIN_USER || 'admin';
+    const password = process.env.OPSGLOBE_ADMIN_PASSWORD || crypto.randomBytes(12).toString('base64url');
+    store.users.push({
+      id: `user_${crypto.randomBytes(6).toString('hex')}`,
+      username,
+      role: 'admin',
+      passwordHash: await hashPassword(password),
+      createdAt: new Date().toISOString(),
+    });
+    if (!process.env.OPSGLOBE_ADMIN_PASSWORD) {
+      console.warn(`\n  Created initial admin user "${username}" with password: ${password}\n  Change it after signing in.\n`);
+    }
+  });
+}
@@ -0,0 +1,83 @@
+import { inspectCertificate, CertificateReport } from './certs';
+import type { NodeRecord } from './nodeStore';
+
+export type CertInventoryEntry = {
+  nodeId: string;
+  name: string;
+  address: string;
+  port: number;
+  checkedAt: string; // ISO timestamp
+  report?: CertificateReport;
+  error?: string;    // the node didn't complete a TLS handshake
+};
+
+const REFRESH_MS = parseFloat(process.env.CERT_CHECK_INTERVAL_HOURS || '6') * 60 * 60 * 1000;
+const RETRY_MS = 15 * 60 * 1000; // failed handshakes are retried sooner
+const CONCURRENCY = 4;
+
+type InventoryState = {
+  entries: Map<string, CertInventoryEntry>; // keyed by node id
+  sweeping: boolean;
+};
+
+const globalForCerts = globalThis as unknown as { __opsglobeCerts?: InventoryState };
+
+const state: InventoryState = globalForCerts.__opsglobeCerts ??= {
+  entries: new Map(),
+  sweeping: false,
+};
+
+// The port the node's TLS check uses, or 443 for nodes that aren't checked over TLS
+export const tlsPort = (node: NodeRecord) =>
+  node.check?.type === 'https' || node.check?.type === 'tls' ? node.check.port ?? 443 : 443;
+
+const isFresh = (entry: CertInventoryEntry | undefined, node: NodeRecord): entry is CertInventoryEntry =>
+  Boolean(entry)
+  && entry!.address === node.ip
+  && entry!.port === tlsPort(node)
+  && Date.now() - new Date(entry!.checkedAt).getTime() < (entry!.error ? RETRY_MS : REFRESH_MS);
+
+// The node's certificate, from the inventory when it was checked recently enough
+export async function nodeCertificate(node: NodeRecord, { force = false } = {}): Promise<CertInventoryEntry> {
+  const cached = state.entries.get(node.id);
+  if (!force && isFresh(cached, node)) return cached;
+
+  const port = tlsPort(node);
+  const entry: CertInventoryEntry = { nodeId: node.id, name: node.name, address: node.ip, port, checkedAt: new Date().toISOString() };
+  try {
+    entry.report = await inspectCertificate(node.ip, node.ip, port);
+  } catch (e) {
+    entry.error = e instanceof Error ? e.message : String(e);
+  }
+  state.entries.set(node.id, entry);
+  return entry;
+}
+
+// Checks every node whose entry is stale (or all of them with `force`) and forgets deleted
+// nodes. Called from the scheduler; a sweep still running makes later calls no-ops.
+export async function sweepCertificates(nodes: NodeRecord[], { force = false } = {}) {
+  if (state.sweeping) return;
+  state.sweeping = true;
+  try {
+    const ids = new Set(nodes.map(n => n.id));
+    for (const id of state.entries.keys()) {
+      if (!ids.has(id)) state.entries.delete(id);
+    }
+
+    const queue = nodes.filter(node => force || !isFresh(state.entries.get(node.id), node));
+    const worker = async () => {
+      for (let node = queue.shift(); node; node = queue.shift()) await nodeCertificate(node, { force });
+    };
+    await Promise.all(Array.from({ length: CONCURRENCY }, worker));
+  } finally {
+    state.sweeping = false;
+  }
+}
+
+// Every checked node, soonest expiry first; nodes without a certificate come last
+export function certificateInventory(): CertInventoryEntry[] {
+  const days = (entry: CertInventoryEntry) => entry.report?.chain[0]?.daysRemaining ?? Infinity;
+  return [...state.entries.values()].sort((a, b) => days(a) - days(b) || a.name.localeCompare(b.name));
+}
+
+export const isSweeping = () => state.sweeping;
@@ -0,0 +1,207 @@
+import crypto from 'crypto';
+import net from 'net';
+import tls from 'tls';
+
+export type CertificateDetails = {
+  subject: string;      // full distinguished name, e.g. "CN=example.com, O=Example"
+  commonName: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: string;    // ISO timestamp
+  validTo: string;      // ISO timestamp
+  daysRemaining: number;
+  altNames: string[];   // DNS names and IP addresses from the SAN extension
+  keyType: string;      // e.g. "RSA 2048" or "EC prime256v1"
+  signatureAlgorithm: string;
+  fingerprint256: string;
+  selfSigned: boolean;
+};
+
+export type CertificateReport = {
+  host: string;          // the name the certificate is checked against
+  address: string;       // the address that was contacted
+  port: number;
+  protocol: string | null; // negotiated TLS version, e.g. "TLSv1.3"
+  cipher: string | null;
+  chain: CertificateDetails[]; // leaf first, as far as the server sent it
+  trusted: boolean;      // chain verifies against the system CA store
+  trustError?: string;
+  hostnameMatch: boolean;
+  hostnameError?: string;
+};
+
+const DAY_MS = 1000 * 60 * 60 * 24;
+const MAX_CHAIN = 10;
+
+// --- Signature algorithm ---
+// Node doesn't expose it, so it is read from the DER: the second element of the outer
+// Certificate SEQUENCE is the signature AlgorithmIdentifier.
+
+const SIGNATURE_ALGORITHMS: Record<string, string> = {
+  '1.2.840.113549.1.1.4': 'md5WithRSAEncryption',
+  '1.2.840.113549.1.1.5': 'sha1WithRSAEncryption',
+  '1.2.840.113549.1.1.10': 'RSASSA-PSS',
+  '1.2.840.113549.1.1.11': 'sha256WithRSAEncryption',
+  '1.2.840.113549.1.1.12': 'sha384WithRSAEncryption',
+  '1.2.840.113549.1.1.13': 'sha512WithRSAEncryption',
+  '1.2.840.10045.4.1': 'ecdsa-with-SHA1',
+  '1.2.840.10045.4.3.2': 'ecdsa-with-SHA256',
+  '1.2.840.10045.4.3.3': 'ecdsa-with-SHA384',
+  '1.2.840.10045.4.3.4': 'ecdsa-with-SHA512',
+  '1.3.101.112': 'Ed25519',
+  '1.3.101.113': 'Ed448',
+};
+
+// Returns the content bounds of the DER element at `offset`
+const readElement = (der: Buffer, offset: number) => {
+  let length = der.readUInt8(offset + 1);
+  let start = offset + 2;
+  if (length & 0x80) {
+    const bytes = length & 0x7f;
+    length = 0;
+    for (let i = 0; i < bytes; i++) length = length * 256 + der.readUInt8(start + i);
+    start += bytes;
+  }
+  return { tag: der.readUInt8(offset), start, end: start + length };
+};
+
+const decodeOid = (bytes: Buffer) => {
+  const parts = [Math.floor(bytes[0] / 40), bytes[0] % 40];
+  let value = 0;
+  for (const byte of bytes.subarray(1)) {
+    value = value * 128 + (byte & 0x7f);
+    if (!(byte & 0x80)) {
+      parts.push(value);
+      value = 0;
+    }
+  }
+  return parts.join('.');
+};
+
+const signatureAlgorithm = (der: Buffer) => {
+  try {
+    const certificate = readElement(der, 0);
+    const tbs = readElement(der, certificate.start);
+    const algorithm = readElement(der, tbs.end);
+    const oid = readElement(der, algorithm.start);
+    if (oid.tag !== 0x06) return 'unknown';
+    const id = decodeOid(der.subarray(oid.start, oid.end));
+    return SIGNATURE_ALGORITHMS[id] ?? id;
+  } catch {
+    return 'unknown';
+  }
+};
+
+// --- Chain ---
+
+const keyType = (x509: crypto.X509Certificate) => {
+  const key = x509.publicKey;
+  const details = key.asymmetricKeyDetails;
+  const type = key.asymmetricKeyType?.toUpperCase() ?? 'unknown';
+  if (details?.modulusLength) return `${type} ${details.modulusLength}`;
+  if (details?.namedCurve) return `${type} ${details.namedCurve}`;
+  return type;
+};
+
+const describe = (raw: Buffer): CertificateDetails => {
+  const x509 = new crypto.X509Certificate(raw);
+  const validTo = new Date(x509.validTo);
+  const subject = x509.subject.split('\n').filter(Boolean);
+  return {
+    subject: subject.join(', '),
+    commonName: subject.find(part => part.startsWith('CN='))?.slice(3) ?? '',
+    issuer: x509.issuer.split('\n').filter(Boolean).join(', '),
+    serialNumber: x509.serialNumber,
+    validFrom: new Date(x509.validFrom).toISOString(),
+    validTo: validTo.toISOString(),
+    daysRemaining: Math.ceil((validTo.getTime() - Date.now()) / DAY_MS),
+    altNames: (x509.subjectAltName ?? '').split(', ').filter(Boolean).map(name => name.replace(/^(DNS|IP Address):/, '')),
+    keyType: keyType(x509),
+    signatureAlgorithm: signatureAlgorithm(raw),
+    fingerprint256: x509.fingerprint256,
+    selfSigned: x509.subject === x509.issuer,
+  };
+};
+
+// Follows issuerCertificate from the leaf; the root (or the last cert sent) points at itself
+const collectChain = (leaf: tls.DetailedPeerCertificate) => {
+  const chain: CertificateDetails[] = [];
+  const seen = new Set<string>();
+  for (let cert = leaf; cert?.raw && !seen.has(cert.fingerprint256) && chain.length < MAX_CHAIN; cert = cert.issuerCertificate) {
+    seen.add(cert.fingerprint256);
+    chain.push(describe(cert.raw));
+  }
+  return chain;
+};
+
+// Connects to an already checked address and reports the certificate chain it presents.
+// `host` goes into SNI (unless it's an IP) and is what the hostname match is checked
+// against. Untrusted certs are still reported, since an expiring self-signed cert is
+// worth knowing about too.
+export function inspectCertificate(host: string, address: string, port = 443, timeoutMs = 5000): Promise<CertificateReport> {
+  return new Promise((resolve, reject) => {
+    const socket = tls.connect({ host: address, port, servername: net.isIP(host) ? undefined : host, rejectUnauthorized: false }, () => {
+      const leaf = socket.getPeerCertificate(true);
+      const cipher = socket.getCipher();
+      const protocol = socket.getProtocol();
+      socket.end();
+      if (!leaf || !leaf.raw) {
+        reject(new Error('No certificate found'));
+        return;
+      }
+
+      const identityError = tls.checkServerIdentity(host, leaf);
+      // Node reports a name mismatch here too, but only once the chain itself verified
+      const authError = socket.authorizationError ? String(socket.authorizationError) : undefined;
+      const nameOnly = authError === 'ERR_TLS_CERT_ALTNAME_INVALID';
+      try {
+        resolve({
+          host,
+          address,
+          port,
+          protocol,
+          cipher: cipher?.name ?? null,
+          chain: collectChain(leaf),
+          trusted: socket.authorized || nameOnly,
+          trustError: nameOnly ? undefined : authError,
+          hostnameMatch: !identityError,
+          hostnameError: identityError?.message,
+        });
+      } catch (e) {
+        reject(e);
+      }
+    });
+
+    socket.on('error', (err) => {
+      socket.destroy();
+      reject(err);
+    });
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy();
+      reject(new Error('Timeout connecting to TLS'));
+    });
+  });
+}
+
+// Plain-text rendering for the audit log and API clients that don't draw the chain view
+export function formatCertificateReport(report: CertificateReport): string {
+  const leaf = report.chain[0];
+  const lines = [
+    `TLS certificate for ${report.host}:${report.port} (${report.address})`,
+    `- Protocol: ${report.protocol ?? 'unknown'}, cipher ${report.cipher ?? 'unknown'}`,
+    `- Trusted: ${report.trusted ? 'yes' : `NO (${report.trustError})`}`,
+    `- Hostname match: ${report.hostnameMatch ? 'yes' : `NO (${report.hostnameError})`}`,
+  ];
+  if (leaf) lines.push(`- Expires: ${new Date(leaf.validTo).toDateString()} (${leaf.daysRemaining} days)`);
+  report.chain.forEach((cert, i) => {
+    lines.push(
+      '',
+      `[${i}] ${cert.subject}`,
+      `    Issuer: ${cert.issuer}`,
+      `    Valid: ${cert.validFrom.slice(0, 10)} to ${cert.validTo.slice(0, 10)} (${cert.daysRemaining} days)`,
+      `    Key: ${cert.keyType}, signed with ${cert.signatureAlgorithm}`,
+    );
+    if (cert.altNames.length > 0) lines.push(`    SANs: ${cert.altNames.join(', ')}`);
+  });
+  return lines.join('\n');
+}
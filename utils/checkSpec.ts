@@ -0,0 +1,100 @@
+// Health check definitions shared by the API and the dashboard.
+// Kept free of Node imports so the client bundle can use describeCheck.
+
+export type CheckType = 'tcp' | 'http' | 'https' | 'tls' | 'dns';
+
+export type CheckSpec = {
+  type: CheckType;
+  port?: number;          // tcp, http, https, tls
+  path?: string;          // http, https
+  expectStatus?: number;  // http, https
+  bodyRegex?: string;     // http, https
+  timeoutMs?: number;
+  intervalSec?: number;   // How often the scheduler probes the node
+};
+
+export const CHECK_TYPES: CheckType[] = ['tcp', 'http', 'https', 'tls', 'dns'];
+
+export const DEFAULT_PORTS: Record<CheckType, number | undefined> = {
+  tcp: 80,
+  http: 80,
+  https: 443,
+  tls: 443,
+  dns: undefined,
+};
+
+export const DEFAULT_TIMEOUT_MS = 1500;
+export const DEFAULT_INTERVAL_SEC = 30;
+
+// Legacy nodes were always probed with a TCP connect to port 80
+export const DEFAULT_CHECK: CheckSpec = { type: 'tcp', port: 80, timeoutMs: DEFAULT_TIMEOUT_MS };
+
+export function describeCheck(check: CheckSpec = DEFAULT_CHECK): string {
+  const port = check.port ?? DEFAULT_PORTS[check.type];
+  switch (check.type) {
+    case 'tcp':
+      return `TCP Ping (Port ${port})`;
+    case 'http':
+    case 'https': {
+      const expect = check.expectStatus ?? 200;
+      const defaultPort = port === DEFAULT_PORTS[check.type];
+      return `${check.type.toUpperCase()} GET ${defaultPort ? '' : `:${port}`}${check.path || '/'} → ${expect}`;
+    }
+    case 'tls':
+      return `TLS Handshake (Port ${port})`;
+    case 'dns':
+      return 'DNS Resolution';
+  }
+}
+
+// Validates an untrusted check definition from a request body.
+export function validateCheck(input: unknown): { error: string } | { check: CheckSpec } {
+  if (typeof input !== 'object' || input === null) return { error: 'Check must be an object' };
+  const raw = input as Record<string, unknown>;
+
+  if (!CHECK_TYPES.includes(raw.type as CheckType)) {
+    return { error: `Check type must be one of: ${CHECK_TYPES.join(', ')}` };
+  }
+  const check: CheckSpec = { type: raw.type as CheckType };
+
+  if (raw.port !== undefined && raw.port !== '' && check.type !== 'dns') {
+    const port = Number(raw.port);
+    if (!Number.isInteger(port) || port < 1 || port > 65535) return { error: 'Check port must be between 1 and 65535' };
+    check.port = port;
+  }
+
+  if (raw.timeoutMs !== undefined && raw.timeoutMs !== '') {
+    const timeoutMs = Number(raw.timeoutMs);
+    if (!Number.isFinite(timeoutMs) || timeoutMs < 100 || timeoutMs > 30000) return { error: 'Check timeout must be between 100 and 30000 ms' };
+    check.timeoutMs = timeoutMs;
+  }
+
+  if (raw.intervalSec !== undefined && raw.intervalSec !== '') {
+    const intervalSec = Number(raw.intervalSec);
+    if (!Number.isInteger(intervalSec) || intervalSec < 5 || intervalSec > 86400) return { error: 'Check interval must be between 5 and 86400 seconds' };
+    check.intervalSec = intervalSec;
+  }
+
+  if (check.type === 'http' || check.type === 'https') {
+    if (raw.path !== undefined && raw.path !== '') {
+      if (typeof raw.path !== 'string' || !raw.path.startsWith('/')) return { error: 'Check path must start with /' };
+      check.path = raw.path;
+    }
+    if (raw.expectStatus !== undefined && raw.expectStatus !== '') {
+      const expectStatus = Number(raw.expectStatus);
+      if (!Number.isInteger(expectStatus) || expectStatus < 100 || expectStatus > 599) return { error: 'Expected status must be a valid HTTP status code' };
+      check.expectStatus = expectStatus;
+    }
+    if (raw.bodyRegex !== undefined && raw.bodyRegex !== '') {
+      if (typeof raw.bodyRegex !== 'string') return { error: 'Body regex must be a string' };
+      try {
+        new RegExp(raw.bodyRegex);
+      } catch {
+        return { error: 'Body regex is not a valid regular expression' };
+      }
+      check.bodyRegex = raw.bodyRegex;
+    }
+  }
+
+  return { check };
+}
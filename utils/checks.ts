@@ -0,0 +1,120 @@
+import net from 'net';
+import tls from 'tls';
+import dns from 'dns';
+import { CheckSpec, DEFAULT_CHECK, DEFAULT_PORTS, DEFAULT_TIMEOUT_MS } from './checkSpec';
+
+export type CheckResult = {
+  ok: boolean;
+  latency: number | null; // ms, null when the check failed before completing
+  error?: string;
+  httpStatus?: number;
+};
+
+const tcpCheck = (host: string, port: number, timeoutMs: number): Promise<CheckResult> => {
+  return new Promise((resolve) => {
+    const start = Date.now();
+    const socket = new net.Socket();
+    socket.setTimeout(timeoutMs);
+
+    socket.on('connect', () => {
+      socket.destroy();
+      resolve({ ok: true, latency: Date.now() - start });
+    });
+    socket.on('timeout', () => {
+      socket.destroy();
+      resolve({ ok: false, latency: null, error: 'Timeout' });
+    });
+    socket.on('error', (err) => {
+      socket.destroy();
+      resolve({ ok: false, latency: null, error: err.message });
+    });
+
+    try {
+      socket.connect(port, host);
+    } catch (e) {
+      resolve({ ok: false, latency: null, error: (e as Error).message });
+    }
+  });
+};
+
+const tlsCheck = (host: string, port: number, timeoutMs: number): Promise<CheckResult> => {
+  return new Promise((resolve) => {
+    const start = Date.now();
+    // Certificate problems are not an outage; the handshake completing is what we check
+    const socket = tls.connect({ host, port, servername: net.isIP(host) ? undefined : host, rejectUnauthorized: false }, () => {
+      socket.end();
+      resolve({ ok: true, latency: Date.now() - start });
+    });
+    socket.setTimeout(timeoutMs, () => {
+      socket.destroy();
+      resolve({ ok: false, latency: null, error: 'Timeout' });
+    });
+    socket.on('error', (err) => {
+      socket.destroy();
+      resolve({ ok: false, latency: null, error: err.message });
+    });
+  });
+};
+
+const httpCheck = async (host: string, check: CheckSpec, timeoutMs: number): Promise<CheckResult> => {
+  const port = check.port ?? DEFAULT_PORTS[check.type];
+  const url = `${check.type}://${net.isIPv6(host) ? `[${host}]` : host}:${port}${check.path || '/'}`;
+  const expectStatus = check.expectStatus ?? 200;
+  const start = Date.now();
+
+  try {
+    const res = await fetch(url, { redirect: 'manual', signal: AbortSignal.timeout(timeoutMs) });
+    const latency = Date.now() - start;
+    // Unless the body is matched below, release the connection instead of waiting for GC
+    if (res.status !== expectStatus || !check.bodyRegex) void res.body?.cancel().catch(() => {});
+
+    if (res.status !== expectStatus) {
+      return { ok: false, latency, httpStatus: res.status, error: `Expected HTTP ${expectStatus}, got ${res.status}` };
+    }
+    if (check.bodyRegex) {
+      const body = await res.text();
+      if (!new RegExp(check.bodyRegex).test(body)) {
+        return { ok: false, latency, httpStatus: res.status, error: 'Response body did not match' };
+      }
+    }
+    return { ok: true, latency, httpStatus: res.status };
+  } catch (e) {
+    const err = e as Error;
+    return { ok: false, latency: null, error: err.name === 'TimeoutError' ? 'Timeout' : err.message };
+  }
+};
+
+const dnsCheck = async (host: string, timeoutMs: number): Promise<CheckResult> => {
+  const start = Date.now();
+  let timer: NodeJS.Timeout | undefined;
+  const timeout = new Promise<never>((_, reject) => {
+    timer = setTimeout(() => reject(new Error('Timeout')), timeoutMs);
+  });
+
+  try {
+    await Promise.race([dns.promises.lookup(host), timeout]);
+    return { ok: true, latency: Date.now() - start };
+  } catch (e) {
+    return { ok: false, latency: null, error: (e as Error).message };
+  } finally {
+    clearTimeout(timer);
+  }
+};
+
+// Runs a node's configured health check against the given host
+export async function runCheck(host: string, check: CheckSpec = DEFAULT_CHECK): Promise<CheckResult> {
+  const timeoutMs = check.timeoutMs ?? DEFAULT_TIMEOUT_MS;
+  const port = check.port ?? DEFAULT_PORTS[check.type] ?? 80;
+
+  switch (check.type) {
+    case 'tcp':
+      return tcpCheck(host, port, timeoutMs);
+    case 'tls':
+      return tlsCheck(host, port, timeoutMs);
+    case 'http':
+    case 'https':
+      return httpCheck(host, check, timeoutMs);
+    case 'dns':
+      return dnsCheck(host, timeoutMs);
+  }
+}
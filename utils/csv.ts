@@ -0,0 +1,62 @@
+// Minimal CSV reading and writing for the GeoIP databases and node import/export.
+// Fields may be double-quoted; quoted fields can't span lines.
+
+// Splits one CSV line, honouring double-quoted fields
+export const parseCsvLine = (line: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+// Rows keyed by the lower-cased header, with the 1-based line number each row came from
+export const parseCsv = (text: string): { line: number; fields: Record<string, string> }[] => {
+  const lines = text.split(/\r?\n/);
+  const headerIndex = lines.findIndex(l => l.trim());
+  if (headerIndex === -1) return [];
+  const header = parseCsvLine(lines[headerIndex]).map(h => h.trim().toLowerCase());
+  return lines.flatMap((line, i) => {
+    if (i <= headerIndex || !line.trim()) return [];
+    const fields = parseCsvLine(line);
+    return [{ line: i + 1, fields: Object.fromEntries(header.map((h, j) => [h, fields[j]?.trim() ?? ''])) }];
+  });
+};
+
+// Spreadsheets run cells starting with = + - @ (or tab/CR) as formulas, so exported text cells
+// like that get a leading ' to keep them inert. Plain numbers such as -33.86 stay as they are.
+const FORMULA_RE = /^[=+\-@\t\r]/;
+const NUMBER_RE = /^[-+]?\d+(\.\d+)?$/;
+
+const guardFormula = (value: string) => (FORMULA_RE.test(value) && !NUMBER_RE.test(value) ? `'${value}` : value);
+
+// Undoes guardFormula when a file we exported is imported again
+export const unguardFormula = (value: string) => (value.startsWith("'") && FORMULA_RE.test(value.slice(1)) ? value.slice(1) : value);
+
+const csvField = (raw: string) => {
+  const value = guardFormula(raw);
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+};
+
+export const formatCsv = (header: string[], rows: Record<string, string>[]): string =>
+  [header, ...rows.map(row => header.map(h => row[h] ?? ''))].map(fields => fields.map(csvField).join(',')).join('\n') + '\n';
@@ -0,0 +1,55 @@
+// Dependency links between nodes, shared by the API and the dashboard.
+// A node lists the nodes it depends on in `dependsOn`, so a link points the way traffic
+// flows: edge -> core -> database.
+
+export type DependencyNode = { id: string; dependsOn?: string[] };
+
+export type DependencyLink = { from: string; to: string };
+
+export type DependencyChain = {
+  upstream: Set<string>;   // nodes that depend on the node, directly or indirectly (its blast radius)
+  downstream: Set<string>; // nodes the node depends on, directly or indirectly
+  links: Set<string>;      // linkKey() of every link on either chain
+};
+
+export const linkKey = (link: DependencyLink) => `${link.from}>${link.to}`;
+
+// Links whose both ends exist; references to deleted nodes are dropped
+export function dependencyLinks(nodes: DependencyNode[]): DependencyLink[] {
+  const ids = new Set(nodes.map(n => n.id));
+  return nodes.flatMap(n => (n.dependsOn ?? []).filter(to => ids.has(to) && to !== n.id).map(to => ({ from: n.id, to })));
+}
+
+// Walks the graph both ways from `id`. Cycles are allowed and visited once.
+export function dependencyChain(nodes: DependencyNode[], id: string): DependencyChain {
+  const links = dependencyLinks(nodes);
+  const chain: DependencyChain = { upstream: new Set(), downstream: new Set(), links: new Set() };
+
+  const walk = (found: Set<string>, near: 'from' | 'to', far: 'from' | 'to') => {
+    const queue = [id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      for (const link of links) {
+        if (link[near] !== current) continue;
+        chain.links.add(linkKey(link));
+        const neighbour = link[far];
+        if (neighbour !== id && !found.has(neighbour)) {
+          found.add(neighbour);
+          queue.push(neighbour);
+        }
+      }
+    }
+  };
+
+  walk(chain.downstream, 'from', 'to');
+  walk(chain.upstream, 'to', 'from');
+  return chain;
+}
+
+// Checks a node's dependsOn list against the existing nodes. Returns an error message or null.
+export function checkDependencies(id: string, dependsOn: string[], nodes: DependencyNode[]): string | null {
+  if (dependsOn.includes(id)) return 'A node cannot depend on itself';
+  const ids = new Set(nodes.map(n => n.id));
+  const missing = dependsOn.find(d => !ids.has(d));
+  return missing ? `Unknown dependency: ${missing}` : null;
+}
@@ -0,0 +1,245 @@
+import dgram from 'dgram';
+import dns from 'dns';
+import net from 'net';
+import crypto from 'crypto';
+
+// A minimal DNS client (RFC 1035) so results carry TTLs for every record type and can be
+// asked of any resolver; Node's resolver only reports TTLs for A and AAAA.
+
+export const DNS_RECORD_TYPES = ['A', 'AAAA', 'CNAME', 'MX', 'TXT', 'NS', 'SOA', 'CAA', 'PTR'] as const;
+export type DnsRecordType = (typeof DNS_RECORD_TYPES)[number];
+
+const TYPE_CODES: Record<DnsRecordType, number> = { A: 1, NS: 2, CNAME: 5, SOA: 6, PTR: 12, MX: 15, TXT: 16, AAAA: 28, CAA: 257 };
+const TYPE_NAMES = new Map(Object.entries(TYPE_CODES).map(([name, code]) => [code, name]));
+const RCODES = ['NOERROR', 'FORMERR', 'SERVFAIL', 'NXDOMAIN', 'NOTIMP', 'REFUSED'];
+
+export type DnsRecord = {
+  name: string;
+  type: string;
+  ttl: number;
+  value: string;
+};
+
+export type DnsAnswer = {
+  resolver: string;     // address that was asked
+  label?: string;       // e.g. "Cloudflare" for configured propagation resolvers
+  rcode?: string;       // NOERROR, NXDOMAIN, ...; missing when no response arrived
+  records: DnsRecord[]; // answer section in order, so CNAME chains read top to bottom
+  timeMs: number;
+  error?: string;
+};
+
+const TIMEOUT_MS = 3000;
+const TRIES = 2;
+const EDNS_UDP_SIZE = 1232;
+
+// --- Encoding ---
+
+const encodeName = (name: string) => {
+  const labels = name.replace(/\.$/, '').split('.').filter(Boolean);
+  const parts = labels.map(label => {
+    const bytes = Buffer.from(label, 'utf-8');
+    if (bytes.length > 63) throw new Error(`Label too long: ${label}`);
+    return Buffer.concat([Buffer.from([bytes.length]), bytes]);
+  });
+  return Buffer.concat([...parts, Buffer.from([0])]);
+};
+
+const buildQuery = (id: number, name: string, type: DnsRecordType) => {
+  const header = Buffer.alloc(12);
+  header.writeUInt16BE(id, 0);
+  header.writeUInt16BE(0x0100, 2); // recursion desired
+  header.writeUInt16BE(1, 4);      // one question
+  header.writeUInt16BE(1, 10);     // one additional record: the EDNS OPT below
+  const question = Buffer.alloc(4);
+  question.writeUInt16BE(TYPE_CODES[type], 0);
+  question.writeUInt16BE(1, 2);    // class IN
+  const opt = Buffer.alloc(11);
+  opt.writeUInt16BE(41, 1);        // root name, type OPT
+  opt.writeUInt16BE(EDNS_UDP_SIZE, 3);
+  return Buffer.concat([header, encodeName(name), question, opt]);
+};
+
+// --- Decoding ---
+
+// Reads a possibly compressed name; returns it with the offset just past it in the record
+const readName = (msg: Buffer, offset: number): [string, number] => {
+  const labels: string[] = [];
+  let end = -1;
+  for (let jumps = 0; ; ) {
+    const len = msg.readUInt8(offset);
+    if (len === 0) {
+      offset++;
+      break;
+    }
+    if ((len & 0xc0) === 0xc0) {
+      if (++jumps > 20) throw new Error('Malformed response: compression loop');
+      if (end === -1) end = offset + 2;
+      offset = msg.readUInt16BE(offset) & 0x3fff;
+      continue;
+    }
+    labels.push(msg.toString('utf-8', offset + 1, offset + 1 + len));
+    offset += len + 1;
+  }
+  return [labels.length ? `${labels.join('.')}.` : '.', end === -1 ? offset : end];
+};
+
+const formatIpv6 = (bytes: Buffer) => {
+  const groups = Array.from({ length: 8 }, (_, i) => bytes.readUInt16BE(i * 2).toString(16));
+  // Collapse the longest run of zero groups
+  let best = { start: -1, len: 0 };
+  for (let i = 0; i < 8; ) {
+    let j = i;
+    while (j < 8 && groups[j] === '0') j++;
+    if (j - i > best.len && j - i > 1) best = { start: i, len: j - i };
+    i = j === i ? i + 1 : j;
+  }
+  if (best.start === -1) return groups.join(':');
+  return `${groups.slice(0, best.start).join(':')}::${groups.slice(best.start + best.len).join(':')}`;
+};
+
+const readCharacterStrings = (msg: Buffer, start: number, end: number) => {
+  const strings: string[] = [];
+  for (let offset = start; offset < end; ) {
+    const len = msg.readUInt8(offset);
+    strings.push(msg.toString('utf-8', offset + 1, offset + 1 + len));
+    offset += len + 1;
+  }
+  return strings;
+};
+
+const decodeRdata = (msg: Buffer, type: number, start: number, length: number): string => {
+  const end = start + length;
+  switch (TYPE_NAMES.get(type)) {
+    case 'A':
+      return Array.from(msg.subarray(start, end)).join('.');
+    case 'AAAA':
+      return formatIpv6(msg.subarray(start, end));
+    case 'CNAME':
+    case 'NS':
+    case 'PTR':
+      return readName(msg, start)[0];
+    case 'MX':
+      return `${msg.readUInt16BE(start)} ${readName(msg, start + 2)[0]}`;
+    case 'TXT':
+      return readCharacterStrings(msg, start, end).map(s => `"${s}"`).join(' ');
+    case 'SOA': {
+      const [mname, next] = readName(msg, start);
+      const [rname, offset] = readName(msg, next);
+      const [serial, refresh, retry, expire, minimum] = [0, 4, 8, 12, 16].map(i => msg.readUInt32BE(offset + i));
+      return `${mname} ${rname} ${serial} ${refresh} ${retry} ${expire} ${minimum}`;
+    }
+    case 'CAA': {
+      const tagLength = msg.readUInt8(start + 1);
+      const tag = msg.toString('utf-8', start + 2, start + 2 + tagLength);
+      return `${msg.readUInt8(start)} ${tag} "${msg.toString('utf-8', start + 2 + tagLength, end)}"`;
+    }
+    default:
+      return `\\# ${length} ${msg.toString('hex', start, end)}`;
+  }
+};
+
+const parseResponse = (msg: Buffer, id: number) => {
+  if (msg.length < 12 || msg.readUInt16BE(0) !== id) throw new Error('Malformed response');
+  const flags = msg.readUInt16BE(2);
+  const questions = msg.readUInt16BE(4);
+  const answers = msg.readUInt16BE(6);
+
+  let offset = 12;
+  for (let i = 0; i < questions; i++) offset = readName(msg, offset)[1] + 4;
+
+  const records: DnsRecord[] = [];
+  for (let i = 0; i < answers; i++) {
+    const [name, next] = readName(msg, offset);
+    const type = msg.readUInt16BE(next);
+    const ttl = msg.readUInt32BE(next + 4);
+    const length = msg.readUInt16BE(next + 8);
+    records.push({ name, type: TYPE_NAMES.get(type) ?? `TYPE${type}`, ttl, value: decodeRdata(msg, type, next + 10, length) });
+    offset = next + 10 + length;
+  }
+
+  return { truncated: Boolean(flags & 0x0200), rcode: RCODES[flags & 0x0f] ?? `RCODE${flags & 0x0f}`, records };
+};
+
+// --- Transport ---
+
+const queryUdp = (server: string, query: Buffer) => new Promise<Buffer>((resolve, reject) => {
+  const socket = dgram.createSocket(net.isIPv6(server) ? 'udp6' : 'udp4');
+  let attempt = 0;
+  let timer: ReturnType<typeof setTimeout>;
+  const done = (fn: () => void) => {
+    clearTimeout(timer);
+    socket.close();
+    fn();
+  };
+  const send = () => {
+    attempt++;
+    socket.send(query, 53, server);
+    timer = setTimeout(() => (attempt < TRIES ? send() : done(() => reject(new Error('Timeout')))), TIMEOUT_MS);
+  };
+  socket.on('message', (msg, rinfo) => {
+    // Ignore anything that isn't the server's reply to this query
+    if (rinfo.address !== server || msg.length < 2 || msg.readUInt16BE(0) !== query.readUInt16BE(0)) return;
+    done(() => resolve(msg));
+  });
+  socket.on('error', (err) => done(() => reject(err)));
+  send();
+});
+
+const queryTcp = (server: string, query: Buffer) => new Promise<Buffer>((resolve, reject) => {
+  const socket = net.connect({ host: server, port: 53 });
+  const length = Buffer.alloc(2);
+  length.writeUInt16BE(query.length);
+  let data = Buffer.alloc(0);
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('Timeout')));
+  socket.on('connect', () => socket.write(Buffer.concat([length, query])));
+  socket.on('data', (chunk) => {
+    data = Buffer.concat([data, chunk]);
+    if (data.length >= 2 && data.length >= 2 + data.readUInt16BE(0)) {
+      socket.end();
+      resolve(data.subarray(2, 2 + data.readUInt16BE(0)));
+    }
+  });
+  socket.on('error', reject);
+  socket.on('close', () => reject(new Error('Connection closed before a full response')));
+});
+
+// "192.0.2.1" -> "1.2.0.192.in-addr.arpa", and the nibble form for IPv6
+export function reverseName(ip: string): string {
+  if (net.isIPv4(ip)) return `${ip.split('.').reverse().join('.')}.in-addr.arpa`;
+  const groups = ip.split('::');
+  const head = groups[0] ? groups[0].split(':') : [];
+  const tail = groups[1] ? groups[1].split(':') : [];
+  const full = [...head, ...Array(8 - head.length - tail.length).fill('0'), ...tail].map(g => g.padStart(4, '0')).join('');
+  return `${full.split('').reverse().join('.')}.ip6.arpa`;
+}
+
+// The first resolver from the system configuration, without the port getServers() may add
+export function systemResolver(): string {
+  const server = dns.getServers()[0];
+  if (!server) return '127.0.0.1';
+  const withPort = /^\[(.+)\]:\d+$/.exec(server) ?? /^([\d.]+):\d+$/.exec(server);
+  return withPort ? withPort[1] : server;
+}
+
+// Resolvers compared side by side in the propagation view, as "Label=address" pairs
+export const PROPAGATION_RESOLVERS = (process.env.DNS_PROPAGATION_RESOLVERS || 'Cloudflare=1.1.1.1,Google=8.8.8.8,Quad9=9.9.9.9,OpenDNS=208.67.222.222')
+  .split(',')
+  .map(entry => entry.trim().split('='))
+  .filter(parts => parts[parts.length - 1])
+  .map(parts => ({ label: parts[0], address: parts[parts.length - 1] }));
+
+// Asks one resolver for one name and type. Never throws: failures come back in `error`.
+export async function queryDns(name: string, type: DnsRecordType, resolver: string, label?: string): Promise<DnsAnswer> {
+  const start = Date.now();
+  const qname = type === 'PTR' && net.isIP(name) ? reverseName(name) : name;
+  const id = crypto.randomInt(0, 0x10000);
+  try {
+    const query = buildQuery(id, qname, type);
+    let response = parseResponse(await queryUdp(resolver, query), id);
+    if (response.truncated) response = parseResponse(await queryTcp(resolver, query), id);
+    return { resolver, label, rcode: response.rcode, records: response.records, timeMs: Date.now() - start };
+  } catch (e) {
+    return { resolver, label, records: [], timeMs: Date.now() - start, error: (e as Error).message };
+  }
+}
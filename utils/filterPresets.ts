@@ -0,0 +1,94 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import type { ServerStatus } from './statusRules';
+import { GroupBy, isGroupBy } from './nodeQuery';
+
+export const FILTER_PRESETS_FILE = path.join(process.cwd(), 'data', 'filter-presets.json');
+
+// A saved node-list view: the search query, status filter and grouping. Presets belong to the
+// user (or API token) that saved them.
+export type FilterPreset = {
+  id: string;
+  name: string;
+  query: string;
+  status: 'all' | ServerStatus;
+  groupBy: GroupBy;
+  createdAt: string; // ISO timestamp
+};
+
+type PresetStore = Record<string, FilterPreset[]>; // keyed by principal id
+
+const MAX_PRESETS = 50;
+const STATUSES = ['all', 'online', 'warning', 'error', 'offline'];
+
+// Writes are chained so two saves at once don't drop one another. The queue lives on
+// globalThis because each route can get its own copy of this module.
+const globalForPresets = globalThis as unknown as { __opsglobePresetsQueue?: Promise<unknown> };
+
+const readStore = async (): Promise<PresetStore> => {
+  try {
+    return JSON.parse(await fs.readFile(FILTER_PRESETS_FILE, 'utf-8'));
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return {};
+    throw e;
+  }
+};
+
+const writeStore = async (store: PresetStore) => {
+  await fs.mkdir(path.dirname(FILTER_PRESETS_FILE), { recursive: true });
+  const tmp = `${FILTER_PRESETS_FILE}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(store, null, 2));
+  await fs.rename(tmp, FILTER_PRESETS_FILE);
+};
+
+const updateStore = <T>(task: (store: PresetStore) => T): Promise<T> => {
+  const next = (globalForPresets.__opsglobePresetsQueue ?? Promise.resolve()).then(async () => {
+    const store = await readStore();
+    const result = task(store);
+    await writeStore(store);
+    return result;
+  });
+  globalForPresets.__opsglobePresetsQueue = next.catch(() => undefined);
+  return next;
+};
+
+export async function listFilterPresets(ownerId: string): Promise<FilterPreset[]> {
+  return (await readStore())[ownerId] ?? [];
+}
+
+export function validateFilterPreset(input: Record<string, unknown>): { error: string } | { preset: Omit<FilterPreset, 'id' | 'createdAt'> } {
+  if (typeof input.name !== 'string' || !input.name.trim()) return { error: 'Preset name is required' };
+  if (input.name.trim().length > 60) return { error: 'Preset name must be at most 60 characters' };
+  if (typeof input.query !== 'string' || input.query.length > 500) return { error: 'Query must be a string of at most 500 characters' };
+  const status = input.status ?? 'all';
+  if (typeof status !== 'string' || !STATUSES.includes(status)) return { error: `Status must be one of: ${STATUSES.join(', ')}` };
+  const groupBy = input.groupBy ?? 'none';
+  if (!isGroupBy(groupBy)) return { error: 'Group by must be none, region, status, type or tag:<key>' };
+  return { preset: { name: input.name.trim(), query: input.query.trim(), status: status as FilterPreset['status'], groupBy } };
+}
+
+// Saving under an existing name replaces that preset
+export function saveFilterPreset(ownerId: string, preset: Omit<FilterPreset, 'id' | 'createdAt'>): Promise<{ error: string } | { preset: FilterPreset }> {
+  return updateStore(store => {
+    const presets = store[ownerId] ?? [];
+    const existing = presets.find(p => p.name.toLowerCase() === preset.name.toLowerCase());
+    if (!existing && presets.length >= MAX_PRESETS) return { error: `At most ${MAX_PRESETS} presets can be saved` };
+    const saved: FilterPreset = {
+      id: existing?.id ?? `preset_${crypto.randomBytes(6).toString('hex')}`,
+      ...preset,
+      createdAt: new Date().toISOString(),
+    };
+    store[ownerId] = existing ? presets.map(p => (p === existing ? saved : p)) : [...presets, saved];
+    return { preset: saved };
+  });
+}
+
+export function deleteFilterPreset(ownerId: string, id: string): Promise<boolean> {
+  return updateStore(store => {
+    const presets = store[ownerId] ?? [];
+    if (!presets.some(p => p.id === id)) return false;
+    store[ownerId] = presets.filter(p => p.id !== id);
+    return true;
+  });
+}
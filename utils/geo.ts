@@ -10,3 +10,29 @@ export function latLongToVector3(lat: number, lon: number, radius: number): [num
 
   return [x, y, z];
 }
+
+// Points along the great circle between two locations, lifted off the surface in the middle
+// in proportion to the distance so long links arc higher than short ones
+export function greatCircleArc(
+  from: { lat: number; lon: number },
+  to: { lat: number; lon: number },
+  radius: number,
+  segments = 64
+): THREE.Vector3[] {
+  const start = new THREE.Vector3(...latLongToVector3(from.lat, from.lon, 1));
+  const end = new THREE.Vector3(...latLongToVector3(to.lat, to.lon, 1));
+  const angle = start.angleTo(end);
+  const lift = radius * 0.5 * (angle / Math.PI);
+
+  const points: THREE.Vector3[] = [];
+  for (let i = 0; i <= segments; i++) {
+    const t = i / segments;
+    // Slerp between the unit vectors; for (near-)identical points fall back to the start
+    const point = angle < 1e-6
+      ? start.clone()
+      : start.clone().multiplyScalar(Math.sin((1 - t) * angle) / Math.sin(angle))
+          .add(end.clone().multiplyScalar(Math.sin(t * angle) / Math.sin(angle)));
+    points.push(point.normalize().multiplyScalar(radius + Math.sin(Math.PI * t) * lift + 0.01));
+  }
+  return points;
+}
@@ -0,0 +1,169 @@
+import fs from 'fs/promises';
+import net from 'net';
+import dns from 'dns';
+import { ipToBigInt, cidrToRange } from './ipRanges';
+import { parseCsv } from './csv';
+
+export type GeoResult = {
+  lat: number;
+  lng: number;
+  region: string;
+};
+
+export interface GeoProvider {
+  name: string;
+  lookup(ip: string): Promise<GeoResult | null>;
+}
+
+// --- CSV IP-range database ---
+// Header-driven so it reads both simple exports and MaxMind GeoLite2 block files:
+//   start,end,latitude,longitude,city,country       (IP ranges)
+//   network,geoname_id,...,latitude,longitude,...   (CIDR blocks, GeoLite2)
+// GeoLite2 city names live in a separate locations file, joined via GEOIP_LOCATIONS_PATH.
+
+type GeoRange = { start: bigint; end: bigint; result: GeoResult };
+
+const readCsv = async (file: string): Promise<Record<string, string>[]> =>
+  parseCsv(await fs.readFile(file, 'utf-8')).map(row => row.fields);
+
+const pick = (row: Record<string, string>, ...keys: string[]) => keys.map(k => row[k]).find(v => v !== undefined && v !== '');
+
+const loadRanges = async (file: string, locationsFile?: string) => {
+  const locations = new Map<string, { city?: string; country?: string }>();
+  if (locationsFile) {
+    for (const row of await readCsv(locationsFile)) {
+      locations.set(row.geoname_id, { city: pick(row, 'city_name'), country: pick(row, 'country_iso_code', 'country_name') });
+    }
+  }
+
+  const v4: GeoRange[] = [];
+  const v6: GeoRange[] = [];
+
+  for (const row of await readCsv(file)) {
+    const lat = parseFloat(pick(row, 'latitude', 'lat') ?? '');
+    const lng = parseFloat(pick(row, 'longitude', 'lng', 'lon') ?? '');
+    if (!Number.isFinite(lat) || !Number.isFinite(lng)) continue;
+
+    let start: bigint, end: bigint, family: number;
+    try {
+      if (row.network) {
+        [start, end] = cidrToRange(row.network);
+        family = net.isIP(row.network.split('/')[0]);
+      } else {
+        const first = pick(row, 'start', 'ip_start', 'start_ip') ?? '';
+        const last = pick(row, 'end', 'ip_end', 'end_ip') ?? '';
+        family = net.isIP(first);
+        if (!family || net.isIP(last) !== family) continue;
+        start = ipToBigInt(first);
+        end = ipToBigInt(last);
+      }
+    } catch {
+      continue;
+    }
+
+    const location = row.geoname_id ? locations.get(row.geoname_id) : undefined;
+    const city = pick(row, 'city', 'city_name') ?? location?.city;
+    const country = pick(row, 'country_code', 'country', 'country_iso_code') ?? location?.country;
+    const region = pick(row, 'region') ?? ([city, country].filter(Boolean).join(', ') || 'Unknown Region');
+
+    (family === 4 ? v4 : v6).push({ start, end, result: { lat, lng, region } });
+  }
+
+  const byStart = (a: GeoRange, b: GeoRange) => (a.start < b.start ? -1 : a.start > b.start ? 1 : 0);
+  return { v4: v4.sort(byStart), v6: v6.sort(byStart) };
+};
+
+// Binary search for the last range starting at or before the address
+const findRange = (ranges: GeoRange[], value: bigint): GeoRange | null => {
+  let lo = 0;
+  let hi = ranges.length - 1;
+  let match: GeoRange | null = null;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    if (ranges[mid].start <= value) {
+      match = ranges[mid];
+      lo = mid + 1;
+    } else {
+      hi = mid - 1;
+    }
+  }
+  return match && value <= match.end ? match : null;
+};
+
+export function createCsvProvider(file: string, locationsFile?: string): GeoProvider {
+  let loaded: ReturnType<typeof loadRanges> | null = null;
+  return {
+    name: 'csv',
+    async lookup(ip) {
+      loaded ??= loadRanges(file, locationsFile);
+      const { v4, v6 } = await loaded;
+      const family = net.isIP(ip);
+      if (!family) return null;
+      return findRange(family === 4 ? v4 : v6, ipToBigInt(ip))?.result ?? null;
+    },
+  };
+}
+
+// --- ip-api.com (remote) ---
+// Sends the address to a third party over plain HTTP, so it is opt-in only.
+
+export const ipApiProvider: GeoProvider = {
+  name: 'ip-api',
+  async lookup(ip) {
+    const geoRes = await fetch(`http://ip-api.com/json/${ip}`, { signal: AbortSignal.timeout(5000) });
+    if (!geoRes.ok) throw new Error('GeoIP API request failed');
+
+    const geoData = await geoRes.json();
+    if (geoData.status !== 'success') return null;
+
+    return {
+      lat: geoData.lat,
+      lng: geoData.lon,
+      region: `${geoData.city}, ${geoData.countryCode}`,
+    };
+  },
+};
+
+const noneProvider: GeoProvider = {
+  name: 'none',
+  async lookup() {
+    return null;
+  },
+};
+
+// GEOIP_PROVIDER picks the backend: "csv" (default when GEOIP_CSV_PATH is set), "ip-api" or "none"
+const createProvider = (): GeoProvider => {
+  const csvPath = process.env.GEOIP_CSV_PATH;
+  const choice = process.env.GEOIP_PROVIDER || (csvPath ? 'csv' : 'none');
+
+  switch (choice) {
+    case 'csv':
+      if (!csvPath) {
+        console.error("GEOIP_PROVIDER=csv requires GEOIP_CSV_PATH; geolocation is disabled");
+        return noneProvider;
+      }
+      return createCsvProvider(csvPath, process.env.GEOIP_LOCATIONS_PATH);
+    case 'ip-api':
+      return ipApiProvider;
+    case 'none':
+      return noneProvider;
+    default:
+      console.error(`Unknown GEOIP_PROVIDER "${choice}"; geolocation is disabled`);
+      return noneProvider;
+  }
+};
+
+let provider: GeoProvider | null = null;
+
+// Resolves hostnames first so the database (or remote API) only ever sees an IP address.
+// Returns null when the location is unknown so callers can record that explicitly.
+export async function lookupLocation(host: string): Promise<GeoResult | null> {
+  provider ??= createProvider();
+  try {
+    const ip = net.isIP(host) ? host : (await dns.promises.lookup(host)).address;
+    return await provider.lookup(ip);
+  } catch (e) {
+    console.error(`GeoIP lookup (${provider.name}) failed for ${host}:`, e);
+    return null;
+  }
+}
@@ -0,0 +1,110 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { ServerStatus } from './nodeStore';
+import { STATUS_RANK } from './statusRules';
+import { createKeyedQueue, nodeFile, replaceFile } from './nodeFiles';
+
+export const HISTORY_DIR = path.join(process.cwd(), 'data', 'history');
+
+// Raw samples are kept for a day, then folded into 5 minute buckets that are kept for 30 days
+const RAW_RETENTION_MS = 24 * 60 * 60 * 1000;
+const BUCKET_MS = 5 * 60 * 1000;
+const BUCKET_RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// A single probe (samples = 1) or an aggregate of several probes
+export type HistoryPoint = {
+  t: number;               // epoch ms; bucket start for aggregates
+  status: ServerStatus;    // worst status seen in the bucket
+  latency: number | null;  // average latency of successful samples
+  error?: string;          // last error seen
+  samples: number;
+  up: number;              // samples that were online or only slow
+};
+
+// Writes per node are chained so appends and compaction never interleave
+const enqueue = createKeyedQueue();
+
+const historyFile = (nodeId: string) => nodeFile(HISTORY_DIR, nodeId, '.jsonl');
+
+const readPoints = async (nodeId: string): Promise<HistoryPoint[]> => {
+  let data: string;
+  try {
+    data = await fs.readFile(historyFile(nodeId), 'utf-8');
+  } catch {
+    return [];
+  }
+  const points: HistoryPoint[] = [];
+  for (const line of data.split('\n')) {
+    if (!line) continue;
+    try {
+      points.push(JSON.parse(line));
+    } catch {
+      // Skip a line torn by a crash mid-append
+    }
+  }
+  return points;
+};
+
+// Folds points into fixed-size time buckets
+export function downsample(points: HistoryPoint[], bucketMs: number): HistoryPoint[] {
+  const buckets = new Map<number, HistoryPoint & { latencySum: number; latencyCount: number }>();
+
+  for (const p of points) {
+    const t = Math.floor(p.t / bucketMs) * bucketMs;
+    let b = buckets.get(t);
+    if (!b) {
+      b = { t, status: p.status, latency: null, samples: 0, up: 0, latencySum: 0, latencyCount: 0 };
+      buckets.set(t, b);
+    }
+    if (STATUS_RANK[p.status] > STATUS_RANK[b.status]) b.status = p.status;
+    if (p.latency != null) {
+      b.latencySum += p.latency * p.samples;
+      b.latencyCount += p.samples;
+    }
+    if (p.error) b.error = p.error;
+    b.samples += p.samples;
+    b.up += p.up;
+  }
+
+  return [...buckets.values()]
+    .sort((a, b) => a.t - b.t)
+    .map(({ latencySum, latencyCount, ...b }) => ({
+      ...b,
+      latency: latencyCount > 0 ? Math.round(latencySum / latencyCount) : null,
+    }));
+}
+
+export function recordProbe(nodeId: string, point: Omit<HistoryPoint, 'samples' | 'up'>): Promise<void> {
+  const line = JSON.stringify({ ...point, samples: 1, up: point.status === 'online' || point.status === 'warning' ? 1 : 0 }) + '\n';
+  return enqueue(nodeId, async () => {
+    await fs.mkdir(HISTORY_DIR, { recursive: true });
+    await fs.appendFile(historyFile(nodeId), line);
+  });
+}
+
+export async function readHistory(nodeId: string, from: number, to: number): Promise<HistoryPoint[]> {
+  const points = await readPoints(nodeId);
+  return points.filter(p => p.t >= from && p.t <= to);
+}
+
+// Applies retention: downsamples raw samples older than a day and drops anything past 30 days
+export function compactHistory(nodeId: string): Promise<void> {
+  return enqueue(nodeId, async () => {
+    const points = await readPoints(nodeId);
+    if (points.length === 0) return;
+
+    const now = Date.now();
+    const rawCutoff = now - RAW_RETENTION_MS;
+    const old = points.filter(p => p.t < rawCutoff && p.t >= now - BUCKET_RETENTION_MS);
+    const recent = points.filter(p => p.t >= rawCutoff);
+    const compacted = [...downsample(old, BUCKET_MS), ...recent];
+
+    await replaceFile(historyFile(nodeId), compacted.map(p => JSON.stringify(p)).join('\n') + (compacted.length ? '\n' : ''));
+  });
+}
+
+export function deleteHistory(nodeId: string): Promise<void> {
+  return enqueue(nodeId, async () => {
+    await fs.rm(historyFile(nodeId), { force: true });
+  });
+}
@@ -0,0 +1,166 @@
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { checkTarget } from './toolPolicy';
+
+export const HTTP_PROBE_METHODS = ['GET', 'HEAD'] as const;
+export type HttpProbeMethod = (typeof HTTP_PROBE_METHODS)[number];
+
+// Milliseconds from the start of the hop; phases that didn't happen are missing
+export type HttpTimings = {
+  dns: number;
+  connect?: number;
+  tls?: number;
+  ttfb?: number;
+  total: number;
+};
+
+export type HttpHop = {
+  url: string;
+  address?: string; // the policy-checked address that was contacted
+  status?: number;
+  statusText?: string;
+  headers?: Record<string, string>;
+  bodyBytes?: number;
+  bodyTruncated?: boolean; // stopped reading at MAX_BODY_BYTES
+  timings: HttpTimings;
+  error?: string;
+};
+
+export type HttpProbeResult = {
+  hops: HttpHop[]; // the redirect chain, final response last
+  denied?: string; // set when a redirect led to a target the tool policy refuses
+};
+
+const MAX_REDIRECTS = 10;
+const MAX_BODY_BYTES = 10 * 1024 * 1024;
+const USER_AGENT = 'OpsGlobe-HTTP-Probe/1.0';
+
+export const DEFAULT_PROBE_TIMEOUT_MS = 10000;
+
+const flattenHeaders = (headers: http.IncomingHttpHeaders) =>
+  Object.fromEntries(Object.entries(headers).map(([k, v]) => [k, Array.isArray(v) ? v.join(', ') : String(v ?? '')]));
+
+const HEADER_NAME_RE = /^[!#$%&'*+.^_`|~0-9a-z-]+$/i;
+const MAX_HEADERS = 20;
+
+// Extra request headers as a name -> value object
+export function validateProbeHeaders(input: unknown): { error: string } | { headers: Record<string, string> } {
+  if (input === undefined || input === null) return { headers: {} };
+  if (typeof input !== 'object' || Array.isArray(input)) return { error: 'Headers must be an object of name: value pairs' };
+  const entries = Object.entries(input as Record<string, unknown>);
+  if (entries.length > MAX_HEADERS) return { error: `At most ${MAX_HEADERS} headers are allowed` };
+  for (const [name, value] of entries) {
+    if (!HEADER_NAME_RE.test(name)) return { error: `Invalid header name: ${name}` };
+    if (typeof value !== 'string' || /[\r\n]/.test(value)) return { error: `Invalid value for header ${name}` };
+  }
+  return { headers: Object.fromEntries(entries) as Record<string, string> };
+}
+
+// Targets typed without a scheme are taken as https
+export function parseProbeUrl(input: string): URL | null {
+  try {
+    const url = new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(input) ? input : `https://${input}`);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url : null;
+  } catch {
+    return null;
+  }
+}
+
+// One request against an already checked address. The hostname still goes into the Host
+// header and TLS SNI; only the name lookup is replaced.
+const requestHop = (url: URL, address: string, dnsMs: number, method: HttpProbeMethod, headers: Record<string, string>, timeoutMs: number) =>
+  new Promise<HttpHop>((resolve) => {
+    const start = performance.now();
+    const since = () => Math.round(performance.now() - start + dnsMs);
+    const hop: HttpHop = { url: url.toString(), address, timings: { dns: dnsMs, total: dnsMs } };
+    const family = net.isIPv6(address) ? 6 : 4;
+
+    const req = (url.protocol === 'https:' ? https : http).request(url, {
+      method,
+      agent: false, // a fresh connection every time, or connect and TLS would read 0
+      headers: { 'User-Agent': USER_AGENT, ...headers },
+      lookup: (_host, options, callback) => (options.all ? callback(null, [{ address, family }]) : callback(null, address, family)),
+    });
+
+    let finished = false;
+    const finish = (error?: string) => {
+      if (finished) return;
+      finished = true;
+      hop.timings.total = since();
+      if (error) hop.error = error;
+      resolve(hop);
+    };
+
+    req.setTimeout(timeoutMs, () => req.destroy(new Error(`Timeout after ${timeoutMs}ms`)));
+    req.on('socket', (socket) => {
+      socket.once('connect', () => (hop.timings.connect = since()));
+      socket.once('secureConnect', () => (hop.timings.tls = since()));
+    });
+    req.on('response', (res) => {
+      hop.timings.ttfb = since();
+      hop.status = res.statusCode;
+      hop.statusText = res.statusMessage;
+      hop.headers = flattenHeaders(res.headers);
+      hop.bodyBytes = 0;
+      res.on('data', (chunk: Buffer) => {
+        hop.bodyBytes! += chunk.length;
+        if (hop.bodyBytes! >= MAX_BODY_BYTES) {
+          hop.bodyTruncated = true;
+          res.destroy();
+          finish();
+        }
+      });
+      res.on('end', () => finish());
+      res.on('error', (err) => finish(err.message));
+    });
+    req.on('error', (err) => finish(err.message));
+    req.end();
+  });
+
+// Follows redirects itself so that every hop's host is checked against the tool policy
+// before it is contacted; a redirect to an internal address stops the chain.
+export async function probeHttp(
+  start: URL,
+  { method = 'GET', headers = {}, timeoutMs = DEFAULT_PROBE_TIMEOUT_MS }: { method?: HttpProbeMethod; headers?: Record<string, string>; timeoutMs?: number } = {}
+): Promise<HttpProbeResult> {
+  const hops: HttpHop[] = [];
+  let url = start;
+
+  for (let i = 0; i <= MAX_REDIRECTS; i++) {
+    const lookupStart = performance.now();
+    const check = await checkTarget(url.hostname);
+    const dnsMs = Math.round(performance.now() - lookupStart);
+    if (!check.allowed) {
+      hops.push({ url: url.toString(), timings: { dns: dnsMs, total: dnsMs }, error: `Not allowed: ${check.reason}` });
+      return { hops, denied: check.reason };
+    }
+
+    const hop = await requestHop(url, check.address, dnsMs, method, headers, timeoutMs);
+    hops.push(hop);
+
+    const location = hop.headers?.location;
+    if (!hop.status || hop.status < 300 || hop.status >= 400 || !location) break;
+    const next = parseProbeUrl(new URL(location, url).toString());
+    if (!next) {
+      hop.error = `Redirect to unsupported location ${location}`;
+      break;
+    }
+    if (i === MAX_REDIRECTS) hop.error = `Stopped after ${MAX_REDIRECTS} redirects`;
+    url = next;
+  }
+
+  return { hops };
+}
+
+// Plain-text rendering for the audit log and API clients that don't draw the waterfall
+export function formatHttpProbe(result: HttpProbeResult): string {
+  return result.hops.map((hop, i) => {
+    const t = hop.timings;
+    const phases = [`dns ${t.dns}ms`, t.connect !== undefined && `connect ${t.connect}ms`, t.tls !== undefined && `tls ${t.tls}ms`, t.ttfb !== undefined && `ttfb ${t.ttfb}ms`, `total ${t.total}ms`]
+      .filter(Boolean).join(', ');
+    const outcome = hop.status ? `${hop.status} ${hop.statusText ?? ''}`.trim() : 'no response';
+    const size = hop.bodyBytes !== undefined ? `, ${hop.bodyBytes}${hop.bodyTruncated ? '+' : ''} bytes` : '';
+    return `${i + 1}. ${hop.url} -> ${outcome}${size} (${phases})${hop.error ? `\n   ${hop.error}` : ''}`;
+  }).join('\n');
+}
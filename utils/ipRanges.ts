@@ -0,0 +1,63 @@
+import net from 'net';
+
+// IP addresses as BigInt so IPv4 and IPv6 ranges compare the same way
+
+export function ipToBigInt(ip: string): bigint {
+  if (net.isIPv4(ip)) {
+    return ip.split('.').reduce((acc, part) => (acc << BigInt(8)) + BigInt(parseInt(part, 10)), BigInt(0));
+  }
+  // Expand "::" and any embedded IPv4 tail, then fold the eight 16-bit groups
+  let addr = ip;
+  const v4 = addr.match(/(\d+\.\d+\.\d+\.\d+)$/);
+  if (v4) {
+    const n = Number(ipToBigInt(v4[1]));
+    addr = addr.replace(v4[1], `${(n >>> 16).toString(16)}:${(n & 0xffff).toString(16)}`);
+  }
+  const [head, tail] = addr.split('::');
+  const headParts = head ? head.split(':') : [];
+  const tailParts = tail !== undefined && tail ? tail.split(':') : [];
+  const groups = tail !== undefined
+    ? [...headParts, ...Array(8 - headParts.length - tailParts.length).fill('0'), ...tailParts]
+    : headParts;
+  return groups.reduce((acc, g) => (acc << BigInt(16)) + BigInt(parseInt(g, 16)), BigInt(0));
+}
+
+// Inclusive [first, last] addresses of a CIDR block; a bare address is a single-address block
+export function cidrToRange(cidr: string): [bigint, bigint] {
+  const [ip, bitsRaw] = cidr.split('/');
+  const totalBits = net.isIPv4(ip) ? 32 : 128;
+  const bits = bitsRaw === undefined ? totalBits : parseInt(bitsRaw, 10);
+  const hostBits = BigInt(totalBits - bits);
+  const start = (ipToBigInt(ip) >> hostBits) << hostBits;
+  return [start, start + (BigInt(1) << hostBits) - BigInt(1)];
+}
+
+export function isValidCidr(cidr: string): boolean {
+  const [ip, bitsRaw, ...rest] = cidr.split('/');
+  const family = net.isIP(ip);
+  if (!family || rest.length > 0) return false;
+  if (bitsRaw === undefined) return true;
+  const bits = Number(bitsRaw);
+  return /^\d+$/.test(bitsRaw) && bits <= (family === 4 ? 32 : 128);
+}
+
+const IPV4_MAPPED_PREFIX = BigInt(0xffff);
+
+// IPv4-mapped IPv6 (::ffff:0:0/96) is treated as the IPv4 address it carries, however it is
+// written: ::ffff:127.0.0.1, ::ffff:7f00:1 and 0:0:0:0:0:ffff:7f00:1 all become 127.0.0.1
+export function normalizeIp(ip: string): string {
+  if (!net.isIPv6(ip)) return ip;
+  const value = ipToBigInt(ip.replace(/%.*$/, ''));
+  if (value >> BigInt(32) !== IPV4_MAPPED_PREFIX) return ip;
+  const v4 = Number(value & BigInt(0xffffffff));
+  return [24, 16, 8, 0].map(shift => (v4 >>> shift) & 0xff).join('.');
+}
+
+export function ipInCidr(ip: string, cidr: string): boolean {
+  const addr = normalizeIp(ip);
+  const [network] = cidr.split('/');
+  if (net.isIP(addr) !== net.isIP(network)) return false;
+  const [start, end] = cidrToRange(cidr);
+  const value = ipToBigInt(addr);
+  return value >= start && value <= end;
+}
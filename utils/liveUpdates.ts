@@ -0,0 +1,65 @@
+import { EventEmitter } from 'events';
+import { getHostStatus, HostStatus } from './hostStatus';
+
+export type LiveEvent =
+  | { type: 'node'; data: unknown }    // one node's latest probe state
+  | { type: 'nodes'; data: unknown[] } // full node list after an add, edit or delete
+  | { type: 'hq'; data: HostStatus };
+
+const HQ_SAMPLE_MS = 5000;
+
+type LiveState = {
+  emitter: EventEmitter;
+  hqTimer: NodeJS.Timeout | null;
+  lastHq: HostStatus | null;
+  lastHqAt: number;
+};
+
+// Shared across module copies, like the scheduler state
+const globalForLive = globalThis as unknown as { __opsglobeLive?: LiveState };
+
+const state: LiveState = globalForLive.__opsglobeLive ??= {
+  emitter: new EventEmitter().setMaxListeners(0),
+  hqTimer: null,
+  lastHq: null,
+  lastHqAt: 0,
+};
+
+const sampleHq = async () => {
+  try {
+    state.lastHq = await getHostStatus();
+    state.lastHqAt = Date.now();
+    publish({ type: 'hq', data: state.lastHq });
+  } catch (e) {
+    console.error("HQ metrics sampling failed:", e);
+  }
+};
+
+export function publish(event: LiveEvent) {
+  state.emitter.emit('event', event);
+}
+
+// HQ metrics are only sampled while at least one client is listening,
+// and once for all of them rather than once per connection.
+export function subscribe(listener: (event: LiveEvent) => void): () => void {
+  state.emitter.on('event', listener);
+  if (!state.hqTimer) {
+    state.hqTimer = setInterval(() => void sampleHq(), HQ_SAMPLE_MS);
+  }
+
+  return () => {
+    state.emitter.off('event', listener);
+    if (state.emitter.listenerCount('event') === 0 && state.hqTimer) {
+      clearInterval(state.hqTimer);
+      state.hqTimer = null;
+    }
+  };
+}
+
+export async function latestHqStatus(): Promise<HostStatus> {
+  if (!state.lastHq || Date.now() - state.lastHqAt > HQ_SAMPLE_MS) {
+    state.lastHq = await getHostStatus();
+    state.lastHqAt = Date.now();
+  }
+  return state.lastHq;
+}
@@ -0,0 +1,64 @@
+import { ServerStatus, worseStatus } from './statusRules';
+
+// Groups nearby globe markers so thousands of nodes stay readable when zoomed out. Nodes are
+// bucketed into cells of roughly equal area (longitude cells widen toward the poles); a cell
+// holding more than one node becomes a cluster placed at the members' mean direction.
+
+export type ClusterPoint = { id: string; lat: number; lon: number; status: ServerStatus };
+
+export type MarkerCluster<T extends ClusterPoint> = {
+  key: string;
+  members: T[];
+  status: ServerStatus;                     // the worst status among the members
+  direction: [number, number, number];      // unit vector, in the same frame as latLongToVector3
+};
+
+// Unit vector for a location; matches latLongToVector3 with radius 1
+const toDirection = (lat: number, lon: number): [number, number, number] => {
+  const phi = (90 - lat) * (Math.PI / 180);
+  const theta = (lon + 180) * (Math.PI / 180);
+  return [-(Math.sin(phi) * Math.cos(theta)), Math.cos(phi), Math.sin(phi) * Math.sin(theta)];
+};
+
+// Cell size for a camera at `altitude` globe radii above the surface; 0 turns clustering off
+export function clusterCellDegrees(altitude: number): number {
+  return altitude <= 0.6 ? 0 : Math.min(20, altitude * 6);
+}
+
+export function clusterMarkers<T extends ClusterPoint>(points: T[], cellDeg: number): { singles: T[]; clusters: MarkerCluster<T>[] } {
+  if (cellDeg <= 0) return { singles: points, clusters: [] };
+
+  const cells = new Map<string, T[]>();
+  const rows = Math.ceil(180 / cellDeg);
+  for (const point of points) {
+    const row = Math.min(rows - 1, Math.floor((point.lat + 90) / cellDeg));
+    const rowLat = -90 + (row + 0.5) * cellDeg;
+    const cols = Math.max(1, Math.floor((360 * Math.cos(rowLat * Math.PI / 180)) / cellDeg));
+    const col = Math.min(cols - 1, Math.floor(((point.lon + 180) / 360) * cols));
+    const key = `${row}:${col}`;
+    const cell = cells.get(key);
+    if (cell) cell.push(point);
+    else cells.set(key, [point]);
+  }
+
+  const singles: T[] = [];
+  const clusters: MarkerCluster<T>[] = [];
+  for (const [key, members] of cells) {
+    if (members.length === 1) {
+      singles.push(members[0]);
+      continue;
+    }
+    const sum = members.reduce((acc, m) => {
+      const [x, y, z] = toDirection(m.lat, m.lon);
+      return [acc[0] + x, acc[1] + y, acc[2] + z];
+    }, [0, 0, 0]);
+    const length = Math.hypot(...sum) || 1;
+    clusters.push({
+      key,
+      members,
+      status: members.map(m => m.status).reduce(worseStatus),
+      direction: [sum[0] / length, sum[1] / length, sum[2] / length],
+    });
+  }
+  return { singles, clusters };
+}
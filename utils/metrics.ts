@@ -0,0 +1,77 @@
+import { nodeRepository } from './nodeStore';
+import { getProbeResult, withProbeResult } from './scheduler';
+import { certificateInventory } from './certInventory';
+import { getHostStatus } from './hostStatus';
+
+// Prometheus text exposition (format 0.0.4) of node health and the HQ machine's stats.
+// Node series are labeled id, name, region and type; nodes that haven't been probed yet
+// (or whose certificate hasn't been checked) have no sample rather than a made-up one.
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+type Labels = Record<string, string>;
+
+type Gauge = {
+  name: string;
+  help: string;
+  samples: { labels: Labels; value: number }[];
+};
+
+const escapeLabel = (value: string) => value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+
+const formatValue = (value: number) => (Number.isNaN(value) ? 'NaN' : Number.isFinite(value) ? String(value) : value > 0 ? '+Inf' : '-Inf');
+
+export function formatMetrics(gauges: Gauge[]): string {
+  return gauges.map(g => {
+    const lines = [`# HELP ${g.name} ${g.help.replace(/\\/g, '\\\\').replace(/\n/g, '\\n')}`, `# TYPE ${g.name} gauge`];
+    for (const { labels, value } of g.samples) {
+      const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+      lines.push(`${g.name}${pairs.length ? `{${pairs.join(',')}}` : ''} ${formatValue(value)}`);
+    }
+    return lines.join('\n');
+  }).join('\n') + '\n';
+}
+
+const STATUSES = ['online', 'warning', 'error', 'offline'] as const;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export async function collectMetrics(): Promise<string> {
+  const nodes = await nodeRepository().list();
+  const certs = new Map(certificateInventory().map(entry => [entry.nodeId, entry]));
+  const host = await getHostStatus({ processes: false });
+
+  const gauge = (name: string, help: string): Gauge => ({ name, help, samples: [] });
+  const up = gauge('opsglobe_node_up', 'Whether the last health check of the node succeeded (warning counts as up).');
+  const status = gauge('opsglobe_node_status', 'Displayed status of the node, 1 for the current one.');
+  const latency = gauge('opsglobe_node_probe_latency_seconds', 'Latency measured by the last successful health check.');
+  const duration = gauge('opsglobe_node_check_duration_seconds', 'Time the last health check took, timeouts included.');
+  const lastCheck = gauge('opsglobe_node_last_check_timestamp_seconds', 'When the node was last checked, as a Unix timestamp.');
+  const flapping = gauge('opsglobe_node_flapping', 'Whether the node is currently flapping between up and down.');
+  const certDays = gauge('opsglobe_node_cert_days_remaining', 'Days until the leaf certificate served by the node expires.');
+
+  for (const node of nodes) {
+    const labels = { id: node.id, name: node.name, region: node.region, type: 'custom' };
+    const probe = getProbeResult(node.id);
+    if (probe) {
+      up.samples.push({ labels, value: probe.status === 'online' || probe.status === 'warning' ? 1 : 0 });
+      // Includes warnings from exporter usage, like the dashboard
+      const displayed = withProbeResult(node).status;
+      for (const s of STATUSES) status.samples.push({ labels: { ...labels, status: s }, value: displayed === s ? 1 : 0 });
+      if (probe.latency != null) latency.samples.push({ labels, value: probe.latency / 1000 });
+      duration.samples.push({ labels, value: probe.durationMs / 1000 });
+      lastCheck.samples.push({ labels, value: Math.floor(new Date(probe.checkedAt).getTime() / 1000) });
+      flapping.samples.push({ labels, value: probe.flapping ? 1 : 0 });
+    }
+    // From the expiry date rather than daysRemaining, which is as old as the last check
+    const leaf = certs.get(node.id)?.report?.chain[0];
+    if (leaf) certDays.samples.push({ labels, value: Math.round((new Date(leaf.validTo).getTime() - Date.now()) / DAY_MS * 100) / 100 });
+  }
+
+  const hqLabels = { hostname: host.hostname, type: 'hq' };
+  return formatMetrics([
+    up, status, latency, duration, lastCheck, flapping, certDays,
+    { name: 'opsglobe_hq_cpu_percent', help: 'CPU load of the OpsGlobe host (1-minute load average per core).', samples: [{ labels: hqLabels, value: host.cpu }] },
+    { name: 'opsglobe_hq_memory_percent', help: 'Memory in use on the OpsGlobe host.', samples: [{ labels: hqLabels, value: host.memory }] },
+    { name: 'opsglobe_hq_uptime_seconds', help: 'Uptime of the OpsGlobe host.', samples: [{ labels: hqLabels, value: host.uptime }] },
+  ]);
+}
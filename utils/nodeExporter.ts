@@ -0,0 +1,230 @@
+import type { NodeRecord } from './nodeStore';
+
+// Scrapes Prometheus node_exporter endpoints for nodes that have a metrics URL and turns the
+// raw series into the same CPU and memory percentages the agent reports, plus disk usage.
+
+export type ExporterMetrics = {
+  cpu: number | null;    // % busy since the previous scrape; null until there are two scrapes
+  memory: number | null; // % of memory in use (MemAvailable-based)
+  disk: number | null;   // % used of the root filesystem, or the fullest real one
+  load1?: number;
+  uptime?: number;       // seconds
+  hostname?: string;
+  scrapedAt: string;     // ISO timestamp
+  error?: string;        // the last scrape failed; the numbers are from before that
+};
+
+export type PromSample = { name: string; labels: Record<string, string>; value: number };
+
+const SCRAPE_MS = parseInt(process.env.EXPORTER_SCRAPE_SEC || '15', 10) * 1000;
+const STALE_MS = SCRAPE_MS * 4; // metrics older than this are dropped, as for agents
+const TIMEOUT_MS = 5000;
+const MAX_BYTES = 10 * 1024 * 1024;
+const CONCURRENCY = 4;
+
+type CpuTotals = { idle: number; total: number };
+
+type ExporterState = {
+  metrics: Map<string, ExporterMetrics>; // keyed by node id
+  cpu: Map<string, CpuTotals>;           // counters from the previous scrape
+  lastAttempt: Map<string, number>;
+  urls: Map<string, string>;             // the URL the stored metrics came from
+  running: Set<string>;
+};
+
+const globalForExporters = globalThis as unknown as { __opsglobeExporters?: ExporterState };
+
+const state: ExporterState = globalForExporters.__opsglobeExporters ??= {
+  metrics: new Map(),
+  cpu: new Map(),
+  lastAttempt: new Map(),
+  urls: new Map(),
+  running: new Set(),
+};
+
+// --- Text exposition format ---
+
+const parseValue = (raw: string) => {
+  if (raw === '+Inf') return Infinity;
+  if (raw === '-Inf') return -Infinity;
+  return Number(raw); // "NaN" parses to NaN as well
+};
+
+// Label values may contain escaped quotes, backslashes and newlines
+const parseLabels = (text: string, start: number): { labels: Record<string, string>; end: number } | null => {
+  const labels: Record<string, string> = {};
+  let i = start;
+  for (;;) {
+    while (text[i] === ' ' || text[i] === ',') i++;
+    if (text[i] === '}') return { labels, end: i + 1 };
+    const eq = text.indexOf('=', i);
+    if (eq === -1 || text[eq + 1] !== '"') return null;
+    const name = text.slice(i, eq).trim();
+    let value = '';
+    for (i = eq + 2; i < text.length && text[i] !== '"'; i++) {
+      if (text[i] === '\\') {
+        i++;
+        value += text[i] === 'n' ? '\n' : text[i];
+      } else {
+        value += text[i];
+      }
+    }
+    if (i >= text.length) return null;
+    labels[name] = value;
+    i++;
+  }
+};
+
+// Comments, HELP/TYPE lines and malformed lines are skipped; timestamps are ignored
+export function parsePrometheusText(text: string): PromSample[] {
+  const samples: PromSample[] = [];
+  for (const raw of text.split('\n')) {
+    const line = raw.trim();
+    if (!line || line.startsWith('#')) continue;
+    const nameMatch = line.match(/^[a-zA-Z_:][a-zA-Z0-9_:]*/);
+    if (!nameMatch) continue;
+    let rest = line.slice(nameMatch[0].length);
+    let labels: Record<string, string> = {};
+    if (rest.startsWith('{')) {
+      const parsed = parseLabels(rest, 1);
+      if (!parsed) continue;
+      labels = parsed.labels;
+      rest = rest.slice(parsed.end);
+    }
+    const value = parseValue(rest.trim().split(/\s+/)[0] ?? '');
+    if (rest.trim() && !Number.isNaN(value)) samples.push({ name: nameMatch[0], labels, value });
+  }
+  return samples;
+}
+
+// --- node_exporter series ---
+
+const IGNORED_FILESYSTEMS = new Set(['tmpfs', 'devtmpfs', 'overlay', 'squashfs', 'ramfs', 'autofs', 'nsfs', 'proc', 'sysfs']);
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+const cpuTotals = (samples: PromSample[]): CpuTotals | null => {
+  const cpu = samples.filter(s => s.name === 'node_cpu_seconds_total');
+  if (cpu.length === 0) return null;
+  const idle = cpu.filter(s => s.labels.mode === 'idle' || s.labels.mode === 'iowait').reduce((n, s) => n + s.value, 0);
+  return { idle, total: cpu.reduce((n, s) => n + s.value, 0) };
+};
+
+// Busy share of the CPU time that passed between two scrapes, over all cores
+export function cpuUsage(prev: CpuTotals | undefined, next: CpuTotals | null): number | null {
+  if (!prev || !next) return null;
+  const total = next.total - prev.total;
+  const idle = next.idle - prev.idle;
+  // Counters went backwards (exporter or host restarted) or no time passed
+  if (total <= 0 || idle < 0) return null;
+  return round(Math.min(100, Math.max(0, (1 - idle / total) * 100)));
+}
+
+export function summarizeNodeExporter(samples: PromSample[]): Omit<ExporterMetrics, 'cpu' | 'scrapedAt'> {
+  const first = (name: string, match: (labels: Record<string, string>) => boolean = () => true) =>
+    samples.find(s => s.name === name && match(s.labels))?.value;
+
+  const total = first('node_memory_MemTotal_bytes');
+  // Older kernels lack MemAvailable; estimate it from the parts that exist, or give up if none do
+  const parts = ['MemFree', 'Buffers', 'Cached'].map(m => first(`node_memory_${m}_bytes`)).filter((v): v is number => v !== undefined);
+  const available = first('node_memory_MemAvailable_bytes') ?? (parts.length ? parts.reduce((a, b) => a + b, 0) : undefined);
+  const memory = total && available !== undefined ? round((1 - available / total) * 100) : null;
+
+  const filesystems = samples
+    .filter(s => s.name === 'node_filesystem_size_bytes' && s.value > 0 && !IGNORED_FILESYSTEMS.has(s.labels.fstype))
+    .map(size => {
+      const avail = first('node_filesystem_avail_bytes', l => l.mountpoint === size.labels.mountpoint && l.device === size.labels.device);
+      return { mountpoint: size.labels.mountpoint, used: avail === undefined ? null : (1 - avail / size.value) * 100 };
+    })
+    .filter((fs): fs is { mountpoint: string; used: number } => fs.used !== null);
+  const root = filesystems.find(fs => fs.mountpoint === '/');
+  const disk = root ? root.used : filesystems.length ? Math.max(...filesystems.map(fs => fs.used)) : null;
+
+  const now = first('node_time_seconds');
+  const boot = first('node_boot_time_seconds');
+
+  return {
+    memory,
+    disk: disk === null ? null : round(disk),
+    load1: first('node_load1'),
+    uptime: now !== undefined && boot !== undefined ? Math.max(0, Math.round(now - boot)) : undefined,
+    hostname: samples.find(s => s.name === 'node_uname_info')?.labels.nodename,
+  };
+}
+
+// --- Scraping ---
+
+const fetchMetrics = async (url: string): Promise<string> => {
+  const res = await fetch(url, { signal: AbortSignal.timeout(TIMEOUT_MS), headers: { Accept: 'text/plain' } });
+  if (!res.ok) throw new Error(`HTTP ${res.status}`);
+  if (Number(res.headers.get('content-length') ?? 0) > MAX_BYTES) throw new Error('Response too large');
+  const text = await res.text();
+  if (text.length > MAX_BYTES) throw new Error('Response too large');
+  return text;
+};
+
+export async function scrapeNode(node: NodeRecord): Promise<ExporterMetrics | null> {
+  if (!node.metricsUrl) return null;
+  const url = node.metricsUrl;
+  // CPU deltas from a different endpoint would be meaningless
+  if (state.urls.get(node.id) !== url) {
+    state.cpu.delete(node.id);
+    state.metrics.delete(node.id);
+  }
+  state.urls.set(node.id, url);
+  state.running.add(node.id);
+  try {
+    const samples = parsePrometheusText(await fetchMetrics(url));
+    const totals = cpuTotals(samples);
+    if (!totals && !samples.some(s => s.name.startsWith('node_'))) throw new Error('No node_exporter metrics in the response');
+    const metrics: ExporterMetrics = {
+      cpu: cpuUsage(state.cpu.get(node.id), totals),
+      ...summarizeNodeExporter(samples),
+      scrapedAt: new Date().toISOString(),
+    };
+    if (totals) state.cpu.set(node.id, totals);
+    state.metrics.set(node.id, metrics);
+    return metrics;
+  } catch (e) {
+    const error = e instanceof Error && e.name === 'TimeoutError' ? 'Timeout' : (e as Error).message;
+    const previous = state.metrics.get(node.id);
+    const metrics: ExporterMetrics = previous
+      ? { ...previous, error }
+      : { cpu: null, memory: null, disk: null, scrapedAt: new Date().toISOString(), error };
+    state.metrics.set(node.id, metrics);
+    return metrics;
+  } finally {
+    state.running.delete(node.id);
+  }
+}
+
+// Scrapes the nodes that are due, a few at a time; called from the scheduler tick
+export function scrapeDueExporters(nodes: NodeRecord[], onScraped: (node: NodeRecord) => void) {
+  const now = Date.now();
+  // Drop the state of nodes whose exporter was removed, whether or not there are free slots
+  for (const node of nodes) {
+    if (!node.metricsUrl && (state.urls.has(node.id) || state.metrics.has(node.id))) forgetExporter(node.id);
+  }
+
+  for (const node of nodes) {
+    if (!node.metricsUrl || state.running.size >= CONCURRENCY) continue;
+    if (state.running.has(node.id) || now - (state.lastAttempt.get(node.id) ?? 0) < SCRAPE_MS) continue;
+    state.lastAttempt.set(node.id, now);
+    void scrapeNode(node).then(() => onScraped(node)).catch(e => console.error(`Exporter scrape failed for ${node.id}:`, e));
+  }
+}
+
+// The latest scraped metrics, or null if the node has no exporter or it hasn't answered lately
+export function getExporterMetrics(nodeId: string): ExporterMetrics | null {
+  const metrics = state.metrics.get(nodeId);
+  if (!metrics) return null;
+  if (Date.now() - Date.parse(metrics.scrapedAt) > STALE_MS) return null;
+  return metrics;
+}
+
+export function forgetExporter(nodeId: string) {
+  state.metrics.delete(nodeId);
+  state.cpu.delete(nodeId);
+  state.lastAttempt.delete(nodeId);
+  state.urls.delete(nodeId);
+}
@@ -0,0 +1,31 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+
+// Shared by the stores that keep one file per node (probe history, tool runs)
+
+// Node ids end up in file names, so only allow what the API generates
+export const nodeFile = (dir: string, nodeId: string, ext: string) =>
+  path.join(dir, `${nodeId.replace(/[^a-zA-Z0-9_-]/g, '_')}${ext}`);
+
+// Chains tasks per key so writes to one node's file never interleave. A key is forgotten once
+// its last queued task settles, so deleted nodes don't leave entries behind.
+export function createKeyedQueue() {
+  const queues = new Map<string, Promise<unknown>>();
+  return <T>(key: string, task: () => Promise<T>): Promise<T> => {
+    const run = (queues.get(key) ?? Promise.resolve()).then(task);
+    const tail: Promise<unknown> = run.catch(() => undefined).then(() => {
+      if (queues.get(key) === tail) queues.delete(key);
+    });
+    queues.set(key, tail);
+    return run;
+  };
+}
+
+// Writes to a uniquely named temp file and renames it over the target, so a crash or a second
+// process writing at the same time can't leave a torn file
+export async function replaceFile(file: string, data: string): Promise<void> {
+  const tmp = `${file}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  await fs.writeFile(tmp, data);
+  await fs.rename(tmp, file);
+}
@@ -0,0 +1,136 @@
+import type { ServerStatus } from './statusRules';
+import { tagKey, tagValue } from './nodeTags';
+
+// Search syntax for the node list, e.g. `tag:env:prod status:offline region:EU* -tag:role:db`.
+// Terms are ANDed. A qualifier's value is a glob (* and ?) matched against the whole value,
+// case-insensitively; commas list alternatives (status:error,offline) and a leading - negates
+// the term. Words without a qualifier match anywhere in the name, location, region or tags.
+
+export type QueryNode = {
+  name: string;
+  location: string;
+  region: string;
+  status: ServerStatus;
+  type: string;
+  ip?: string;
+  tags?: string[];
+};
+
+export const QUERY_FIELDS = ['tag', 'status', 'region', 'name', 'type', 'ip'] as const;
+
+type QueryField = (typeof QUERY_FIELDS)[number];
+
+type QueryTerm =
+  | { field: QueryField; patterns: RegExp[]; negate: boolean }
+  | { field: 'text'; text: string; negate: boolean };
+
+export type NodeQuery = { terms: QueryTerm[]; errors: string[] };
+
+const globToRegExp = (glob: string) =>
+  new RegExp(`^${glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.')}$`, 'i');
+
+// Whitespace-separated tokens; double quotes keep spaces together (name:"web 1")
+const tokenize = (text: string) => text.match(/(?:[^\s"]+|"[^"]*")+/g) ?? [];
+
+export function parseNodeQuery(text: string): NodeQuery {
+  const terms: QueryTerm[] = [];
+  const errors: string[] = [];
+  for (const token of tokenize(text)) {
+    const negate = token.startsWith('-') && token.length > 1;
+    const body = negate ? token.slice(1) : token;
+    // Only alphabetic keys are qualifiers, so IPv6 addresses and the like stay plain text
+    const match = body.match(/^([a-z]+):(.*)$/i);
+    if (!match) {
+      terms.push({ field: 'text', text: body.replace(/"/g, '').toLowerCase(), negate });
+      continue;
+    }
+    const field = match[1].toLowerCase() as QueryField;
+    if (!QUERY_FIELDS.includes(field)) {
+      errors.push(`Unknown filter "${match[1]}:"; use ${QUERY_FIELDS.map(f => `${f}:`).join(', ')}`);
+      continue;
+    }
+    const values = match[2].replace(/"/g, '').split(',').filter(Boolean);
+    if (values.length === 0) {
+      errors.push(`"${field}:" needs a value`);
+      continue;
+    }
+    terms.push({ field, patterns: values.map(globToRegExp), negate });
+  }
+  return { terms, errors };
+}
+
+// tag:env matches a plain "env" label and every env:* tag; tag:env:prod matches that tag only
+const matchesTag = (tags: string[], pattern: RegExp) =>
+  tags.some(tag => pattern.test(tag) || (tagValue(tag) !== null && pattern.test(tagKey(tag))));
+
+const fieldValues = (node: QueryNode, field: Exclude<QueryField, 'tag'>): string[] => {
+  switch (field) {
+    case 'status': return [node.status];
+    case 'region': return [node.region];
+    case 'name': return [node.name];
+    // The dashboard calls the OpsGlobe host "real"; "hq" is what the list shows
+    case 'type': return node.type === 'real' ? ['real', 'hq'] : [node.type];
+    case 'ip': return node.ip ? [node.ip] : [];
+  }
+};
+
+const matchesTerm = (node: QueryNode, term: QueryTerm) => {
+  if (term.field === 'text') {
+    const haystack = [node.name, node.location, node.region, ...(node.tags ?? [])].join('\n').toLowerCase();
+    return haystack.includes(term.text);
+  }
+  if (term.field === 'tag') return term.patterns.some(p => matchesTag(node.tags ?? [], p));
+  const values = fieldValues(node, term.field);
+  return term.patterns.some(p => values.some(v => p.test(v)));
+};
+
+export function matchesNodeQuery(node: QueryNode, query: NodeQuery): boolean {
+  return query.terms.every(term => matchesTerm(node, term) !== term.negate);
+}
+
+// --- Grouping ---
+
+// "none", a node field, or tag:<key> to group by the value of that tag key
+export type GroupBy = 'none' | 'region' | 'status' | 'type' | `tag:${string}`;
+
+export type NodeGroup<T extends QueryNode> = {
+  key: string;
+  label: string;
+  nodes: T[];
+  counts: Record<ServerStatus, number>;
+};
+
+export const isGroupBy = (value: unknown): value is GroupBy =>
+  typeof value === 'string' && /^(none|region|status|type|tag:[a-z0-9_./-]+)$/.test(value);
+
+// Null when the node has no value for the field or tag key
+const groupLabels = <T extends QueryNode>(node: T, groupBy: Exclude<GroupBy, 'none'>): string[] | null => {
+  if (groupBy === 'region') return node.region ? [node.region] : null;
+  if (groupBy === 'status') return [node.status];
+  if (groupBy === 'type') return [node.type === 'real' ? 'hq' : node.type];
+  const key = groupBy.slice(4);
+  // A node with two values for the key (env:prod and env:staging) shows up in both groups
+  const values = (node.tags ?? []).filter(t => tagKey(t) === key).map(t => tagValue(t) ?? key);
+  return values.length > 0 ? values : null;
+};
+
+// Groups in order of first appearance, with the nodes lacking the field or tag last
+export function groupNodes<T extends QueryNode>(nodes: T[], groupBy: GroupBy): NodeGroup<T>[] {
+  const groups = new Map<string, NodeGroup<T>>();
+  const add = (key: string, label: string, node: T) => {
+    let group = groups.get(key);
+    if (!group) {
+      group = { key, label, nodes: [], counts: { online: 0, warning: 0, error: 0, offline: 0 } };
+      groups.set(key, group);
+    }
+    group.nodes.push(node);
+    group.counts[node.status]++;
+  };
+  const missingLabel = groupBy.startsWith('tag:') ? `No ${groupBy.slice(4)} tag` : `No ${groupBy}`;
+  for (const node of nodes) {
+    const labels = groupBy === 'none' ? ['All nodes'] : groupLabels(node, groupBy);
+    if (labels) labels.forEach(label => add(`=${label}`, label, node));
+    else add('missing', missingLabel, node);
+  }
+  return [...groups.values()].sort((a, b) => Number(a.key === 'missing') - Number(b.key === 'missing'));
+}
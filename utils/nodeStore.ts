@@ -0,0 +1,168 @@
+import { CheckSpec, validateCheck } from './checkSpec';
+import { ServerStatus, StatusRules, validateStatusRules } from './statusRules';
+import { validateTags } from './nodeTags';
+import { createJsonNodeRepository, NODES_FILE } from './nodeStoreJson';
+import { createSqliteNodeRepository, SQLITE_FILE } from './nodeStoreSqlite';
+
+export type { ServerStatus };
+
+export type NodeRecord = {
+  id: string;
+  name: string;
+  ip: string;
+  lat: number | null; // null when the location could not be determined
+  lng: number | null;
+  region: string;
+  status: ServerStatus;
+  check?: CheckSpec; // Missing on nodes created before per-node checks; DEFAULT_CHECK applies
+  rules?: StatusRules;
+  agentTokenHash?: string; // SHA-256 of the node's agent token; never sent to clients
+  dependsOn?: string[]; // ids of the nodes this one depends on (see utils/dependencies)
+  metricsUrl?: string; // node_exporter endpoint scraped for CPU, memory and disk (see utils/nodeExporter)
+  tags?: string[]; // lowercase labels like env:prod (see utils/nodeTags)
+};
+
+export type NodeInput = {
+  name?: unknown;
+  ip?: unknown;
+  lat?: unknown;
+  lng?: unknown;
+  region?: unknown;
+  check?: unknown;
+  rules?: unknown;
+  dependsOn?: unknown;
+  metricsUrl?: unknown;
+  tags?: unknown;
+};
+
+// Storage backends implement this; routes never touch the underlying file or database.
+// Each call is atomic on its own, so concurrent requests can't lose each other's writes.
+export interface NodeRepository {
+  list(): Promise<NodeRecord[]>;
+  get(id: string): Promise<NodeRecord | null>;
+  create(node: NodeRecord): Promise<NodeRecord>;
+  // Merges the patch into the node as stored at write time; null if the node doesn't exist
+  update(id: string, patch: Partial<Omit<NodeRecord, 'id'>>): Promise<NodeRecord | null>;
+  delete(id: string): Promise<boolean>;
+  // Creates, then updates, in a single write (bulk import); updates of missing nodes are skipped
+  batch(ops: NodeBatch): Promise<void>;
+}
+
+export type NodeBatch = {
+  create: NodeRecord[];
+  update: { id: string; patch: Partial<Omit<NodeRecord, 'id'>> }[];
+};
+
+// NODE_STORE selects the backend: "json" (default) or "sqlite"
+export function createNodeRepository(kind = process.env.NODE_STORE || 'json'): NodeRepository {
+  switch (kind) {
+    case 'json':
+      return createJsonNodeRepository(process.env.NODES_FILE || NODES_FILE);
+    case 'sqlite':
+      return createSqliteNodeRepository(process.env.SQLITE_PATH || SQLITE_FILE);
+    default:
+      throw new Error(`Unknown NODE_STORE "${kind}"; expected json or sqlite`);
+  }
+}
+
+// One repository per process, so the JSON backend's write queue covers every route
+const globalForNodes = globalThis as unknown as { __opsglobeNodes?: NodeRepository };
+
+export function nodeRepository(): NodeRepository {
+  return globalForNodes.__opsglobeNodes ??= createNodeRepository();
+}
+
+// Blank coordinates mean "auto-detect", so they parse to null rather than failing
+const parseCoordinate = (value: unknown, limit: number): number | null | undefined => {
+  if (value === undefined) return undefined;
+  if (value === null || value === '') return null;
+  const num = typeof value === 'number' ? value : parseFloat(String(value));
+  if (!Number.isFinite(num) || Math.abs(num) > limit) return NaN;
+  return num;
+};
+
+export type NodePatch = {
+  name?: string;
+  ip?: string;
+  lat?: number | null;
+  lng?: number | null;
+  region?: string;
+  check?: CheckSpec;
+  rules?: StatusRules;
+  dependsOn?: string[];
+  metricsUrl?: string | null; // null removes it
+  tags?: string[];
+};
+
+const MAX_DEPENDENCIES = 50;
+
+// Validates a partial node update. Returns an error message or the cleaned patch.
+export function validateNodePatch(input: NodeInput): { error: string } | { patch: NodePatch } {
+  const patch: NodePatch = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== 'string' || !input.name.trim()) return { error: 'Name must be a non-empty string' };
+    patch.name = input.name.trim();
+  }
+  if (input.ip !== undefined) {
+    if (typeof input.ip !== 'string' || !input.ip.trim()) return { error: 'IP must be a non-empty string' };
+    patch.ip = input.ip.trim();
+  }
+  if (input.region !== undefined) {
+    if (typeof input.region !== 'string') return { error: 'Region must be a string' };
+    patch.region = input.region.trim();
+  }
+
+  if (input.check !== undefined) {
+    const result = validateCheck(input.check);
+    if ('error' in result) return result;
+    patch.check = result.check;
+  }
+
+  if (input.rules !== undefined) {
+    const result = validateStatusRules(input.rules);
+    if ('error' in result) return result;
+    patch.rules = result.rules;
+  }
+
+  // Only the shape is checked here; routes check that the ids exist
+  if (input.dependsOn !== undefined) {
+    if (!Array.isArray(input.dependsOn) || !input.dependsOn.every(d => typeof d === 'string' && d)) {
+      return { error: 'Dependencies must be a list of node ids' };
+    }
+    if (input.dependsOn.length > MAX_DEPENDENCIES) return { error: `A node can have at most ${MAX_DEPENDENCIES} dependencies` };
+    patch.dependsOn = [...new Set(input.dependsOn as string[])];
+  }
+
+  if (input.tags !== undefined) {
+    const result = validateTags(input.tags);
+    if ('error' in result) return result;
+    patch.tags = result.tags;
+  }
+
+  // Blank clears the URL, like blank coordinates
+  if (input.metricsUrl !== undefined) {
+    if (input.metricsUrl === null || input.metricsUrl === '') {
+      patch.metricsUrl = null;
+    } else {
+      if (typeof input.metricsUrl !== 'string') return { error: 'Metrics URL must be a string' };
+      let url: URL;
+      try {
+        url = new URL(input.metricsUrl.trim());
+      } catch {
+        return { error: 'Metrics URL must be a valid URL' };
+      }
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') return { error: 'Metrics URL must use http or https' };
+      patch.metricsUrl = url.toString();
+    }
+  }
+
+  const lat = parseCoordinate(input.lat, 90);
+  const lng = parseCoordinate(input.lng, 180);
+  if (Number.isNaN(lat)) return { error: 'Latitude must be a number between -90 and 90' };
+  if (Number.isNaN(lng)) return { error: 'Longitude must be a number between -180 and 180' };
+  if (lat !== undefined) patch.lat = lat;
+  if (lng !== undefined) patch.lng = lng;
+
+  return { patch };
+}
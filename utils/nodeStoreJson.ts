@@ -0,0 +1,114 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { NodeRecord, NodeRepository } from './nodeStore';
+
+export const NODES_FILE = path.join(process.cwd(), 'utils', 'nodes.json');
+
+// Version 1: { version, nodes }. Files written before versioning are a bare array.
+const SCHEMA_VERSION = 1;
+
+type NodesFile = { version: number; nodes: NodeRecord[] };
+
+const parseNodesFile = (file: string, data: string): NodeRecord[] => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(data);
+  } catch {
+    // Refuse to guess: returning [] here would let the next write wipe every node
+    throw new Error(`${file} is not valid JSON; fix or restore it before continuing`);
+  }
+  if (Array.isArray(parsed)) return parsed;
+
+  const { version, nodes } = parsed as Partial<NodesFile>;
+  if (typeof version !== 'number' || !Array.isArray(nodes)) throw new Error(`${file} is not a nodes file`);
+  if (version > SCHEMA_VERSION) {
+    throw new Error(`${file} has schema version ${version}, newer than this build supports (${SCHEMA_VERSION})`);
+  }
+  return nodes;
+};
+
+// Stores nodes in a single JSON file. Writes go through a queue and land via rename,
+// so concurrent mutations apply one after another and a crash never leaves a torn file.
+export function createJsonNodeRepository(file: string): NodeRepository {
+  let queue: Promise<unknown> = Promise.resolve();
+
+  const read = async (): Promise<NodeRecord[]> => {
+    try {
+      return parseNodesFile(file, await fs.readFile(file, 'utf-8'));
+    } catch (e) {
+      if ((e as NodeJS.ErrnoException).code === 'ENOENT') return [];
+      throw e;
+    }
+  };
+
+  const write = async (nodes: NodeRecord[]) => {
+    const body: NodesFile = { version: SCHEMA_VERSION, nodes };
+    const tmp = `${file}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const handle = await fs.open(tmp, 'w');
+    try {
+      await handle.writeFile(JSON.stringify(body, null, 2));
+      await handle.sync();
+    } finally {
+      await handle.close();
+    }
+    await fs.rename(tmp, file);
+  };
+
+  // Runs read-modify-write steps one at a time; a failed step doesn't block later ones
+  const mutate = <T>(fn: (nodes: NodeRecord[]) => { nodes?: NodeRecord[]; result: T }): Promise<T> => {
+    const run = queue.then(async () => {
+      const { nodes, result } = fn(await read());
+      if (nodes) await write(nodes);
+      return result;
+    });
+    queue = run.catch(() => {});
+    return run;
+  };
+
+  return {
+    list: read,
+
+    async get(id) {
+      return (await read()).find(n => n.id === id) ?? null;
+    },
+
+    create(node) {
+      return mutate(nodes => {
+        if (nodes.some(n => n.id === node.id)) throw new Error(`Node ${node.id} already exists`);
+        return { nodes: [...nodes, node], result: node };
+      });
+    },
+
+    update(id, patch) {
+      return mutate(nodes => {
+        const index = nodes.findIndex(n => n.id === id);
+        if (index === -1) return { result: null };
+        const updated = { ...nodes[index], ...patch, id };
+        return { nodes: nodes.map((n, i) => (i === index ? updated : n)), result: updated };
+      });
+    },
+
+    delete(id) {
+      return mutate(nodes => {
+        const remaining = nodes.filter(n => n.id !== id);
+        if (remaining.length === nodes.length) return { result: false };
+        return { nodes: remaining, result: true };
+      });
+    },
+
+    batch({ create, update }) {
+      return mutate(nodes => {
+        const ids = new Set(nodes.map(n => n.id));
+        const existing = create.find(n => ids.has(n.id));
+        if (existing) throw new Error(`Node ${existing.id} already exists`);
+        const byId = new Map([...nodes, ...create].map(n => [n.id, n]));
+        for (const { id, patch } of update) {
+          const node = byId.get(id);
+          if (node) byId.set(id, { ...node, ...patch, id });
+        }
+        return { nodes: [...byId.values()], result: undefined };
+      });
+    },
+  };
+}
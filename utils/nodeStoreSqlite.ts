@@ -0,0 +1,160 @@
+import fs from 'fs';
+import path from 'path';
+import type Database from 'better-sqlite3';
+import type { NodeRecord, NodeRepository } from './nodeStore';
+
+export const SQLITE_FILE = path.join(process.cwd(), 'data', 'opsglobe.db');
+
+// Applied in order; PRAGMA user_version records how many have run
+const MIGRATIONS = [
+  `CREATE TABLE nodes (
+    id TEXT PRIMARY KEY,
+    name TEXT NOT NULL,
+    ip TEXT NOT NULL,
+    lat REAL,
+    lng REAL,
+    region TEXT NOT NULL,
+    status TEXT NOT NULL,
+    check_spec TEXT,        -- JSON CheckSpec
+    rules TEXT,             -- JSON StatusRules
+    agent_token_hash TEXT
+  )`,
+  // JSON array of node ids
+  `ALTER TABLE nodes ADD COLUMN depends_on TEXT`,
+  `ALTER TABLE nodes ADD COLUMN metrics_url TEXT`,
+  // JSON array of tags
+  `ALTER TABLE nodes ADD COLUMN tags TEXT`,
+];
+
+type NodeRow = {
+  id: string;
+  name: string;
+  ip: string;
+  lat: number | null;
+  lng: number | null;
+  region: string;
+  status: NodeRecord['status'];
+  check_spec: string | null;
+  rules: string | null;
+  agent_token_hash: string | null;
+  depends_on: string | null;
+  metrics_url: string | null;
+  tags: string | null;
+};
+
+const fromRow = (row: NodeRow): NodeRecord => {
+  const node: NodeRecord = {
+    id: row.id,
+    name: row.name,
+    ip: row.ip,
+    lat: row.lat,
+    lng: row.lng,
+    region: row.region,
+    status: row.status,
+  };
+  if (row.check_spec) node.check = JSON.parse(row.check_spec);
+  if (row.rules) node.rules = JSON.parse(row.rules);
+  if (row.agent_token_hash) node.agentTokenHash = row.agent_token_hash;
+  if (row.depends_on) node.dependsOn = JSON.parse(row.depends_on);
+  if (row.metrics_url) node.metricsUrl = row.metrics_url;
+  if (row.tags) node.tags = JSON.parse(row.tags);
+  return node;
+};
+
+const toRow = (node: NodeRecord): NodeRow => ({
+  id: node.id,
+  name: node.name,
+  ip: node.ip,
+  lat: node.lat,
+  lng: node.lng,
+  region: node.region,
+  status: node.status,
+  check_spec: node.check ? JSON.stringify(node.check) : null,
+  rules: node.rules ? JSON.stringify(node.rules) : null,
+  agent_token_hash: node.agentTokenHash ?? null,
+  depends_on: node.dependsOn?.length ? JSON.stringify(node.dependsOn) : null,
+  metrics_url: node.metricsUrl ?? null,
+  tags: node.tags?.length ? JSON.stringify(node.tags) : null,
+});
+
+const migrate = (db: Database.Database) => {
+  const version = db.pragma('user_version', { simple: true }) as number;
+  if (version > MIGRATIONS.length) {
+    throw new Error(`Database schema version ${version} is newer than this build supports (${MIGRATIONS.length})`);
+  }
+  db.transaction(() => {
+    for (let v = version; v < MIGRATIONS.length; v++) db.exec(MIGRATIONS[v]);
+    db.pragma(`user_version = ${MIGRATIONS.length}`);
+  })();
+};
+
+// Stores nodes in SQLite via better-sqlite3, which is loaded only when this backend is selected.
+// Statements are synchronous, so each operation is atomic within the process and WAL mode
+// keeps readers from blocking the writer across processes.
+export function createSqliteNodeRepository(file: string): NodeRepository {
+  let opened: Promise<Database.Database> | null = null;
+
+  const open = () => opened ??= (async () => {
+    const { default: BetterSqlite3 } = await import('better-sqlite3');
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new BetterSqlite3(file);
+    db.pragma('journal_mode = WAL');
+    db.pragma('busy_timeout = 5000');
+    migrate(db);
+    return db;
+  })();
+
+  const FIELDS = ['id', 'name', 'ip', 'lat', 'lng', 'region', 'status', 'check_spec', 'rules', 'agent_token_hash', 'depends_on', 'metrics_url', 'tags'];
+  const COLUMNS = FIELDS.join(', ');
+  const VALUES = FIELDS.map(f => `@${f}`).join(', ');
+  const ASSIGNMENTS = FIELDS.slice(1).map(f => `${f} = @${f}`).join(', ');
+
+  return {
+    async list() {
+      const db = await open();
+      return (db.prepare(`SELECT ${COLUMNS} FROM nodes ORDER BY rowid`).all() as NodeRow[]).map(fromRow);
+    },
+
+    async get(id) {
+      const db = await open();
+      const row = db.prepare(`SELECT ${COLUMNS} FROM nodes WHERE id = ?`).get(id) as NodeRow | undefined;
+      return row ? fromRow(row) : null;
+    },
+
+    async create(node) {
+      const db = await open();
+      db.prepare(`INSERT INTO nodes (${COLUMNS}) VALUES (${VALUES})`).run(toRow(node));
+      return node;
+    },
+
+    async update(id, patch) {
+      const db = await open();
+      return db.transaction(() => {
+        const row = db.prepare(`SELECT ${COLUMNS} FROM nodes WHERE id = ?`).get(id) as NodeRow | undefined;
+        if (!row) return null;
+        const updated = { ...fromRow(row), ...patch, id };
+        db.prepare(`UPDATE nodes SET ${ASSIGNMENTS} WHERE id = @id`).run(toRow(updated));
+        return updated;
+      })();
+    },
+
+    async delete(id) {
+      const db = await open();
+      return db.prepare('DELETE FROM nodes WHERE id = ?').run(id).changes > 0;
+    },
+
+    async batch({ create, update }) {
+      const db = await open();
+      const insert = db.prepare(`INSERT INTO nodes (${COLUMNS}) VALUES (${VALUES})`);
+      const select = db.prepare(`SELECT ${COLUMNS} FROM nodes WHERE id = ?`);
+      const save = db.prepare(`UPDATE nodes SET ${ASSIGNMENTS} WHERE id = @id`);
+      db.transaction(() => {
+        for (const node of create) insert.run(toRow(node));
+        for (const { id, patch } of update) {
+          const row = select.get(id) as NodeRow | undefined;
+          if (row) save.run(toRow({ ...fromRow(row), ...patch, id }));
+        }
+      })();
+    },
+  };
+}
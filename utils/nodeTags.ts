@@ -0,0 +1,25 @@
+// Free-form labels on nodes, usually key:value like env:prod, team:payments or role:db.
+// Kept free of Node imports so the dashboard can share the helpers.
+
+export const MAX_TAGS = 20;
+
+// Lowercase so matching and grouping never depend on how a tag was typed
+const TAG_PATTERN = /^[a-z0-9][a-z0-9_.:/-]{0,63}$/;
+
+// The part before the first colon: "env" for env:prod, the whole tag for a plain label
+export const tagKey = (tag: string) => (tag.includes(':') ? tag.slice(0, tag.indexOf(':')) : tag);
+
+// The part after the first colon, or null for a plain label
+export const tagValue = (tag: string) => (tag.includes(':') ? tag.slice(tag.indexOf(':') + 1) : null);
+
+// "env:prod, team:payments role:db" -> ["env:prod", "team:payments", "role:db"]
+export const splitTags = (text: string) => text.split(/[\s,;]+/).map(t => t.trim().toLowerCase()).filter(Boolean);
+
+export function validateTags(input: unknown): { error: string } | { tags: string[] } {
+  if (!Array.isArray(input) || !input.every(t => typeof t === 'string')) return { error: 'Tags must be a list of strings' };
+  const tags = [...new Set((input as string[]).map(t => t.trim().toLowerCase()).filter(Boolean))];
+  const invalid = tags.find(t => !TAG_PATTERN.test(t));
+  if (invalid) return { error: `Invalid tag "${invalid}": use letters, digits and _ . : / -, at most 64 characters` };
+  if (tags.length > MAX_TAGS) return { error: `A node can have at most ${MAX_TAGS} tags` };
+  return { tags };
+}
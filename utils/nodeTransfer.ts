@@ -0,0 +1,473 @@
+import { validateNodePatch, NodeInput, NodePatch, NodeRecord } from './nodeStore';
+import { DEFAULT_PORTS } from './checkSpec';
+import { parseCsv, formatCsv, unguardFormula } from './csv';
+import { parseYaml, toYaml } from './yaml';
+import { splitTags } from './nodeTags';
+
+// Bulk import and export of nodes. Every format maps onto the same fields; CSV columns,
+// file_sd labels and Ansible host variables use the flat names in FLAT_FIELDS.
+
+export const NODE_FORMATS = ['csv', 'json', 'yaml', 'file_sd', 'ansible'] as const;
+export type NodeFormat = typeof NODE_FORMATS[number];
+
+export const MAX_IMPORT_ROWS = 5000;
+
+// One node as read from an import file
+export type ImportRow = {
+  row: number;               // 1-based: the line for CSV and INI files, the entry for JSON, YAML and file_sd
+  input: NodeInput;          // dependsOn holds node names, addresses or ids
+  createDefaults?: NodeInput; // only applied when the row creates a node
+  error?: string;
+};
+
+export type ImportAction = 'create' | 'update' | 'unchanged' | 'conflict' | 'invalid';
+
+export type ImportPlanRow = {
+  row: number;
+  action: ImportAction;
+  name?: string;
+  ip?: string;
+  nodeId?: string;    // the node an update applies to (or that a create made, after applying)
+  changes?: string[]; // fields an update changes
+  error?: string;     // why the row is invalid or conflicts
+};
+
+// What applying a row takes; dependencies on rows that create a node are "row:<n>"
+export type PlannedRow = ImportPlanRow & { patch?: NodePatch; dependsOn?: string[] };
+
+export type ImportSummary = Record<ImportAction, number>;
+
+// --- Flat fields (CSV, file_sd labels, Ansible variables) ---
+
+export const FLAT_FIELDS = [
+  'name', 'ip', 'lat', 'lng', 'region',
+  'check_type', 'check_port', 'check_path', 'check_expect_status', 'check_body_regex', 'check_timeout_ms', 'check_interval_sec',
+  'depends_on', 'metrics_url', 'tags',
+];
+
+const CHECK_FIELDS: [string, string][] = [
+  ['check_type', 'type'],
+  ['check_port', 'port'],
+  ['check_path', 'path'],
+  ['check_expect_status', 'expectStatus'],
+  ['check_body_regex', 'bodyRegex'],
+  ['check_timeout_ms', 'timeoutMs'],
+  ['check_interval_sec', 'intervalSec'],
+];
+
+// Blank values mean "not given", so an update leaves those fields alone
+const fromFlat = (fields: Record<string, string | undefined>): NodeInput => {
+  const value = (...keys: string[]) => keys.map(k => fields[k]?.trim()).find(v => v);
+  const input: NodeInput = {
+    name: value('name'),
+    ip: value('ip', 'address', 'host'),
+    lat: value('lat', 'latitude'),
+    lng: value('lng', 'lon', 'longitude'),
+    region: value('region'),
+  };
+  const check = Object.fromEntries(CHECK_FIELDS.flatMap(([flat, key]) => (value(flat) ? [[key, value(flat)]] : [])));
+  if (Object.keys(check).length > 0) input.check = check;
+  const dependsOn = value('depends_on');
+  if (dependsOn) input.dependsOn = dependsOn.split(/[;|]/).map(d => d.trim()).filter(Boolean);
+  const metricsUrl = value('metrics_url');
+  if (metricsUrl) input.metricsUrl = metricsUrl;
+  const tags = value('tags');
+  if (tags) input.tags = splitTags(tags);
+  return input;
+};
+
+const toFlat = (node: NodeRecord, nameOf: (id: string) => string): Record<string, string> => {
+  const check = (node.check ?? {}) as Record<string, unknown>;
+  return {
+    name: node.name,
+    ip: node.ip,
+    lat: node.lat != null ? String(node.lat) : '',
+    lng: node.lng != null ? String(node.lng) : '',
+    region: node.region,
+    ...Object.fromEntries(CHECK_FIELDS.map(([flat, key]) => [flat, check[key] !== undefined ? String(check[key]) : ''])),
+    depends_on: (node.dependsOn ?? []).map(nameOf).join(';'),
+    metrics_url: node.metricsUrl ?? '',
+    tags: (node.tags ?? []).join(';'),
+  };
+};
+
+// --- Structured nodes (JSON, YAML) ---
+
+// Dependencies are exported by name so the file still makes sense on another instance
+const toPortable = (node: NodeRecord, nameOf: (id: string) => string) => ({
+  name: node.name,
+  ip: node.ip,
+  lat: node.lat,
+  lng: node.lng,
+  region: node.region,
+  check: node.check,
+  rules: node.rules,
+  dependsOn: node.dependsOn?.length ? node.dependsOn.map(nameOf) : undefined,
+  metricsUrl: node.metricsUrl,
+  tags: node.tags?.length ? node.tags : undefined,
+});
+
+const fromStructured = (raw: unknown, row: number): ImportRow => {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) return { row, input: {}, error: 'Expected a node object' };
+  const item = raw as Record<string, unknown>;
+  return {
+    row,
+    input: {
+      name: item.name,
+      ip: item.ip ?? item.address,
+      lat: item.lat ?? item.latitude,
+      lng: item.lng ?? item.lon ?? item.longitude,
+      region: item.region,
+      check: item.check,
+      rules: item.rules,
+      dependsOn: item.dependsOn,
+      metricsUrl: item.metricsUrl,
+      tags: item.tags,
+    },
+  };
+};
+
+// A top-level list, or { nodes: [...] }
+const structuredList = (value: unknown): unknown[] | null => {
+  if (Array.isArray(value)) return value;
+  if (typeof value === 'object' && value !== null && Array.isArray((value as { nodes?: unknown }).nodes)) {
+    return (value as { nodes: unknown[] }).nodes;
+  }
+  return null;
+};
+
+// --- Prometheus file_sd ---
+
+type FileSdGroup = { targets: string[]; labels?: Record<string, string> };
+
+const isFileSd = (value: unknown): value is FileSdGroup[] =>
+  Array.isArray(value) && value.length > 0 && value.every(g => typeof g === 'object' && g !== null && Array.isArray((g as FileSdGroup).targets));
+
+// "host:port", "[v6]:port", or a bare host or IPv6 address
+const parseTarget = (target: string): { host: string; port?: string } => {
+  const bracketed = target.match(/^\[([^\]]+)\](?::(\d+))?$/);
+  if (bracketed) return { host: bracketed[1], port: bracketed[2] };
+  const parts = target.split(':');
+  if (parts.length === 2 && /^\d+$/.test(parts[1])) return { host: parts[0], port: parts[1] };
+  return { host: target };
+};
+
+const fileSdTarget = (node: NodeRecord) => {
+  const check = node.check ?? { type: 'tcp' as const, port: 80 };
+  const port = check.type === 'dns' ? undefined : check.port ?? DEFAULT_PORTS[check.type];
+  const host = node.ip.includes(':') ? `[${node.ip}]` : node.ip;
+  return port ? `${host}:${port}` : node.ip;
+};
+
+// Each target becomes a node. Nodes it creates are named after the host unless the group has
+// a single target and a name label, and checked on the target's port.
+const fromFileSd = (groups: FileSdGroup[]): ImportRow[] => {
+  let row = 0;
+  return groups.flatMap(group => {
+    const labels = group.labels ?? {};
+    return group.targets.map(target => {
+      row++;
+      if (typeof target !== 'string') return { row, input: {}, error: 'Targets must be strings' };
+      const { host, port } = parseTarget(target);
+      const input = fromFlat({ ...labels, ip: host, name: group.targets.length === 1 ? labels.name : undefined });
+      const createDefaults: NodeInput = { name: host, ...(port && !input.check ? { check: { type: 'tcp', port } } : {}) };
+      return { row, input, createDefaults };
+    });
+  });
+};
+
+// --- Ansible INI inventory ---
+
+// Splits "alias key=value key2='quoted value'" on whitespace outside quotes
+const splitInventoryLine = (line: string): string[] => {
+  const tokens: string[] = [];
+  let token = '';
+  let quote: string | null = null;
+  for (const ch of line) {
+    if (quote) {
+      if (ch === quote) quote = null;
+      else token += ch;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (/\s/.test(ch)) {
+      if (token) tokens.push(token);
+      token = '';
+    } else {
+      token += ch;
+    }
+  }
+  if (token) tokens.push(token);
+  return tokens;
+};
+
+const parseVars = (tokens: string[]) => Object.fromEntries(tokens.flatMap(t => {
+  const eq = t.indexOf('=');
+  return eq > 0 ? [[t.slice(0, eq), t.slice(eq + 1)]] : [];
+}));
+
+// Hosts take variables from their groups and the groups' parents. ansible_host is the address
+// (the host alias when missing); nodes a host creates are named after the alias unless a name
+// variable says otherwise, and placed in the region of the host's first group.
+const fromAnsible = (text: string): ImportRow[] => {
+  type Host = { row: number; groups: string[]; vars: Record<string, string>; error?: string };
+  const hosts = new Map<string, Host>();
+  const groupVars = new Map<string, Record<string, string>>();
+  const parents = new Map<string, string[]>();
+  let section = { group: 'ungrouped', kind: 'hosts' };
+
+  text.split(/\r?\n/).forEach((raw, i) => {
+    const line = raw.trim();
+    if (!line || line.startsWith('#') || line.startsWith(';')) return;
+    const header = line.match(/^\[([^\]:]+)(?::(vars|children))?\]$/);
+    if (header) {
+      section = { group: header[1], kind: header[2] ?? 'hosts' };
+      return;
+    }
+    const tokens = splitInventoryLine(line);
+    if (section.kind === 'vars') {
+      groupVars.set(section.group, { ...groupVars.get(section.group), ...parseVars(tokens) });
+    } else if (section.kind === 'children') {
+      parents.set(tokens[0], [...(parents.get(tokens[0]) ?? []), section.group]);
+    } else {
+      const alias = tokens[0];
+      const host = hosts.get(alias) ?? { row: i + 1, groups: [], vars: {} };
+      host.groups.push(section.group);
+      host.vars = { ...host.vars, ...parseVars(tokens.slice(1)) };
+      if (/\[[^\]]*:[^\]]*\]/.test(alias)) host.error = `Host ranges like ${alias} are not supported`;
+      hosts.set(alias, host);
+    }
+  });
+
+  const ancestors = (group: string, seen = new Set<string>()): string[] => {
+    if (seen.has(group)) return [];
+    seen.add(group);
+    return [group, ...(parents.get(group) ?? []).flatMap(p => ancestors(p, seen))];
+  };
+
+  return [...hosts.entries()].map(([alias, host]) => {
+    const groups = [...new Set(['all', ...host.groups.flatMap(g => ancestors(g)).reverse()])];
+    const vars = Object.assign({}, ...groups.map(g => groupVars.get(g) ?? {}), host.vars) as Record<string, string>;
+    const input = fromFlat({ ...vars, ip: vars.ansible_host ?? vars.ip ?? alias });
+    const createDefaults: NodeInput = { name: alias, region: host.groups.find(g => g !== 'ungrouped' && g !== 'all') };
+    return { row: host.row, input, createDefaults, ...(host.error ? { error: host.error } : {}) };
+  });
+};
+
+const inventoryName = (value: string) => {
+  const slug = value.toLowerCase().replace(/[^a-z0-9_]+/g, '_').replace(/^_+|_+$/g, '');
+  return /^[a-z_]/.test(slug) ? slug : `n_${slug}`;
+};
+
+const inventoryValue = (value: string) => (/[\s"'#;=]/.test(value) || value === '' ? `"${value.replace(/"/g, "'")}"` : value);
+
+const toAnsible = (nodes: NodeRecord[], nameOf: (id: string) => string) => {
+  const aliases = new Set<string>();
+  const groups = new Map<string, string[]>();
+  for (const node of nodes) {
+    let alias = inventoryName(node.name);
+    for (let n = 2; aliases.has(alias); n++) alias = `${inventoryName(node.name)}_${n}`;
+    aliases.add(alias);
+    const { ip, ...fields } = toFlat(node, nameOf);
+    const vars = Object.entries({ ansible_host: ip, ...fields }).filter(([, v]) => v !== '').map(([k, v]) => `${k}=${inventoryValue(v)}`);
+    const group = node.region ? inventoryName(node.region) : 'ungrouped';
+    groups.set(group, [...(groups.get(group) ?? []), [alias, ...vars].join(' ')]);
+  }
+  return [...groups.entries()].map(([group, lines]) => `[${group}]\n${lines.join('\n')}\n`).join('\n');
+};
+
+// --- Formats ---
+
+const EXTENSIONS: Record<NodeFormat, string> = { csv: 'csv', json: 'json', yaml: 'yaml', file_sd: 'json', ansible: 'ini' };
+
+const CONTENT_TYPES: Record<NodeFormat, string> = {
+  csv: 'text/csv',
+  json: 'application/json',
+  yaml: 'application/yaml',
+  file_sd: 'application/json',
+  ansible: 'text/plain',
+};
+
+export function exportNodes(nodes: NodeRecord[], format: NodeFormat): { body: string; contentType: string; fileName: string } {
+  const names = new Map(nodes.map(n => [n.id, n.name]));
+  const nameOf = (id: string) => names.get(id) ?? id;
+  let body: string;
+  switch (format) {
+    case 'csv':
+      body = formatCsv(FLAT_FIELDS, nodes.map(n => toFlat(n, nameOf)));
+      break;
+    case 'json':
+      body = `${JSON.stringify(nodes.map(n => toPortable(n, nameOf)), null, 2)}\n`;
+      break;
+    case 'yaml':
+      body = toYaml(nodes.map(n => toPortable(n, nameOf)));
+      break;
+    case 'file_sd':
+      body = `${JSON.stringify(nodes.map(n => {
+        const labels = Object.entries(toFlat(n, nameOf)).filter(([key, v]) => key !== 'ip' && v !== '');
+        return { targets: [fileSdTarget(n)], labels: Object.fromEntries(labels) };
+      }), null, 2)}\n`;
+      break;
+    case 'ansible':
+      body = toAnsible(nodes, nameOf);
+      break;
+  }
+  const suffix = format === 'file_sd' ? '-file-sd' : '';
+  return { body, contentType: CONTENT_TYPES[format], fileName: `opsglobe-nodes${suffix}.${EXTENSIONS[format]}` };
+}
+
+// Picks the format from the file name, or failing that from the content
+export function detectFormat(text: string, fileName = ''): NodeFormat {
+  const ext = fileName.toLowerCase().split('.').pop();
+  if (ext === 'csv') return 'csv';
+  if (ext === 'yml' || ext === 'yaml') return 'yaml';
+  if (ext === 'ini' || ext === 'cfg' || fileName === 'hosts') return 'ansible';
+  try {
+    return isFileSd(JSON.parse(text)) ? 'file_sd' : 'json';
+  } catch {
+    // not JSON
+  }
+  const first = text.split(/\r?\n/).find(l => l.trim() && !l.trim().startsWith('#'))?.trim() ?? '';
+  if (/^\[[^\]]+\]$/.test(first)) return 'ansible';
+  if (/^[\w" ]+(,[\w" ]+)+$/.test(first)) return 'csv';
+  return 'yaml';
+}
+
+// Reads every row of an import file; a file that can't be read at all is an error
+export function parseImport(text: string, format: NodeFormat): { error: string } | { rows: ImportRow[] } {
+  let rows: ImportRow[];
+  try {
+    switch (format) {
+      case 'csv': {
+        const parsed = parseCsv(text);
+        rows = parsed.map(r => ({
+          row: r.line,
+          input: fromFlat(Object.fromEntries(Object.entries(r.fields).map(([k, v]) => [k, unguardFormula(v)]))),
+        }));
+        break;
+      }
+      case 'json':
+      case 'yaml': {
+        const list = structuredList(format === 'json' ? JSON.parse(text) : parseYaml(text));
+        if (!list) return { error: 'Expected a list of nodes, or an object with a "nodes" list' };
+        rows = list.map((item, i) => fromStructured(item, i + 1));
+        break;
+      }
+      case 'file_sd': {
+        const groups = JSON.parse(text);
+        if (!isFileSd(groups)) return { error: 'Expected a file_sd list of { "targets": [...], "labels": {...} } groups' };
+        rows = fromFileSd(groups);
+        break;
+      }
+      case 'ansible':
+        rows = fromAnsible(text);
+        break;
+    }
+  } catch (e) {
+    return { error: `Could not parse ${format} file: ${(e as Error).message}` };
+  }
+  if (rows.length === 0) return { error: 'The file contains no nodes' };
+  if (rows.length > MAX_IMPORT_ROWS) return { error: `At most ${MAX_IMPORT_ROWS} nodes can be imported at once` };
+  return { rows };
+}
+
+// --- Planning ---
+
+const FIELD_KEYS: (keyof Omit<NodePatch, 'dependsOn'>)[] = ['name', 'ip', 'lat', 'lng', 'region', 'check', 'rules', 'metricsUrl', 'tags'];
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+// Decides what each row would do, matching existing nodes by address or name (case-insensitive).
+// A row conflicts when its address and name point at different nodes, or when an earlier row
+// already claimed the same node. Nothing is written.
+export function planImport(rows: ImportRow[], existing: NodeRecord[]): PlannedRow[] {
+  const index = (key: (n: NodeRecord) => string) => {
+    const map = new Map<string, NodeRecord[]>();
+    for (const node of existing) map.set(key(node).toLowerCase(), [...(map.get(key(node).toLowerCase()) ?? []), node]);
+    return map;
+  };
+  const byIp = index(n => n.ip);
+  const byName = index(n => n.name);
+  const claimed = new Map<string, number>();
+
+  const planned: PlannedRow[] = rows.map(row => {
+    if (row.error) return { row: row.row, action: 'invalid', error: row.error };
+    const result = validateNodePatch(row.input);
+    if ('error' in result) return { row: row.row, action: 'invalid', name: String(row.input.name ?? ''), ip: String(row.input.ip ?? ''), error: result.error };
+    const { dependsOn, ...patch } = result.patch;
+    const base = { row: row.row, name: patch.name, ip: patch.ip };
+
+    const ipMatches = patch.ip ? byIp.get(patch.ip.toLowerCase()) ?? [] : [];
+    const nameMatches = patch.name ? byName.get(patch.name.toLowerCase()) ?? [] : [];
+    const matches = [...new Map([...ipMatches, ...nameMatches].map(n => [n.id, n])).values()];
+
+    if (matches.length > 1) {
+      const describe = (nodes: NodeRecord[]) => nodes.map(n => `"${n.name}"`).join(', ');
+      const error = ipMatches.length > 1 ? `Address matches several nodes: ${describe(ipMatches)}`
+        : nameMatches.length > 1 ? `Name matches several nodes: ${describe(nameMatches)}`
+        : `Address matches ${describe(ipMatches)} but name matches ${describe(nameMatches)}`;
+      return { ...base, action: 'conflict', error };
+    }
+
+    const node = matches[0];
+    let created: NodePatch | undefined;
+    if (!node) {
+      const defaults = row.createDefaults ? validateNodePatch(row.createDefaults) : null;
+      if (defaults && 'error' in defaults) return { ...base, action: 'invalid', error: defaults.error };
+      created = { ...defaults?.patch, ...patch };
+      if (!created.name || !created.ip) return { ...base, action: 'invalid', error: 'Name and IP are required for new nodes' };
+    }
+
+    const keys = node ? [`node:${node.id}`] : [`ip:${created!.ip!.toLowerCase()}`, `name:${created!.name!.toLowerCase()}`];
+    const earlier = keys.map(k => claimed.get(k)).find(r => r !== undefined);
+    if (earlier !== undefined) return { ...base, name: base.name ?? created?.name, action: 'conflict', error: `Same node as row ${earlier}` };
+    keys.forEach(k => claimed.set(k, row.row));
+
+    if (!node) return { ...base, name: created!.name, action: 'create', patch: created, dependsOn };
+    const changes = FIELD_KEYS.filter(k => patch[k] !== undefined && !same(patch[k], node[k as keyof NodeRecord]));
+    return { ...base, name: patch.name ?? node.name, ip: patch.ip ?? node.ip, action: 'update', nodeId: node.id, changes, patch, dependsOn };
+  });
+
+  // Dependencies may name existing nodes (by id, name or address) or nodes the file creates.
+  // A row that turns invalid can break the rows depending on it, so repeat until stable.
+  for (let changed = true; changed;) {
+    changed = false;
+    const creates = planned.filter(p => p.action === 'create');
+    const resolve = (ref: string, self: PlannedRow): string | { error: string } => {
+      const key = ref.toLowerCase();
+      const byId = existing.find(n => n.id === ref);
+      const found = byId ? [byId] : [...new Set([...(byName.get(key) ?? []), ...(byIp.get(key) ?? [])])];
+      if (found.length > 1) return { error: `Ambiguous dependency: ${ref}` };
+      if (found.length === 1) return found[0].id === self.nodeId ? { error: 'A node cannot depend on itself' } : found[0].id;
+      const row = creates.find(c => c.name?.toLowerCase() === key || c.ip?.toLowerCase() === key);
+      if (!row) return { error: `Unknown dependency: ${ref}` };
+      return row === self ? { error: 'A node cannot depend on itself' } : `row:${row.row}`;
+    };
+
+    for (const p of planned) {
+      if ((p.action !== 'create' && p.action !== 'update') || !p.patch || !p.dependsOn) continue;
+      const ids = p.dependsOn.map(ref => resolve(ref, p));
+      const failed = ids.find((id): id is { error: string } => typeof id !== 'string');
+      if (failed) {
+        Object.assign(p, { action: 'invalid', error: failed.error, changes: undefined, patch: undefined });
+        changed = true;
+      } else {
+        p.patch.dependsOn = [...new Set(ids as string[])];
+      }
+    }
+  }
+
+  for (const p of planned) {
+    if (p.action !== 'update' || !p.patch) continue;
+    const existingNode = existing.find(n => n.id === p.nodeId)!;
+    const deps = p.patch.dependsOn;
+    if (deps && !same([...deps].sort(), [...(existingNode.dependsOn ?? [])].sort())) p.changes = [...(p.changes ?? []), 'dependsOn'];
+    if (!p.changes?.length) p.action = 'unchanged';
+  }
+  return planned;
+}
+
+export function summarizeImport(rows: ImportPlanRow[]): ImportSummary {
+  const summary: ImportSummary = { create: 0, update: 0, unchanged: 0, conflict: 0, invalid: 0 };
+  for (const row of rows) summary[row.action]++;
+  return summary;
+}
@@ -0,0 +1,49 @@
+import type { AlertChannel } from './alertStore';
+import { sendMail } from './smtp';
+
+export type AlertNotification = {
+  state: 'firing' | 'resolved' | 'test';
+  rule: string;
+  subject: string;  // node name, or the HQ host
+  message: string;
+  value?: number;
+  at: string;       // ISO timestamp
+};
+
+const summarize = (n: AlertNotification) =>
+  `[${n.state.toUpperCase()}] ${n.rule}: ${n.subject} - ${n.message}`;
+
+// Slack and Teams incoming webhooks both render the `text` field; the rest is for generic receivers
+const sendWebhook = async (url: string, n: AlertNotification) => {
+  const res = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ text: summarize(n), ...n }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!res.ok) throw new Error(`Webhook returned HTTP ${res.status}`);
+};
+
+export async function notify(channel: AlertChannel, n: AlertNotification): Promise<void> {
+  if (channel.type === 'webhook') {
+    await sendWebhook(channel.url, n);
+    return;
+  }
+
+  await sendMail(channel.smtp, {
+    from: channel.from,
+    to: channel.to,
+    subject: summarize(n),
+    text: [
+      summarize(n),
+      '',
+      `Rule:    ${n.rule}`,
+      `Subject: ${n.subject}`,
+      `State:   ${n.state}`,
+      ...(n.value !== undefined ? [`Value:   ${n.value}`] : []),
+      `Time:    ${n.at}`,
+      '',
+      '-- OpsGlobe',
+    ].join('\n'),
+  });
+}
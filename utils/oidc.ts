@@ -0,0 +1,142 @@
+import crypto from 'crypto';
+import { Role, ROLES, isRole } from './roles';
+import { signValue, verifyValue } from './auth';
+import { updateAuthStore, User } from './userStore';
+
+// Optional single sign-on (authorization code flow with PKCE). Enabled by OIDC_ISSUER and
+// OIDC_CLIENT_ID; scripts/mock-oidc.mjs is a local stand-in provider for trying it out.
+
+export const OIDC_COOKIE = 'opsglobe_oidc';
+export const OIDC_FLOW_TTL_SEC = 10 * 60;
+
+type Discovery = {
+  issuer: string;
+  authorization_endpoint: string;
+  token_endpoint: string;
+  userinfo_endpoint?: string;
+};
+
+type FlowState = { state: string; nonce: string; verifier: string; redirectUri: string };
+
+export const oidcEnabled = () => Boolean(process.env.OIDC_ISSUER && process.env.OIDC_CLIENT_ID);
+
+let discovery: Promise<Discovery> | null = null;
+
+const discover = () => discovery ??= (async () => {
+  const issuer = process.env.OIDC_ISSUER!.replace(/\/+$/, '');
+  const res = await fetch(`${issuer}/.well-known/openid-configuration`, { signal: AbortSignal.timeout(5000) });
+  if (!res.ok) throw new Error(`OIDC discovery failed: HTTP ${res.status}`);
+  return res.json();
+})().catch(e => {
+  discovery = null; // retry on the next login instead of caching the failure
+  throw e;
+});
+
+const redirectUriFor = (req: Request) =>
+  process.env.OIDC_REDIRECT_URI || new URL('/api/auth/oidc/callback', req.url).toString();
+
+// Returns the provider URL to send the browser to, plus the signed cookie that ties the
+// callback to this browser
+export async function beginOidcLogin(req: Request): Promise<{ url: string; cookie: string }> {
+  const config = await discover();
+  const flow: FlowState = {
+    state: crypto.randomBytes(16).toString('base64url'),
+    nonce: crypto.randomBytes(16).toString('base64url'),
+    verifier: crypto.randomBytes(32).toString('base64url'),
+    redirectUri: redirectUriFor(req),
+  };
+
+  const url = new URL(config.authorization_endpoint);
+  url.search = new URLSearchParams({
+    response_type: 'code',
+    client_id: process.env.OIDC_CLIENT_ID!,
+    redirect_uri: flow.redirectUri,
+    scope: process.env.OIDC_SCOPES || 'openid profile email',
+    state: flow.state,
+    nonce: flow.nonce,
+    code_challenge: crypto.createHash('sha256').update(flow.verifier).digest('base64url'),
+    code_challenge_method: 'S256',
+  }).toString();
+
+  return { url: url.toString(), cookie: await signValue(flow, OIDC_FLOW_TTL_SEC) };
+}
+
+// The ID token comes straight from the token endpoint over TLS, so its claims are trusted
+// without checking the signature (OIDC Core 3.1.3.7); issuer, audience and nonce still are.
+const idTokenClaims = (idToken: string, config: Discovery, nonce: string): Record<string, unknown> => {
+  const claims = JSON.parse(Buffer.from(idToken.split('.')[1] ?? '', 'base64url').toString());
+  const audience = Array.isArray(claims.aud) ? claims.aud : [claims.aud];
+  if (claims.iss !== config.issuer) throw new Error('ID token issuer mismatch');
+  if (!audience.includes(process.env.OIDC_CLIENT_ID)) throw new Error('ID token audience mismatch');
+  if (claims.nonce !== nonce) throw new Error('ID token nonce mismatch');
+  return claims;
+};
+
+// Highest role named in OIDC_ROLE_CLAIM (a string or list), else OIDC_DEFAULT_ROLE
+const roleFromClaims = (claims: Record<string, unknown>): Role => {
+  const raw = claims[process.env.OIDC_ROLE_CLAIM || 'roles'];
+  const values = (Array.isArray(raw) ? raw : [raw]).filter(isRole);
+  if (values.length > 0) return values.reduce((best, r) => (ROLES.indexOf(r) > ROLES.indexOf(best) ? r : best));
+  return isRole(process.env.OIDC_DEFAULT_ROLE) ? process.env.OIDC_DEFAULT_ROLE : 'viewer';
+};
+
+// Exchanges the authorization code and creates or updates the matching user.
+// The role is re-read from the provider on every login.
+export async function completeOidcLogin(req: Request, flowCookie: string | undefined): Promise<User> {
+  const flow = await verifyValue<FlowState>(flowCookie);
+  const params = new URL(req.url).searchParams;
+  if (params.get('error')) throw new Error(`Provider returned ${params.get('error')}`);
+  if (!flow || params.get('state') !== flow.state) throw new Error('Login session expired or state mismatch');
+
+  const config = await discover();
+  const tokenRes = await fetch(config.token_endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+    body: new URLSearchParams({
+      grant_type: 'authorization_code',
+      code: params.get('code') ?? '',
+      redirect_uri: flow.redirectUri,
+      client_id: process.env.OIDC_CLIENT_ID!,
+      client_secret: process.env.OIDC_CLIENT_SECRET ?? '',
+      code_verifier: flow.verifier,
+    }),
+    signal: AbortSignal.timeout(10000),
+  });
+  if (!tokenRes.ok) throw new Error(`Token exchange failed: HTTP ${tokenRes.status}`);
+  const tokens = await tokenRes.json();
+  if (!tokens.id_token) throw new Error('Provider did not return an ID token');
+
+  let claims = idTokenClaims(tokens.id_token, config, flow.nonce);
+  if (config.userinfo_endpoint && tokens.access_token) {
+    const infoRes = await fetch(config.userinfo_endpoint, {
+      headers: { Authorization: `Bearer ${tokens.access_token}` },
+      signal: AbortSignal.timeout(10000),
+    });
+    if (infoRes.ok) {
+      const info = await infoRes.json();
+      if (info.sub === claims.sub) claims = { ...claims, ...info };
+    }
+  }
+
+  const subject = `${config.issuer}|${claims.sub}`;
+  const username = String(claims.preferred_username ?? claims.email ?? claims.sub);
+  const role = roleFromClaims(claims);
+
+  return updateAuthStore(store => {
+    const existing = store.users.find(u => u.oidcSubject === subject);
+    if (existing) {
+      existing.username = username;
+      existing.role = role;
+      return existing;
+    }
+    const user: User = {
+      id: `user_${crypto.randomBytes(6).toString('hex')}`,
+      username,
+      role,
+      oidcSubject: subject,
+      createdAt: new Date().toISOString(),
+    };
+    store.users.push(user);
+    return user;
+  });
+}
@@ -0,0 +1,147 @@
+import net from 'net';
+
+export type PortState = 'open' | 'closed' | 'filtered';
+
+export type PortScanResult = {
+  port: number;
+  state: PortState;   // closed: refused; filtered: no answer before the timeout
+  service?: string;   // identified from the banner, else the well-known name for the port
+  banner?: string;    // first line the service sent, printable characters only
+  latencyMs?: number; // connect time for open ports
+};
+
+export const MAX_SCAN_PORTS = parseInt(process.env.PORT_SCAN_MAX_PORTS || '1024', 10);
+const CONCURRENCY = parseInt(process.env.PORT_SCAN_CONCURRENCY || '50', 10);
+const CONNECT_TIMEOUT_MS = 1500;
+const BANNER_WAIT_MS = 2000;
+const MAX_BANNER = 200;
+
+const WELL_KNOWN: Record<number, string> = {
+  21: 'ftp', 22: 'ssh', 23: 'telnet', 25: 'smtp', 53: 'dns', 80: 'http', 110: 'pop3', 143: 'imap',
+  443: 'https', 465: 'smtps', 587: 'submission', 993: 'imaps', 995: 'pop3s', 1433: 'mssql',
+  1521: 'oracle', 2049: 'nfs', 3306: 'mysql', 3389: 'rdp', 5432: 'postgresql', 5672: 'amqp',
+  5900: 'vnc', 6379: 'redis', 8080: 'http-alt', 8443: 'https-alt', 9090: 'prometheus',
+  9100: 'node_exporter', 9200: 'elasticsearch', 11211: 'memcached', 27017: 'mongodb',
+};
+
+// Services that wait for the client; one short request makes them answer with something identifiable
+const PROBES: Record<number, string> = {
+  80: 'HEAD / HTTP/1.0\r\n\r\n',
+  8000: 'HEAD / HTTP/1.0\r\n\r\n',
+  8080: 'HEAD / HTTP/1.0\r\n\r\n',
+  6379: 'PING\r\n',
+  11211: 'version\r\n',
+};
+
+// Matched against the banner, first match wins
+const SIGNATURES: [RegExp, string][] = [
+  [/^SSH-/, 'ssh'],
+  [/^220[ -].*\bE?SMTP\b/i, 'smtp'],
+  [/^220[ -].*\bFTP\b/i, 'ftp'],
+  [/^220[ -]/, 'ftp/smtp'],
+  [/^\+OK\b/, 'pop3'],
+  [/^\* OK\b/, 'imap'],
+  [/^(\+PONG|-NOAUTH|-ERR\b.*\b(auth|redis)\b|-DENIED)/i, 'redis'],
+  [/^HTTP\/\d/, 'http'],
+  [/^VERSION \d/, 'memcached'],
+  [/^RFB \d/, 'vnc'],
+  [/mysql|mariadb/i, 'mysql'],
+];
+
+// Parses "22,80,443,8000-8100" into a sorted list of unique ports
+export function parsePortSpec(spec: string, max = MAX_SCAN_PORTS): { error: string } | { ports: number[] } {
+  const ports = new Set<number>();
+  for (const part of spec.split(',').map(p => p.trim()).filter(Boolean)) {
+    const match = /^(\d+)(?:\s*-\s*(\d+))?$/.exec(part);
+    if (!match) return { error: `Invalid port or range: ${part}` };
+    const from = parseInt(match[1], 10);
+    const to = match[2] ? parseInt(match[2], 10) : from;
+    if (from < 1 || to > 65535 || from > to) return { error: `Ports must be between 1 and 65535: ${part}` };
+    if (ports.size + (to - from + 1) > max) return { error: `At most ${max} ports can be scanned at once` };
+    for (let port = from; port <= to; port++) ports.add(port);
+  }
+  if (ports.size === 0) return { error: 'No ports given' };
+  return { ports: [...ports].sort((a, b) => a - b) };
+}
+
+export function identifyService(port: number, banner?: string): string | undefined {
+  const match = banner ? SIGNATURES.find(([pattern]) => pattern.test(banner)) : undefined;
+  return match?.[1] ?? WELL_KNOWN[port];
+}
+
+// Keeps the first line; binary handshakes (MySQL, RDP) are reduced to their printable runs
+const cleanBanner = (data: Buffer) => {
+  const text = data.toString('latin1').split(/\r?\n/)[0].replace(/[^\x20-\x7e]+/g, ' ').trim();
+  return text.slice(0, MAX_BANNER) || undefined;
+};
+
+const scanPort = (address: string, port: number, signal?: AbortSignal) => new Promise<PortScanResult>((resolve) => {
+  const socket = new net.Socket();
+  const start = Date.now();
+  let latencyMs: number | undefined;
+  let data = Buffer.alloc(0);
+  let probed = false;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  let settled = false;
+  const finish = (result: Omit<PortScanResult, 'port'>) => {
+    if (settled) return;
+    settled = true;
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', abort);
+    socket.destroy();
+    resolve({ port, ...result });
+  };
+  const open = () => {
+    const banner = data.length > 0 ? cleanBanner(data) : undefined;
+    finish({ state: 'open', latencyMs, banner, service: identifyService(port, banner) });
+  };
+  const abort = () => (latencyMs === undefined ? finish({ state: 'filtered' }) : open());
+  signal?.addEventListener('abort', abort);
+
+  socket.setTimeout(CONNECT_TIMEOUT_MS, () => finish({ state: 'filtered' }));
+  socket.on('connect', () => {
+    latencyMs = Date.now() - start;
+    socket.setTimeout(0);
+    // Give services that speak first (SSH, SMTP, FTP) half the wait, then try a probe
+    timer = setTimeout(() => {
+      if (PROBES[port] && !probed) {
+        probed = true;
+        socket.write(PROBES[port]);
+        timer = setTimeout(open, BANNER_WAIT_MS / 2);
+      } else {
+        open();
+      }
+    }, BANNER_WAIT_MS / 2);
+  });
+  socket.on('data', (chunk: Buffer) => {
+    data = Buffer.concat([data, chunk]);
+    if (data.includes(0x0a) || data.length >= MAX_BANNER) open();
+  });
+  socket.on('end', open);
+  socket.on('error', (err: NodeJS.ErrnoException) => {
+    if (latencyMs !== undefined) open();
+    else finish({ state: err.code === 'ECONNREFUSED' ? 'closed' : 'filtered' });
+  });
+  socket.connect(port, address);
+});
+
+// Scans an already policy-checked address, at most CONCURRENCY ports at a time, and calls
+// onResult as each port finishes. Aborting stops the scan; ports not yet tried are skipped.
+export async function scanPorts(
+  address: string,
+  ports: number[],
+  { signal, onResult }: { signal?: AbortSignal; onResult: (result: PortScanResult) => void }
+): Promise<PortScanResult[]> {
+  const queue = [...ports];
+  const results: PortScanResult[] = [];
+  const worker = async () => {
+    for (let port = queue.shift(); port !== undefined && !signal?.aborted; port = queue.shift()) {
+      const result = await scanPort(address, port, signal);
+      results.push(result);
+      onResult(result);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(CONCURRENCY, ports.length) }, worker));
+  return results.sort((a, b) => a.port - b.port);
+}
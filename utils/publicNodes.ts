@@ -0,0 +1,18 @@
+// Well-known public resolvers shown on the globe next to the registered nodes.
+// Shared with the API so tools can be run against them by node id.
+
+export type PublicNode = {
+  id: string;
+  name: string;
+  ip: string;
+  location: string;
+  lat: number;
+  lon: number;
+  region: string;
+};
+
+export const PUBLIC_NODES: PublicNode[] = [
+  { id: 'goog', name: 'Google DNS', ip: '8.8.8.8', location: 'Global Anycast', lat: 37.422, lon: -122.084, region: 'Global' },
+  { id: 'cf', name: 'Cloudflare', ip: '1.1.1.1', location: 'Global Anycast', lat: 37.7749, lon: -122.4194, region: 'Global' },
+  { id: 'q9', name: 'Quad9', ip: '9.9.9.9', location: 'Zurich, CH', lat: 47.3769, lon: 8.5417, region: 'EU-Central' },
+];
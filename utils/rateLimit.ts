@@ -0,0 +1,76 @@
+import http from 'http';
+import https from 'https';
+import { normalizeIp } from './ipRanges';
+
+// In-memory token buckets keyed by user or client IP. Per process, which is enough for
+// a single OpsGlobe instance; limits reset on restart.
+
+type Bucket = { tokens: number; updatedAt: number };
+
+const globalForLimits = globalThis as unknown as { __opsglobeRateLimits?: Map<string, Bucket> };
+
+const buckets: Map<string, Bucket> = globalForLimits.__opsglobeRateLimits ??= new Map();
+
+const PRUNE_AT = 10000;
+
+// Allows `limit` requests per `windowMs`, refilling continuously, so bursts up to the limit
+// pass and sustained traffic is held to the average rate
+export function takeToken(key: string, limit: number, windowMs: number): { ok: true } | { ok: false; retryAfterSec: number } {
+  const now = Date.now();
+  const rate = limit / windowMs;
+  const bucket = buckets.get(key) ?? { tokens: limit, updatedAt: now };
+  bucket.tokens = Math.min(limit, bucket.tokens + (now - bucket.updatedAt) * rate);
+  bucket.updatedAt = now;
+
+  if (buckets.size > PRUNE_AT) {
+    // Full buckets carry no state worth keeping
+    for (const [k, b] of buckets) if (b.tokens + (now - b.updatedAt) * rate >= limit) buckets.delete(k);
+  }
+
+  if (bucket.tokens < 1) {
+    buckets.set(key, bucket);
+    return { ok: false, retryAfterSec: Math.ceil((1 - bucket.tokens) / rate / 1000) };
+  }
+  bucket.tokens -= 1;
+  buckets.set(key, bucket);
+  return { ok: true };
+}
+
+// Route handlers never see the socket, and Next.js only fills in x-forwarded-for when the
+// client didn't send one, so that header can't tell us who connected. Instead every request
+// is stamped with the socket's peer address under our own header, replacing whatever a
+// client put there. Called once from instrumentation.
+const PEER_HEADER = 'x-opsglobe-peer';
+
+const globalForPeers = globalThis as unknown as { __opsglobePeerHeader?: boolean };
+
+export function recordPeerAddresses() {
+  if (globalForPeers.__opsglobePeerHeader) return;
+  globalForPeers.__opsglobePeerHeader = true;
+  for (const proto of [http.Server.prototype, https.Server.prototype]) {
+    const emit = proto.emit;
+    proto.emit = function (this: http.Server, event: string | symbol, ...args: unknown[]) {
+      if (event === 'request') {
+        const req = args[0] as http.IncomingMessage;
+        req.headers[PEER_HEADER] = req.socket.remoteAddress ? normalizeIp(req.socket.remoteAddress) : '';
+      }
+      return emit.apply(this, [event, ...args] as Parameters<typeof emit>);
+    } as typeof proto.emit;
+  }
+}
+
+// The address of the closest untrusted hop. With TRUSTED_PROXIES=0 (the default) that is the
+// peer itself and forwarding headers are ignored, since any client can send them. Otherwise
+// the proxies' x-forwarded-for entries plus the peer form the chain, and the last
+// TRUSTED_PROXIES hops are skipped.
+export function clientIp(req: Request): string {
+  // Without the stamp (e.g. another runtime) the header could come from the client
+  const peer = (globalForPeers.__opsglobePeerHeader && req.headers.get(PEER_HEADER)) || null;
+  const trusted = parseInt(process.env.TRUSTED_PROXIES || '0', 10);
+  if (!(trusted > 0)) return peer ?? 'unknown';
+
+  const hops = (req.headers.get('x-forwarded-for') ?? '').split(',').map(s => s.trim()).filter(Boolean);
+  if (hops.length === 0) return req.headers.get('x-real-ip') ?? peer ?? 'unknown';
+  const chain = peer ? [...hops, peer] : hops;
+  return chain[Math.max(0, chain.length - 1 - trusted)];
+}
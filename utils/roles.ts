@@ -0,0 +1,8 @@
+// Client-safe role definitions; each role can do everything the ones before it can
+export type Role = 'viewer' | 'operator' | 'admin';
+
+export const ROLES: Role[] = ['viewer', 'operator', 'admin'];
+
+export const isRole = (value: unknown): value is Role => ROLES.includes(value as Role);
+
+export const hasRole = (role: Role, required: Role) => ROLES.indexOf(role) >= ROLES.indexOf(required);
@@ -0,0 +1,203 @@
+import { nodeRepository, NodeRecord, ServerStatus } from './nodeStore';
+import { runCheck } from './checks';
+import { DEFAULT_INTERVAL_SEC } from './checkSpec';
+import { recordProbe, compactHistory, deleteHistory } from './history';
+import { deriveStatus, StatusState, usageWarnings } from './statusRules';
+import { evaluateAlerts } from './alerts';
+import { sweepCertificates } from './certInventory';
+import { publish } from './liveUpdates';
+import { getAgentReport, forgetAgent } from './agents';
+import { deleteToolRuns } from './toolRuns';
+import { forgetExporter, getExporterMetrics, scrapeDueExporters } from './nodeExporter';
+
+export type ProbeResult = {
+  status: ServerStatus;
+  latency: number | null;
+  error?: string;
+  checkedAt: string; // ISO timestamp
+  durationMs: number; // how long the whole check took, timeouts included
+  flapping: boolean;
+};
+
+const TICK_MS = 1000;
+const DEFAULT_CONCURRENCY = 8;
+const configuredConcurrency = Number(process.env.PROBE_CONCURRENCY);
+// A typo in PROBE_CONCURRENCY must not switch the limit off
+const MAX_CONCURRENCY = Number.isInteger(configuredConcurrency) && configuredConcurrency > 0 ? configuredConcurrency : DEFAULT_CONCURRENCY;
+const JITTER = 0.1; // +/-10% of the interval, so nodes added together don't probe in lockstep
+const COMPACT_EVERY_MS = 60 * 60 * 1000;
+const ALERT_EVAL_MS = 15 * 1000;
+const CERT_SWEEP_MS = 60 * 1000; // only stale inventory entries are re-checked
+
+type SchedulerState = {
+  timer: NodeJS.Timeout | null;
+  results: Map<string, ProbeResult>;
+  statusState: Map<string, StatusState>;
+  nextRun: Map<string, number>;
+  running: Set<string>;
+  lastCompaction: number;
+  lastAlertEval: number;
+  lastCertSweep: number;
+};
+
+// Route handlers and instrumentation can end up with separate copies of this module,
+// so the state lives on globalThis to guarantee a single scheduler per process.
+const globalForScheduler = globalThis as unknown as { __opsglobeScheduler?: SchedulerState };
+
+const state: SchedulerState = globalForScheduler.__opsglobeScheduler ??= {
+  timer: null,
+  results: new Map(),
+  statusState: new Map(),
+  nextRun: new Map(),
+  running: new Set(),
+  lastCompaction: 0,
+  lastAlertEval: 0,
+  lastCertSweep: 0,
+};
+
+const intervalMs = (node: NodeRecord) => {
+  const sec = node.check?.intervalSec ?? parseInt(process.env.PROBE_INTERVAL_SEC || String(DEFAULT_INTERVAL_SEC), 10);
+  return sec * 1000;
+};
+
+const withJitter = (ms: number) => ms * (1 + (Math.random() * 2 - 1) * JITTER);
+
+const probe = async (node: NodeRecord) => {
+  state.running.add(node.id);
+  try {
+    const started = Date.now();
+    const result = await runCheck(node.ip, node.check);
+    // Drop the result if the node was deleted or reset while the probe was in flight
+    if (!state.nextRun.has(node.id)) return;
+    const now = Date.now();
+    const derived = deriveStatus(state.statusState.get(node.id), result, node.rules);
+    state.statusState.set(node.id, derived);
+    state.results.set(node.id, {
+      status: derived.status,
+      latency: result.latency,
+      error: result.error,
+      checkedAt: new Date(now).toISOString(),
+      durationMs: now - started,
+      flapping: derived.flapping,
+    });
+    publish({ type: 'node', data: withProbeResult(node) });
+    await recordProbe(node.id, { t: now, status: derived.status, latency: result.latency, error: result.error });
+  } catch (e) {
+    console.error(`Probe failed for ${node.id}:`, e);
+  } finally {
+    state.running.delete(node.id);
+  }
+};
+
+const tick = async () => {
+  let nodes: NodeRecord[];
+  try {
+    nodes = await nodeRepository().list();
+  } catch (e) {
+    console.error("Scheduler could not read nodes:", e);
+    return;
+  }
+
+  const now = Date.now();
+  const ids = new Set(nodes.map(n => n.id));
+
+  // Forget nodes that were deleted
+  for (const id of state.nextRun.keys()) {
+    if (!ids.has(id)) {
+      state.nextRun.delete(id);
+      state.results.delete(id);
+      state.statusState.delete(id);
+      forgetAgent(id);
+      forgetExporter(id);
+      void deleteHistory(id);
+      void deleteToolRuns(id);
+    }
+  }
+
+  if (now - state.lastCompaction > COMPACT_EVERY_MS) {
+    state.lastCompaction = now;
+    for (const node of nodes) void compactHistory(node.id).catch(e => console.error(`History compaction failed for ${node.id}:`, e));
+  }
+
+  if (now - state.lastAlertEval > ALERT_EVAL_MS) {
+    state.lastAlertEval = now;
+    void evaluateAlerts(nodes.map(node => ({
+      node,
+      probe: state.results.get(node.id),
+      failures: state.statusState.get(node.id)?.failures ?? 0,
+    })));
+  }
+
+  if (now - state.lastCertSweep > CERT_SWEEP_MS) {
+    state.lastCertSweep = now;
+    void sweepCertificates(nodes).catch(e => console.error("Certificate sweep failed:", e));
+  }
+
+  scrapeDueExporters(nodes, node => publish({ type: 'node', data: withProbeResult(node) }));
+
+  // New nodes: probe soon, spread over the first couple of ticks. Scheduled before the
+  // concurrency check below so a busy tick can't leave them without a slot.
+  for (const node of nodes) {
+    if (!state.nextRun.has(node.id)) state.nextRun.set(node.id, now + Math.random() * 2 * TICK_MS);
+  }
+
+  for (const node of nodes) {
+    if (state.running.size >= MAX_CONCURRENCY) continue;
+    if (state.running.has(node.id) || now < state.nextRun.get(node.id)!) continue;
+
+    state.nextRun.set(node.id, now + withJitter(intervalMs(node)));
+    void probe(node);
+  }
+};
+
+// Starts the background probe loop once per process. Safe to call repeatedly.
+export function ensureScheduler() {
+  if (state.timer) return;
+  state.timer = setInterval(() => void tick(), TICK_MS);
+  state.timer.unref?.();
+  void tick();
+}
+
+// The latest probe of a node, or undefined before its first probe finished
+export function getProbeResult(id: string): ProbeResult | undefined {
+  return state.results.get(id);
+}
+
+// Discards the cached result and probes again on the next tick, e.g. after the check changed
+export function resetProbe(id: string) {
+  state.results.delete(id);
+  state.statusState.delete(id);
+  state.nextRun.delete(id);
+}
+
+// Merges the latest cached probe, agent and exporter metrics into a stored node for API responses.
+// A reachable node whose exporter reports usage over its threshold is shown as a warning.
+export function withProbeResult(node: NodeRecord) {
+  const probe = state.results.get(node.id);
+  const { agentTokenHash, ...rest } = node;
+  const exporter = node.metricsUrl ? getExporterMetrics(node.id) : null;
+  const usage = exporter && !exporter.error ? usageWarnings(exporter, node.rules) : [];
+  const status = probe?.status ?? node.status;
+  return {
+    ...rest,
+    status: status === 'online' && usage.length > 0 ? 'warning' as const : status,
+    usageWarnings: usage,
+    latency: probe?.latency ?? null,
+    error: probe?.error,
+    checkedAt: probe?.checkedAt ?? null,
+    flapping: probe?.flapping ?? false,
+    agentEnabled: Boolean(agentTokenHash),
+    agent: agentTokenHash ? getAgentReport(node.id) : null,
+    exporter,
+  };
+}
+
+// Pushes the full node list to live clients after nodes were added, edited or removed
+export async function publishNodes() {
+  try {
+    const nodes = await nodeRepository().list();
+    publish({ type: 'nodes', data: nodes.map(withProbeResult) });
+  } catch (e) {
+    console.error("Could not publish node list:", e);
+  }
+}
@@ -0,0 +1,140 @@
+import net from 'net';
+import tls from 'tls';
+import os from 'os';
+
+export type SmtpConfig = {
+  host: string;
+  port: number;
+  secure?: boolean;    // implicit TLS (usually port 465); otherwise STARTTLS is used when offered
+  user?: string;
+  pass?: string;
+};
+
+export type MailMessage = {
+  from: string;
+  to: string[];
+  subject: string;
+  text: string;
+};
+
+const TIMEOUT_MS = 10000;        // idle time between server replies
+const DEADLINE_MS = 60000;       // the whole exchange, so a server trickling replies can't stall alerting
+
+// Reads complete SMTP replies ("250-..." continuation lines up to "250 ...") from a socket.
+// Once the socket fails or closes, pending and later reads reject instead of waiting forever.
+const createReader = (socket: net.Socket) => {
+  let buffer = '';
+  let lines: string[] = [];
+  let waiting: { resolve: (reply: { code: number; text: string }) => void; reject: (err: Error) => void } | null = null;
+  let failure: Error | null = null;
+  const queued: { code: number; text: string }[] = [];
+
+  const fail = (err: Error) => {
+    failure ??= err;
+    waiting?.reject(failure);
+    waiting = null;
+  };
+  const onClose = () => fail(new Error('SMTP server closed the connection'));
+
+  const onData = (chunk: Buffer) => {
+    buffer += chunk.toString('utf-8');
+    let idx;
+    while ((idx = buffer.indexOf('\r\n')) !== -1) {
+      const line = buffer.slice(0, idx);
+      buffer = buffer.slice(idx + 2);
+      lines.push(line);
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3), 10), text: lines.map(l => l.slice(4)).join('\n') };
+        lines = [];
+        if (waiting) {
+          waiting.resolve(reply);
+          waiting = null;
+        } else {
+          queued.push(reply);
+        }
+      }
+    }
+  };
+  socket.on('data', onData);
+  socket.on('error', fail);
+  socket.on('end', onClose);
+  socket.on('close', onClose);
+
+  return {
+    read: () => new Promise<{ code: number; text: string }>((resolve, reject) => {
+      const next = queued.shift();
+      if (next) resolve(next);
+      else if (failure) reject(failure);
+      else waiting = { resolve, reject };
+    }),
+    detach: () => {
+      socket.off('data', onData);
+      socket.off('error', fail);
+      socket.off('end', onClose);
+      socket.off('close', onClose);
+    },
+  };
+};
+
+const dotStuff = (text: string) => text.replace(/\r?\n/g, '\r\n').replace(/^\./gm, '..');
+
+// Minimal SMTP client: enough to deliver plain-text alerts to a relay or a local sink
+export async function sendMail(config: SmtpConfig, message: MailMessage): Promise<void> {
+  let socket: net.Socket = config.secure
+    ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+    : net.connect({ host: config.host, port: config.port });
+
+  let reader = createReader(socket);
+  socket.setTimeout(TIMEOUT_MS, () => socket.destroy(new Error('SMTP timeout')));
+  const deadline = setTimeout(() => socket.destroy(new Error(`SMTP exchange took longer than ${DEADLINE_MS / 1000}s`)), DEADLINE_MS);
+
+  const command = async (line: string | null, expect: number[]) => {
+    if (line !== null) socket.write(`${line}\r\n`);
+    const reply = await reader.read();
+    if (!expect.includes(reply.code)) {
+      throw new Error(`SMTP ${line?.split(' ')[0] ?? 'greeting'} failed: ${reply.code} ${reply.text}`);
+    }
+    return reply;
+  };
+
+  try {
+    await command(null, [220]);
+    let ehlo = await command(`EHLO ${os.hostname()}`, [250]);
+
+    if (!config.secure && /^STARTTLS$/im.test(ehlo.text)) {
+      await command('STARTTLS', [220]);
+      reader.detach();
+      socket = await new Promise<tls.TLSSocket>((resolve, reject) => {
+        const secured = tls.connect({ socket, servername: config.host }, () => resolve(secured));
+        secured.once('error', reject);
+      });
+      reader = createReader(socket);
+      ehlo = await command(`EHLO ${os.hostname()}`, [250]);
+    }
+
+    if (config.user) {
+      const token = Buffer.from(`\0${config.user}\0${config.pass ?? ''}`).toString('base64');
+      await command(`AUTH PLAIN ${token}`, [235]);
+    }
+
+    await command(`MAIL FROM:<${message.from}>`, [250]);
+    for (const rcpt of message.to) {
+      await command(`RCPT TO:<${rcpt}>`, [250, 251]);
+    }
+    await command('DATA', [354]);
+
+    const headers = [
+      `From: ${message.from}`,
+      `To: ${message.to.join(', ')}`,
+      `Subject: ${message.subject.replace(/[\r\n]+/g, ' ')}`,
+      `Date: ${new Date().toUTCString()}`,
+      'MIME-Version: 1.0',
+      'Content-Type: text/plain; charset=utf-8',
+    ];
+    await command(`${headers.join('\r\n')}\r\n\r\n${dotStuff(message.text)}\r\n.`, [250]);
+    await command('QUIT', [221]).catch(() => undefined);
+  } finally {
+    clearTimeout(deadline);
+    socket.destroy();
+  }
+}
@@ -0,0 +1,141 @@
+// Turns raw probe outcomes into a displayed status. Kept free of Node imports
+// so the dashboard can share the rule types and defaults.
+
+export type ServerStatus = 'online' | 'warning' | 'error' | 'offline';
+
+export type StatusRules = {
+  latencyWarnMs?: number;      // successful probes slower than this are a warning
+  failuresToError?: number;    // consecutive failures before showing error
+  failuresToOffline?: number;  // consecutive failures before showing offline
+  usageWarnPercent?: number;   // exporter CPU, memory or disk usage above this is a warning
+};
+
+export const DEFAULT_RULES: Required<StatusRules> = {
+  latencyWarnMs: 500,
+  failuresToError: 1,
+  failuresToOffline: 3,
+  usageWarnPercent: 90,
+};
+
+// Latency has to drop this far below the threshold before a warning clears
+const LATENCY_HYSTERESIS = 0.8;
+// Samples a better status must hold before we switch back to it
+const RECOVER_AFTER = 2;
+// Flap detection over the last FLAP_WINDOW candidate statuses
+const FLAP_WINDOW = 10;
+const FLAP_ENTER = 4; // up/down changes in the window that mark a node as flapping
+const FLAP_EXIT = 2;
+const FLAP_HOLD = 3;  // while flapping, any change must hold this many samples
+
+export const STATUS_RANK: Record<ServerStatus, number> = { online: 0, warning: 1, error: 2, offline: 3 };
+
+export type StatusState = {
+  status: ServerStatus;
+  failures: number;
+  recent: ServerStatus[];
+  flapping: boolean;
+};
+
+export type ProbeOutcome = {
+  ok: boolean;
+  latency: number | null;
+  httpStatus?: number;
+};
+
+// The more severe of two statuses, e.g. for a link or a group of nodes
+export const worseStatus = (a: ServerStatus, b: ServerStatus) => (STATUS_RANK[a] >= STATUS_RANK[b] ? a : b);
+
+const isUp = (status: ServerStatus) => status === 'online' || status === 'warning';
+
+// Only up/down changes count, so a single outage and recovery is not flapping
+const countTransitions = (recent: ServerStatus[]) =>
+  recent.reduce((n, s, i) => (i > 0 && isUp(s) !== isUp(recent[i - 1]) ? n + 1 : n), 0);
+
+const trailingRun = (recent: ServerStatus[]) => {
+  let run = 0;
+  for (let i = recent.length - 1; i >= 0 && recent[i] === recent[recent.length - 1]; i--) run++;
+  return run;
+};
+
+// Computes the next status for a node from its previous state and the latest probe
+export function deriveStatus(prev: StatusState | undefined, outcome: ProbeOutcome, rules: StatusRules = {}): StatusState {
+  const r = { ...DEFAULT_RULES, ...rules };
+  const failures = outcome.ok ? 0 : (prev?.failures ?? 0) + 1;
+
+  let candidate: ServerStatus;
+  if (!outcome.ok) {
+    if (failures >= r.failuresToOffline) candidate = 'offline';
+    else if (failures >= r.failuresToError || (outcome.httpStatus ?? 0) >= 500) candidate = 'error';
+    else candidate = prev?.status ?? 'offline';
+  } else {
+    const warnAt = prev?.status === 'warning' ? r.latencyWarnMs * LATENCY_HYSTERESIS : r.latencyWarnMs;
+    candidate = outcome.latency != null && outcome.latency > warnAt ? 'warning' : 'online';
+  }
+
+  const recent = [...(prev?.recent ?? []), candidate].slice(-FLAP_WINDOW);
+  const transitions = countTransitions(recent);
+  const flapping = prev?.flapping ? transitions > FLAP_EXIT : transitions >= FLAP_ENTER;
+
+  // First probe: nothing to smooth against
+  if (!prev) return { status: candidate, failures, recent, flapping };
+
+  let status = prev.status;
+  if (candidate !== prev.status) {
+    const run = trailingRun(recent);
+    if (flapping) {
+      if (run >= FLAP_HOLD) status = candidate;
+    } else if (STATUS_RANK[candidate] > STATUS_RANK[prev.status] || run >= RECOVER_AFTER) {
+      // Degrade immediately, recover only once the better status has held
+      status = candidate;
+    }
+  }
+
+  // A flapping node is never shown as healthy
+  if (flapping && status === 'online') status = 'warning';
+
+  return { status, failures, recent, flapping };
+}
+
+export type ResourceUsage = { cpu: number | null; memory: number | null; disk: number | null };
+
+// Resources whose usage is over the threshold, e.g. ["CPU 97%"], for nodes scraped via node_exporter
+export function usageWarnings(usage: ResourceUsage, rules: StatusRules = {}): string[] {
+  const limit = rules.usageWarnPercent ?? DEFAULT_RULES.usageWarnPercent;
+  const labels = { cpu: 'CPU', memory: 'Memory', disk: 'Disk' } as const;
+  return (Object.keys(labels) as (keyof ResourceUsage)[])
+    .filter(key => usage[key] != null && usage[key] > limit)
+    .map(key => `${labels[key]} ${Math.round(usage[key] as number)}%`);
+}
+
+// Validates untrusted rule overrides from a request body
+export function validateStatusRules(input: unknown): { error: string } | { rules: StatusRules } {
+  if (typeof input !== 'object' || input === null) return { error: 'Rules must be an object' };
+  const raw = input as Record<string, unknown>;
+  const rules: StatusRules = {};
+
+  if (raw.latencyWarnMs !== undefined && raw.latencyWarnMs !== '') {
+    const value = Number(raw.latencyWarnMs);
+    if (!Number.isFinite(value) || value <= 0) return { error: 'Latency warning threshold must be a positive number' };
+    rules.latencyWarnMs = value;
+  }
+  for (const key of ['failuresToError', 'failuresToOffline'] as const) {
+    if (raw[key] !== undefined && raw[key] !== '') {
+      const value = Number(raw[key]);
+      if (!Number.isInteger(value) || value < 1 || value > 100) return { error: `${key} must be an integer between 1 and 100` };
+      rules[key] = value;
+    }
+  }
+
+  if (raw.usageWarnPercent !== undefined && raw.usageWarnPercent !== '') {
+    const value = Number(raw.usageWarnPercent);
+    if (!Number.isFinite(value) || value < 1 || value > 100) return { error: 'Usage warning threshold must be between 1 and 100 percent' };
+    rules.usageWarnPercent = value;
+  }
+
+  const merged = { ...DEFAULT_RULES, ...rules };
+  if (merged.failuresToError > merged.failuresToOffline) {
+    return { error: 'failuresToError cannot be greater than failuresToOffline' };
+  }
+
+  return { rules };
+}
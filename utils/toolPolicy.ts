@@ -0,0 +1,125 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import net from 'net';
+import dns from 'dns';
+import { ipInCidr, isValidCidr, normalizeIp } from './ipRanges';
+
+export const TOOL_POLICY_FILE = path.join(process.cwd(), 'data', 'tool-policy.json');
+
+// Entries are CIDR blocks ("10.0.0.0/8", "2001:db8::/32", a bare address) or hostname
+// patterns ("localhost", "*.internal"). Allow entries take precedence over deny entries.
+export type ToolPolicy = {
+  allow: string[];
+  deny: string[];
+  allowlistOnly: boolean; // when true, targets must match an allow entry
+};
+
+// Loopback, private, link-local (cloud metadata), CGNAT, multicast and reserved ranges, plus
+// the IPv6 ranges that embed an IPv4 address (mapped, NAT64, 6to4) and could reach the above
+export const DEFAULT_TOOL_POLICY: ToolPolicy = {
+  allow: [],
+  deny: [
+    '0.0.0.0/8', '10.0.0.0/8', '100.64.0.0/10', '127.0.0.0/8', '169.254.0.0/16', '172.16.0.0/12',
+    '192.0.0.0/24', '192.168.0.0/16', '198.18.0.0/15', '224.0.0.0/4', '240.0.0.0/4',
+    '::/128', '::1/128', 'fc00::/7', 'fe80::/10', 'ff00::/8',
+    '::ffff:0:0/96', '64:ff9b::/96', '64:ff9b:1::/48', '2002::/16',
+    'localhost', '*.localhost', '*.internal', '*.local',
+  ],
+  allowlistOnly: false,
+};
+
+export type TargetCheck =
+  | { allowed: true; host: string; address: string; addresses: string[] }
+  | { allowed: false; host: string; reason: string; addresses: string[] };
+
+export async function readToolPolicy(): Promise<ToolPolicy> {
+  try {
+    const data = await fs.readFile(TOOL_POLICY_FILE, 'utf-8');
+    return { ...DEFAULT_TOOL_POLICY, ...JSON.parse(data) };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return DEFAULT_TOOL_POLICY;
+    throw e;
+  }
+}
+
+const globalForPolicy = globalThis as unknown as { __opsglobeToolPolicyQueue?: Promise<unknown> };
+
+// Writes go through a per-process queue, so two saves at once land one after the other
+// instead of racing on the rename
+export function writeToolPolicy(policy: ToolPolicy): Promise<void> {
+  const run = (globalForPolicy.__opsglobeToolPolicyQueue ?? Promise.resolve()).then(async () => {
+    await fs.mkdir(path.dirname(TOOL_POLICY_FILE), { recursive: true });
+    const tmp = `${TOOL_POLICY_FILE}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+    await fs.writeFile(tmp, JSON.stringify(policy, null, 2));
+    await fs.rename(tmp, TOOL_POLICY_FILE);
+  });
+  globalForPolicy.__opsglobeToolPolicyQueue = run.catch(() => {});
+  return run;
+}
+
+const HOSTNAME_PATTERN_RE = /^(\*\.)?[a-z0-9-]+(\.[a-z0-9-]+)*\.?$/i;
+
+const isCidrEntry = (entry: string) => net.isIP(entry.split('/')[0]) !== 0;
+
+export function validateToolPolicy(input: Record<string, unknown>): { error: string } | { policy: ToolPolicy } {
+  const lists: Record<'allow' | 'deny', string[]> = { allow: [], deny: [] };
+  for (const key of ['allow', 'deny'] as const) {
+    const raw = input[key] ?? [];
+    if (!Array.isArray(raw) || !raw.every(e => typeof e === 'string')) return { error: `${key} must be a list of CIDRs or hostnames` };
+    for (const entry of raw.map(e => e.trim().toLowerCase()).filter(Boolean)) {
+      const valid = isCidrEntry(entry) ? isValidCidr(entry) : HOSTNAME_PATTERN_RE.test(entry);
+      if (!valid) return { error: `Invalid ${key} entry: ${entry}` };
+      lists[key].push(entry);
+    }
+  }
+  return { policy: { ...lists, allowlistOnly: Boolean(input.allowlistOnly) } };
+}
+
+const hostMatches = (host: string, pattern: string) => {
+  const h = host.toLowerCase().replace(/\.$/, '');
+  const p = pattern.replace(/\.$/, '');
+  return p.startsWith('*.') ? h.endsWith(p.slice(1)) : h === p;
+};
+
+const matchEntry = (entries: string[], host: string, address?: string) =>
+  entries.find(e => (isCidrEntry(e) ? address !== undefined && ipInCidr(address, e) : hostMatches(host, e)));
+
+// Resolves the target and checks the name and every address it resolves to. Tools must
+// connect to the returned address, never re-resolve the name, so a DNS answer that changes
+// between the check and the connection (rebinding) can't reach a denied address.
+export async function checkTarget(target: string, { resolve = true }: { resolve?: boolean } = {}): Promise<TargetCheck> {
+  const host = target.trim().replace(/^\[(.*)\]$/, '$1');
+  const policy = await readToolPolicy();
+  const hostAllowed = !net.isIP(host) && matchEntry(policy.allow, host);
+
+  if (!hostAllowed) {
+    const denied = !net.isIP(host) && matchEntry(policy.deny, host);
+    if (denied) return { allowed: false, host, reason: `Hostname matches deny rule ${denied}`, addresses: [] };
+  }
+  if (!resolve) {
+    if (policy.allowlistOnly && !hostAllowed && !(net.isIP(host) && matchEntry(policy.allow, host, host))) {
+      return { allowed: false, host, reason: 'Target is not on the allow list', addresses: [] };
+    }
+    return { allowed: true, host, address: host, addresses: [] };
+  }
+
+  let addresses: string[];
+  try {
+    addresses = net.isIP(host) ? [host] : (await dns.promises.lookup(host, { all: true })).map(a => a.address);
+  } catch (e) {
+    return { allowed: false, host, reason: `Could not resolve ${host}: ${(e as NodeJS.ErrnoException).code ?? (e as Error).message}`, addresses: [] };
+  }
+  addresses = addresses.map(normalizeIp);
+
+  // Every address must pass; otherwise a name with one public and one internal record
+  // could still be steered to the internal one
+  for (const address of addresses) {
+    if (hostAllowed || matchEntry(policy.allow, host, address)) continue;
+    if (policy.allowlistOnly) return { allowed: false, host, reason: `${address} is not on the allow list`, addresses };
+    const denied = matchEntry(policy.deny, host, address);
+    if (denied) return { allowed: false, host, reason: `${address} is in denied range ${denied}`, addresses };
+  }
+
+  return { allowed: true, host, address: addresses[0], addresses };
+}
@@ -0,0 +1,53 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { AuditOutcome } from './audit';
+import { createKeyedQueue, nodeFile, replaceFile } from './nodeFiles';
+
+export const TOOL_RUNS_DIR = path.join(process.cwd(), 'data', 'tool-runs');
+
+// The last tool runs against a node, so whoever opens it next sees what was already checked
+export type ToolRunRecord = {
+  t: string;        // ISO timestamp
+  user: string;
+  tool: string;
+  options?: Record<string, unknown>;
+  outcome: AuditOutcome;
+  result: string;   // plain-text result, truncated
+};
+
+const MAX_RUNS = 20;
+const MAX_RESULT = 4000;
+
+// Writes per node are chained so two runs finishing together don't drop one another
+const enqueue = createKeyedQueue();
+
+const runsFile = (nodeId: string) => nodeFile(TOOL_RUNS_DIR, nodeId, '.json');
+
+// Newest first
+export async function readToolRuns(nodeId: string): Promise<ToolRunRecord[]> {
+  try {
+    return JSON.parse(await fs.readFile(runsFile(nodeId), 'utf-8'));
+  } catch {
+    return [];
+  }
+}
+
+// Failures are logged, never thrown, like the audit log: the run itself already happened
+export function recordToolRun(nodeId: string, run: Omit<ToolRunRecord, 't'>): Promise<void> {
+  const record: ToolRunRecord = {
+    t: new Date().toISOString(),
+    ...run,
+    result: run.result.length > MAX_RESULT ? `${run.result.slice(0, MAX_RESULT)}…` : run.result,
+  };
+  return enqueue(nodeId, async () => {
+    const runs = [record, ...await readToolRuns(nodeId)].slice(0, MAX_RUNS);
+    await fs.mkdir(TOOL_RUNS_DIR, { recursive: true });
+    await replaceFile(runsFile(nodeId), JSON.stringify(runs, null, 2));
+  }).catch(e => console.error(`Could not record tool run for ${nodeId}:`, e));
+}
+
+export function deleteToolRuns(nodeId: string): Promise<void> {
+  return enqueue(nodeId, async () => {
+    await fs.rm(runsFile(nodeId), { force: true });
+  });
+}
@@ -0,0 +1,85 @@
+// Network tool descriptions shared by the API and the dashboard.
+// Kept free of Node imports so the tools panel can render its forms from GET /api/tools.
+
+export type ToolFieldType = 'text' | 'number' | 'select' | 'checkbox' | 'textarea' | 'headers';
+
+export type ToolValue = string | number | boolean | Record<string, string> | undefined;
+export type ToolValues = Record<string, ToolValue>;
+
+export type ToolField = {
+  name: string;
+  label: string;
+  type: ToolFieldType;    // headers: "Name: value" lines in the form, an object in the API
+  options?: string[];     // select
+  default?: string | number | boolean;
+  min?: number;           // number
+  max?: number;           // number
+  placeholder?: string;
+  help?: string;
+  showIf?: { field: string; equals: (string | boolean)[] }; // only used while another field has one of these values
+};
+
+export type ToolInfo = {
+  name: string;
+  label: string;
+  description: string;
+  targetPlaceholder: string;
+  fields: ToolField[];
+  streaming: boolean;     // answers with newline-delimited JSON: {item} lines, then {result, data} or {error}
+};
+
+// What a tool run answers with: a plain-text rendering plus the tool's typed data
+export type ToolResponse<T = unknown> = {
+  tool: string;
+  result: string;
+  data?: T;
+};
+
+const MAX_TEXT = 1000;
+
+export const fieldVisible = (field: ToolField, values: ToolValues) =>
+  !field.showIf || field.showIf.equals.includes(values[field.showIf.field] as string | boolean);
+
+// Validates untrusted tool options against the tool's fields. Missing values take the
+// field default; values of hidden fields are dropped.
+export function validateToolInput(fields: ToolField[], raw: Record<string, unknown>): { error: string } | { values: ToolValues } {
+  const values: ToolValues = {};
+  for (const field of fields) {
+    const input = raw[field.name];
+    if (input === undefined || input === null || input === '') {
+      values[field.name] = field.default;
+      continue;
+    }
+    switch (field.type) {
+      case 'number': {
+        const n = Number(input);
+        if (!Number.isInteger(n)) return { error: `${field.label} must be a whole number` };
+        if ((field.min !== undefined && n < field.min) || (field.max !== undefined && n > field.max)) {
+          return { error: `${field.label} must be between ${field.min ?? '-∞'} and ${field.max ?? '∞'}` };
+        }
+        values[field.name] = n;
+        break;
+      }
+      case 'select':
+        if (!field.options?.includes(String(input))) return { error: `${field.label} must be one of ${field.options?.join(', ')}` };
+        values[field.name] = String(input);
+        break;
+      case 'checkbox':
+        values[field.name] = input === true || input === 'true';
+        break;
+      case 'headers':
+        // Checked by the tool itself; only the shape is known here
+        if (typeof input !== 'object' || Array.isArray(input)) return { error: `${field.label} must be an object of name: value pairs` };
+        values[field.name] = input as Record<string, string>;
+        break;
+      default:
+        if (typeof input !== 'string' && typeof input !== 'number') return { error: `${field.label} must be text` };
+        if (String(input).length > MAX_TEXT) return { error: `${field.label} is too long` };
+        values[field.name] = String(input);
+    }
+  }
+  for (const field of fields) {
+    if (!fieldVisible(field, values)) values[field.name] = undefined;
+  }
+  return { values };
+}
@@ -0,0 +1,271 @@
+import net from 'net';
+import { checkTarget } from './toolPolicy';
+import { lookupLocation } from './geoip';
+import type { AuditOutcome } from './audit';
+import { ToolInfo, ToolValues } from './toolSchema';
+import { traceroute, TraceHop, TraceProtocol, TRACE_PROTOCOLS } from './traceroute';
+import { probeHttp, parseProbeUrl, validateProbeHeaders, formatHttpProbe, HttpProbeMethod, HTTP_PROBE_METHODS, DEFAULT_PROBE_TIMEOUT_MS } from './httpProbe';
+import { queryDns, systemResolver, DnsAnswer, DnsRecordType, DNS_RECORD_TYPES, PROPAGATION_RESOLVERS } from './dnsQuery';
+import { scanPorts, parsePortSpec, PortScanResult, MAX_SCAN_PORTS } from './portScan';
+import { inspectCertificate, formatCertificateReport } from './certs';
+import { nodeRepository } from './nodeStore';
+import { PUBLIC_NODES } from './publicNodes';
+
+// The server side of the network tools. Each tool declares its options as fields (served
+// to the dashboard by GET /api/tools) and returns a text rendering plus typed data; the
+// route handles auth, rate limits, the target policy and the audit log for all of them.
+
+export type ToolContext = {
+  target: string;  // as typed, e.g. a URL for the http tool
+  host: string;    // normalized hostname or IP that passed the policy
+  address: string; // the policy-checked address to connect to
+  signal: AbortSignal;
+};
+
+export type ToolOutput = {
+  result: string;  // plain-text rendering, also written to the audit log
+  data?: unknown;
+  outcome?: AuditOutcome;
+  address?: string; // recorded in the audit log instead of the checked address
+};
+
+export type ToolDefinition = ToolInfo & {
+  resolve?: boolean;                                          // whether the target must resolve (default true)
+  check?: (values: ToolValues, target: string) => string | null; // validation beyond the field schema
+  policyTarget?: (values: ToolValues, target: string) => string; // the name checked against the policy
+  extraTargets?: (values: ToolValues) => { label: string; target: string }[]; // also checked, e.g. a resolver
+  run?: (values: ToolValues, ctx: ToolContext) => Promise<ToolOutput>;
+  stream?: (values: ToolValues, ctx: ToolContext, emit: (item: unknown) => void) => Promise<ToolOutput>;
+};
+
+export type PingData = { alive: boolean; port?: number; latencyMs?: number };
+export type DnsLookupData = { name: string; recordType: DnsRecordType; answers: DnsAnswer[]; agree?: boolean };
+
+const errorMessage = (e: unknown) => (e instanceof Error ? e.message : String(e));
+
+// Resolves with the connect time in ms
+const checkPort = (address: string, port: number) => {
+  return new Promise<number>((resolve, reject) => {
+    const socket = new net.Socket();
+    const start = Date.now();
+    socket.setTimeout(2000);
+
+    socket.on('connect', () => {
+      const duration = Date.now() - start;
+      socket.destroy();
+      resolve(duration);
+    });
+
+    socket.on('timeout', () => {
+      socket.destroy();
+      reject(new Error('Timeout'));
+    });
+
+    socket.on('error', (err) => {
+      socket.destroy();
+      reject(err);
+    });
+
+    socket.connect(port, address);
+  });
+};
+
+const formatAnswer = (answer: DnsAnswer) => {
+  const header = `;; ${answer.label ? `${answer.label} ` : ''}${answer.resolver}: ${answer.error ?? answer.rcode} (${answer.timeMs}ms)`;
+  return [header, ...answer.records.map(r => `${r.name}\t${r.ttl}\t${r.type}\t${r.value}`)].join('\n');
+};
+
+// Looks the name up at one resolver, or at every configured one for the propagation view.
+// TXT lookups also fetch the domain's DMARC policy, which lives at _dmarc.<name>.
+const runDnsLookup = async (target: string, recordType: DnsRecordType, resolver: string | undefined, propagation: boolean): Promise<ToolOutput> => {
+  const names = recordType === 'TXT' && !target.startsWith('_dmarc.') ? [target, `_dmarc.${target}`] : [target];
+  const ask = async (server: string, label?: string): Promise<DnsAnswer> => {
+    const [first, ...rest] = await Promise.all(names.map(name => queryDns(name, recordType, server, label)));
+    return { ...first, records: [...first.records, ...rest.flatMap(a => a.records)] };
+  };
+
+  if (propagation) {
+    const answers = await Promise.all(PROPAGATION_RESOLVERS.map(r => ask(r.address, r.label)));
+    const distinct = new Set(answers.filter(a => !a.error).map(a => a.records.map(r => r.value).sort().join('|')));
+    const summary = distinct.size > 1 ? 'Resolvers DISAGREE' : 'All responding resolvers agree';
+    const data: DnsLookupData = { name: target, recordType, answers, agree: distinct.size <= 1 };
+    return { result: `${recordType} ${target}: ${summary}\n\n${answers.map(formatAnswer).join('\n\n')}`, data };
+  }
+
+  const answer = await ask(resolver ?? systemResolver(), resolver ? undefined : 'system');
+  const data: DnsLookupData = { name: target, recordType, answers: [answer] };
+  return { result: `${recordType} ${target}\n${formatAnswer(answer)}`, data };
+};
+
+const PORT_FIELD = { name: 'port', label: 'Port', type: 'number' as const, min: 1, max: 65535 };
+
+export const TOOLS: ToolDefinition[] = [
+  {
+    name: 'ping',
+    label: 'Ping',
+    description: 'TCP reachability check against ports 80 and 443',
+    targetPlaceholder: 'Domain or IP...',
+    fields: [],
+    streaming: false,
+    run: async (_values, { host, address }) => {
+      for (const port of [80, 443]) {
+        try {
+          const latencyMs = await checkPort(address, port);
+          const data: PingData = { alive: true, port, latencyMs };
+          return { result: `Target ${host} is ALIVE (Port ${port}). Latency: ${latencyMs}ms`, data };
+        } catch {
+          // try the next port
+        }
+      }
+      const data: PingData = { alive: false };
+      return { result: `Target ${host} unreachable (Ports 80/443 closed or timeout).`, data };
+    },
+  },
+  {
+    name: 'nslookup',
+    label: 'DNS',
+    description: 'DNS records with TTLs from one resolver or several side by side',
+    targetPlaceholder: 'Domain, or an IP for PTR...',
+    fields: [
+      { name: 'recordType', label: 'Type', type: 'select', options: [...DNS_RECORD_TYPES], default: 'A' },
+      { name: 'propagation', label: 'Propagation', type: 'checkbox', default: false, help: 'Ask every configured public resolver and compare' },
+      { name: 'resolver', label: 'Resolver', type: 'text', placeholder: 'Resolver IP (system default)', showIf: { field: 'propagation', equals: [false] } },
+    ],
+    streaming: false,
+    // Only our resolvers are contacted, so only the hostname rules apply to the name
+    resolve: false,
+    check: (values) => (values.resolver && !net.isIP(String(values.resolver)) ? 'Resolver must be an IP address' : null),
+    // The system and configured propagation resolvers are trusted; a custom one is a target like any other
+    extraTargets: (values) => (values.resolver ? [{ label: 'Resolver', target: String(values.resolver) }] : []),
+    run: async (values, { host }) => {
+      const resolver = values.resolver as string | undefined;
+      return { ...await runDnsLookup(host, values.recordType as DnsRecordType, resolver, Boolean(values.propagation)), address: resolver };
+    },
+  },
+  {
+    name: 'ssl',
+    label: 'SSL',
+    description: 'Certificate chain, TLS version and cipher, trust and hostname checks',
+    targetPlaceholder: 'Domain or IP...',
+    fields: [{ ...PORT_FIELD, default: 443 }],
+    streaming: false,
+    run: async (values, { host, address }) => {
+      try {
+        const cert = await inspectCertificate(host, address, values.port as number);
+        return { result: formatCertificateReport(cert), data: cert };
+      } catch (error) {
+        return { result: `SSL Check Failed: ${errorMessage(error)}`, outcome: 'error' };
+      }
+    },
+  },
+  {
+    name: 'port',
+    label: 'Port',
+    description: `Port scan with banner grabbing, up to ${MAX_SCAN_PORTS} ports`,
+    targetPlaceholder: 'Domain or IP...',
+    fields: [{ name: 'ports', label: 'Ports', type: 'text', default: '22,80,443,3306,5432,6379,8080,8443', placeholder: '22,80,8000-8100', help: 'Ports to scan: a list and/or ranges' }],
+    streaming: true,
+    check: (values) => {
+      const spec = parsePortSpec(String(values.ports));
+      return 'error' in spec ? spec.error : null;
+    },
+    // Ports finish in completion order; the final data is sorted by port
+    stream: async (values, { host, address, signal }, emit) => {
+      const spec = parsePortSpec(String(values.ports));
+      const ports = 'ports' in spec ? spec.ports : [];
+      const results: PortScanResult[] = await scanPorts(address, ports, { signal, onResult: emit });
+      const open = results.filter(r => r.state === 'open');
+      const closed = results.filter(r => r.state === 'closed').length;
+      const summary = `Scanned ${results.length} of ${ports.length} port(s) on ${host} (${address}): ${open.length} open, ${closed} closed, ${results.length - open.length - closed} filtered.`;
+      const list = open.map(r => `${r.port}${r.service ? `/${r.service}` : ''}`).join(', ');
+      return { result: `${summary}${open.length ? ` Open: ${list}` : ''}`, data: results };
+    },
+  },
+  {
+    name: 'traceroute',
+    label: 'Trace',
+    description: 'Route to the target, with each hop drawn on the globe',
+    targetPlaceholder: 'Domain or IP...',
+    fields: [
+      { name: 'protocol', label: 'Protocol', type: 'select', options: TRACE_PROTOCOLS, default: 'udp', help: 'ICMP and TCP need raw socket access on the server' },
+      { ...PORT_FIELD, default: 80, showIf: { field: 'protocol', equals: ['tcp'] } },
+    ],
+    streaming: true,
+    // Takes tens of seconds, so each hop is emitted once it has been geolocated
+    stream: async (values, { host, address, signal }, emit) => {
+      const protocol = values.protocol as TraceProtocol;
+      const hops: TraceHop[] = [];
+      const lookups: Promise<void>[] = [];
+      try {
+        await traceroute(address, {
+          protocol,
+          port: values.port as number | undefined,
+          signal,
+          onHop: (hop) => {
+            lookups.push((async () => {
+              const geo = hop.address ? await lookupLocation(hop.address) : null;
+              const located = geo ? { ...hop, lat: geo.lat, lng: geo.lng, region: geo.region } : hop;
+              hops.push(located);
+              emit(located);
+            })());
+          },
+        });
+      } finally {
+        await Promise.all(lookups);
+      }
+      hops.sort((a, b) => a.hop - b.hop);
+      const reached = hops[hops.length - 1]?.address === address;
+      const summary = `Traceroute to ${host} (${address}) over ${protocol.toUpperCase()}: ${hops.length} hop(s), ${reached ? 'destination reached' : 'destination not reached'}.`;
+      return { result: `${summary}\n${hops.map(h => h.address ?? '*').join(' > ')}`, data: hops };
+    },
+  },
+  {
+    name: 'http',
+    label: 'HTTP',
+    description: 'Request timing waterfall across the redirect chain',
+    targetPlaceholder: 'https://example.com/path',
+    fields: [
+      { name: 'method', label: 'Method', type: 'select', options: [...HTTP_PROBE_METHODS], default: 'GET' },
+      { name: 'timeoutMs', label: 'Timeout (ms)', type: 'number', min: 500, max: 30000, default: DEFAULT_PROBE_TIMEOUT_MS },
+      { name: 'headers', label: 'Headers', type: 'headers', placeholder: 'Extra headers, one per line\nAccept: application/json' },
+    ],
+    streaming: false,
+    check: (values, target) => {
+      if (!parseProbeUrl(target)) return 'Target must be an http(s) URL or hostname';
+      const headers = validateProbeHeaders(values.headers);
+      return 'error' in headers ? headers.error : null;
+    },
+    policyTarget: (_values, target) => parseProbeUrl(target)!.hostname,
+    // Every redirect hop is checked against the policy again inside probeHttp
+    run: async (values, { target }) => {
+      const headers = validateProbeHeaders(values.headers);
+      const probe = await probeHttp(parseProbeUrl(target)!, {
+        method: values.method as HttpProbeMethod,
+        headers: 'headers' in headers ? headers.headers : {},
+        timeoutMs: values.timeoutMs as number,
+      });
+      return { result: formatHttpProbe(probe), data: probe, outcome: probe.denied ? 'denied' : 'ok' };
+    },
+  },
+];
+
+export const findTool = (name: unknown) => TOOLS.find(t => t.name === name);
+
+// The parts of each tool the dashboard needs to draw its form
+export const toolInfo = (): ToolInfo[] =>
+  TOOLS.map(({ name, label, description, targetPlaceholder, fields, streaming }) => ({ name, label, description, targetPlaceholder, fields, streaming }));
+
+// Checks each additional target a tool contacts; returns the first refusal
+export async function checkExtraTargets(tool: ToolDefinition, values: ToolValues) {
+  for (const extra of tool.extraTargets?.(values) ?? []) {
+    const check = await checkTarget(extra.target);
+    if (!check.allowed) return { ...extra, reason: check.reason };
+  }
+  return null;
+}
+
+// A node tools can be run against by id: a registered node or one of the public resolvers
+export async function findToolNode(id: string): Promise<{ id: string; name: string; ip: string } | null> {
+  const node = PUBLIC_NODES.find(n => n.id === id) ?? await nodeRepository().get(id);
+  return node ? { id: node.id, name: node.name, ip: node.ip } : null;
+}
@@ -0,0 +1,113 @@
+import { spawn } from 'child_process';
+import net from 'net';
+
+export type TraceHop = {
+  hop: number;
+  address: string | null;  // null when every probe for this hop timed out
+  rtts: (number | null)[]; // ms per probe, null for a lost probe
+  lat?: number;
+  lng?: number;
+  region?: string;
+};
+
+export type TraceProtocol = 'udp' | 'icmp' | 'tcp';
+
+// traceroute(8) needs raw sockets for anything but UDP, so TCP and ICMP only work when the
+// server runs with CAP_NET_RAW; UDP is the default for that reason.
+const PROTOCOL_FLAGS: Record<TraceProtocol, string[]> = {
+  udp: [],
+  icmp: ['-I'],
+  tcp: ['-T'],
+};
+
+export const TRACE_PROTOCOLS = Object.keys(PROTOCOL_FLAGS) as TraceProtocol[];
+
+const TRACEROUTE_BIN = process.env.TRACEROUTE_BIN || 'traceroute';
+const MAX_HOPS = 30;
+const PROBES_PER_HOP = 3;
+const PROBE_WAIT_SEC = 2;
+const TRACE_TIMEOUT_MS = 90 * 1000;
+
+// Parses one line of `traceroute -n` output, e.g.
+//    3  203.0.113.9  11.204 ms  10.981 ms 198.51.100.4  12.033 ms
+//    4  * * *
+// Returns null for the header and anything else that isn't a hop line.
+export function parseHopLine(line: string): TraceHop | null {
+  const match = /^\s*(\d+)\s+(.*)$/.exec(line);
+  if (!match) return null;
+
+  const hop: TraceHop = { hop: parseInt(match[1], 10), address: null, rtts: [] };
+  const tokens = match[2].trim().split(/\s+/);
+  for (let i = 0; i < tokens.length; i++) {
+    const token = tokens[i];
+    if (token === '*') {
+      hop.rtts.push(null);
+    } else if (net.isIP(token)) {
+      // Later responders for the same hop (load-balanced paths) are ignored; the first one is drawn
+      hop.address ??= token;
+    } else if (tokens[i + 1] === 'ms' && Number.isFinite(parseFloat(token))) {
+      hop.rtts.push(parseFloat(token));
+      i++;
+    }
+    // Anything else is an annotation such as !H or !N
+  }
+  return hop;
+}
+
+// Runs the system traceroute against an already policy-checked address and calls onHop for
+// each hop as soon as its line is printed. Resolves when the trace ends.
+export function traceroute(
+  address: string,
+  { protocol = 'udp', port, signal, onHop }: { protocol?: TraceProtocol; port?: number; signal?: AbortSignal; onHop: (hop: TraceHop) => void }
+): Promise<void> {
+  const args = [
+    '-n',
+    '-q', String(PROBES_PER_HOP),
+    '-w', String(PROBE_WAIT_SEC),
+    '-m', String(MAX_HOPS),
+    ...PROTOCOL_FLAGS[protocol],
+    ...(port && protocol !== 'icmp' ? ['-p', String(port)] : []),
+    net.isIPv6(address) ? '-6' : '-4',
+    address,
+  ];
+
+  return new Promise((resolve, reject) => {
+    const child = spawn(TRACEROUTE_BIN, args, { stdio: ['ignore', 'pipe', 'pipe'] });
+    let buffer = '';
+    let stderr = '';
+
+    const stop = () => child.kill();
+    const timer = setTimeout(stop, TRACE_TIMEOUT_MS);
+    signal?.addEventListener('abort', stop);
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', stop);
+    };
+
+    child.stdout.setEncoding('utf-8');
+    child.stdout.on('data', (chunk: string) => {
+      buffer += chunk;
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+      for (const line of lines) {
+        const hop = parseHopLine(line);
+        if (hop) onHop(hop);
+      }
+    });
+    child.stderr.setEncoding('utf-8');
+    child.stderr.on('data', (chunk: string) => (stderr += chunk));
+
+    child.on('error', (err: NodeJS.ErrnoException) => {
+      finish();
+      reject(err.code === 'ENOENT' ? new Error('traceroute is not installed on the server') : err);
+    });
+    child.on('close', (code) => {
+      finish();
+      const hop = parseHopLine(buffer);
+      if (hop) onHop(hop);
+      // Killed by the timeout or an aborted request: what was traced so far stands
+      if (code === 0 || code === null) return resolve();
+      reject(new Error(stderr.trim().split('\n').pop() || `traceroute exited with code ${code}`));
+    });
+  });
+}
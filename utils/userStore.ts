@@ -0,0 +1,118 @@
+import crypto from 'crypto';
+import fs from 'fs/promises';
+import path from 'path';
+import util from 'util';
+import { Role, isRole } from './roles';
+
+export const USERS_FILE = path.join(process.cwd(), 'data', 'users.json');
+
+export type User = {
+  id: string;
+  username: string;
+  role: Role;
+  passwordHash?: string; // local users only
+  oidcSubject?: string;  // `${issuer}|${sub}` for users created by single sign-on
+  createdAt: string;
+};
+
+export type ApiToken = {
+  id: string;
+  name: string;
+  role: Role;
+  hash: string; // SHA-256 of the token; the token itself is only shown once
+  createdBy: string;
+  createdAt: string;
+  lastUsedAt?: string;
+};
+
+export type AuthStore = {
+  users: User[];
+  tokens: ApiToken[];
+};
+
+export type PublicUser = Omit<User, 'passwordHash'> & { sso: boolean };
+export type PublicToken = Omit<ApiToken, 'hash'>;
+
+const scrypt = util.promisify(crypto.scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+const KEY_LENGTH = 64;
+
+// Stored as scrypt:<salt>:<key>, both base64
+export async function hashPassword(password: string): Promise<string> {
+  const salt = crypto.randomBytes(16);
+  const key = await scrypt(password, salt, KEY_LENGTH);
+  return `scrypt:${salt.toString('base64')}:${key.toString('base64')}`;
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [scheme, salt, key] = stored.split(':');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scrypt(password, Buffer.from(salt, 'base64'), expected.length);
+  return crypto.timingSafeEqual(actual, expected);
+}
+
+export async function readAuthStore(): Promise<AuthStore> {
+  try {
+    const data = await fs.readFile(USERS_FILE, 'utf-8');
+    return { users: [], tokens: [], ...JSON.parse(data) };
+  } catch (e) {
+    if ((e as NodeJS.ErrnoException).code === 'ENOENT') return { users: [], tokens: [] };
+    throw e;
+  }
+}
+
+const writeAuthStore = async (store: AuthStore) => {
+  await fs.mkdir(path.dirname(USERS_FILE), { recursive: true });
+  const tmp = `${USERS_FILE}.${process.pid}.${crypto.randomBytes(4).toString('hex')}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(store, null, 2), { mode: 0o600 });
+  await fs.rename(tmp, USERS_FILE);
+};
+
+const globalForUsers = globalThis as unknown as { __opsglobeUsersQueue?: Promise<unknown> };
+
+// Read-modify-write under a per-process queue, so e.g. a token's lastUsedAt update
+// can't overwrite a user created at the same moment
+export function updateAuthStore<T>(fn: (store: AuthStore) => T | Promise<T>): Promise<T> {
+  const run = (globalForUsers.__opsglobeUsersQueue ?? Promise.resolve()).then(async () => {
+    const store = await readAuthStore();
+    const result = await fn(store);
+    await writeAuthStore(store);
+    return result;
+  });
+  globalForUsers.__opsglobeUsersQueue = run.catch(() => {});
+  return run;
+}
+
+export function publicUser(user: User): PublicUser {
+  return { id: user.id, username: user.username, role: user.role, oidcSubject: user.oidcSubject, createdAt: user.createdAt, sso: !user.passwordHash };
+}
+
+export function publicToken(token: ApiToken): PublicToken {
+  return { id: token.id, name: token.name, role: token.role, createdBy: token.createdBy, createdAt: token.createdAt, lastUsedAt: token.lastUsedAt };
+}
+
+const USERNAME_RE = /^[a-zA-Z0-9._@-]{1,64}$/;
+export const MIN_PASSWORD_LENGTH = 10;
+
+// Validates a user body. With `existing`, every field is optional.
+export function validateUserInput(input: Record<string, unknown>, existing?: User): { error: string } | { username?: string; password?: string; role?: Role } {
+  const result: { username?: string; password?: string; role?: Role } = {};
+
+  if (input.username !== undefined || !existing) {
+    if (typeof input.username !== 'string' || !USERNAME_RE.test(input.username)) {
+      return { error: 'Username must be 1-64 letters, digits or . _ @ -' };
+    }
+    result.username = input.username;
+  }
+  if (input.password !== undefined || !existing) {
+    if (typeof input.password !== 'string' || input.password.length < MIN_PASSWORD_LENGTH) {
+      return { error: `Password must be at least ${MIN_PASSWORD_LENGTH} characters` };
+    }
+    result.password = input.password;
+  }
+  if (input.role !== undefined || !existing) {
+    if (!isRole(input.role)) return { error: 'Role must be viewer, operator or admin' };
+    result.role = input.role;
+  }
+  return result;
+}
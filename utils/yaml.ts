@@ -0,0 +1,213 @@
+// Just enough YAML for node inventories: block mappings and sequences, plain and quoted
+// scalars, flow lists like [a, b] and comments. Anchors, tags, multi-document files and
+// block scalars (| and >) are rejected rather than misread.
+
+export class YamlError extends Error {
+  constructor(message: string, public line: number) {
+    super(`Line ${line}: ${message}`);
+  }
+}
+
+type Line = { indent: number; text: string; line: number };
+
+// Drops a trailing comment, which needs whitespace before the # and can't be inside quotes
+const stripComment = (text: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '#' && (i === 0 || /\s/.test(text[i - 1]))) {
+      return text.slice(0, i).trimEnd();
+    }
+  }
+  return text.trimEnd();
+};
+
+// Index of the ": " (or final ":") separating a mapping key from its value, outside quotes
+const keySeparator = (text: string) => {
+  let quote: string | null = null;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if ((ch === '"' || ch === "'") && i === 0) {
+      quote = ch;
+    } else if (ch === ':' && (i === text.length - 1 || text[i + 1] === ' ')) {
+      return i;
+    }
+  }
+  return -1;
+};
+
+// Splits the inside of a flow collection on commas outside quotes and brackets
+const splitFlow = (text: string) => {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote: string | null = null;
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quote) {
+      if (ch === quote) quote = null;
+    } else if (ch === '"' || ch === "'") {
+      quote = ch;
+    } else if (ch === '[' || ch === '{') {
+      depth++;
+    } else if (ch === ']' || ch === '}') {
+      depth--;
+    } else if (ch === ',' && depth === 0) {
+      parts.push(text.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  const last = text.slice(start).trim();
+  if (last) parts.push(last);
+  return parts;
+};
+
+const parseScalar = (raw: string, line: number): unknown => {
+  const text = raw.trim();
+  if (text.startsWith('"')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new YamlError('Invalid double-quoted string', line);
+    }
+  }
+  if (text.startsWith("'")) {
+    if (!text.endsWith("'") || text.length < 2) throw new YamlError('Unterminated single-quoted string', line);
+    return text.slice(1, -1).replace(/''/g, "'");
+  }
+  if (text.startsWith('[')) {
+    if (!text.endsWith(']')) throw new YamlError('Unterminated flow sequence', line);
+    return splitFlow(text.slice(1, -1)).map(part => parseScalar(part, line));
+  }
+  if (text.startsWith('{')) {
+    if (!text.endsWith('}')) throw new YamlError('Unterminated flow mapping', line);
+    return Object.fromEntries(splitFlow(text.slice(1, -1)).map(part => {
+      const sep = keySeparator(part);
+      if (sep === -1) throw new YamlError(`Expected "key: value" in flow mapping, got "${part}"`, line);
+      return [String(parseScalar(part.slice(0, sep), line)), parseScalar(part.slice(sep + 1), line)];
+    }));
+  }
+  if (/^[|>&*!]/.test(text)) throw new YamlError(`Unsupported YAML syntax "${text[0]}"`, line);
+  if (text === '' || text === '~' || text === 'null') return null;
+  if (text === 'true') return true;
+  if (text === 'false') return false;
+  if (/^-?(\d+|\d*\.\d+)(e[-+]?\d+)?$/i.test(text)) return Number(text);
+  return text;
+};
+
+export function parseYaml(text: string): unknown {
+  const lines: Line[] = [];
+  text.split(/\r?\n/).forEach((raw, i) => {
+    if (/^ *\t/.test(raw)) throw new YamlError('Tabs are not allowed for indentation', i + 1);
+    const stripped = stripComment(raw);
+    const trimmed = stripped.trim();
+    if (!trimmed || trimmed === '---' || trimmed === '...') return;
+    lines.push({ indent: stripped.length - stripped.trimStart().length, text: trimmed, line: i + 1 });
+  });
+  if (lines.length === 0) return null;
+
+  let pos = 0;
+  const isItem = (l: Line) => l.text === '-' || l.text.startsWith('- ');
+
+  const parseBlock = (indent: number): unknown => (isItem(lines[pos]) ? parseSequence(indent) : parseMapping(indent));
+
+  // The value after "key:" or "- " when it continues on the following lines
+  const parseNested = (parentIndent: number, sameIndentItems: boolean): unknown => {
+    const next = lines[pos];
+    if (!next) return null;
+    if (next.indent > parentIndent) return parseBlock(next.indent);
+    // A list may sit at its key's own indent
+    if (sameIndentItems && next.indent === parentIndent && isItem(next)) return parseSequence(parentIndent);
+    return null;
+  };
+
+  const parseSequence = (indent: number): unknown[] => {
+    const items: unknown[] = [];
+    while (pos < lines.length && lines[pos].indent === indent && isItem(lines[pos])) {
+      const current = lines[pos];
+      const rest = current.text.slice(1).trimStart();
+      if (!rest) {
+        pos++;
+        items.push(parseNested(indent, false));
+      } else if (keySeparator(rest) !== -1 && !/^[[{]/.test(rest)) {
+        // "- key: value" starts a mapping indented to where the key begins
+        const innerIndent = indent + current.text.indexOf(rest);
+        lines[pos] = { ...current, indent: innerIndent, text: rest };
+        items.push(parseMapping(innerIndent));
+      } else {
+        pos++;
+        items.push(parseScalar(rest, current.line));
+      }
+    }
+    return items;
+  };
+
+  const parseMapping = (indent: number): Record<string, unknown> => {
+    const map: Record<string, unknown> = {};
+    while (pos < lines.length && lines[pos].indent === indent && !isItem(lines[pos])) {
+      const current = lines[pos];
+      const sep = keySeparator(current.text);
+      if (sep === -1) throw new YamlError(`Expected "key: value", got "${current.text}"`, current.line);
+      const key = String(parseScalar(current.text.slice(0, sep), current.line));
+      const value = current.text.slice(sep + 1).trim();
+      pos++;
+      map[key] = value ? parseScalar(value, current.line) : parseNested(indent, true);
+    }
+    return map;
+  };
+
+  const result = parseBlock(lines[0].indent);
+  if (pos < lines.length) throw new YamlError('Unexpected indentation', lines[pos].line);
+  return result;
+}
+
+// Plain scalars that would read back as something else need quotes
+const needsQuotes = (value: string) =>
+  value === '' ||
+  value !== value.trim() ||
+  /^[-?:,[\]{}#&*!|>'"%@`~]/.test(value) ||
+  /: |\s#|[\r\n\t]/.test(value) ||
+  value.endsWith(':') ||
+  /^(true|false|null|yes|no|on|off)$/i.test(value) ||
+  /^[-+]?(\d|\.\d)/.test(value);
+
+const formatScalar = (value: unknown): string => {
+  if (value === null || value === undefined) return 'null';
+  if (Array.isArray(value)) return '[]';
+  if (typeof value === 'object') return '{}';
+  if (typeof value === 'string') return needsQuotes(value) ? JSON.stringify(value) : value;
+  return String(value);
+};
+
+const isCollection = (value: unknown): value is object =>
+  typeof value === 'object' && value !== null && (Array.isArray(value) ? value.length > 0 : Object.keys(value).length > 0);
+
+// Block style throughout; empty lists and mappings come out as [] and {}
+export function toYaml(value: unknown, indent = 0): string {
+  const pad = ' '.repeat(indent);
+  if (Array.isArray(value)) {
+    if (value.length === 0) return `${pad}[]\n`;
+    return value.map(item => {
+      if (!isCollection(item)) return `${pad}- ${formatScalar(item)}\n`;
+      // The first line of a nested block moves up next to the dash
+      const nested = toYaml(item, indent + 2);
+      return `${pad}- ${nested.slice(indent + 2)}`;
+    }).join('');
+  }
+  if (typeof value === 'object' && value !== null) {
+    const entries = Object.entries(value).filter(([, v]) => v !== undefined);
+    if (entries.length === 0) return `${pad}{}\n`;
+    return entries.map(([key, v]) => {
+      const k = formatScalar(key);
+      if (!isCollection(v)) return `${pad}${k}: ${formatScalar(v)}\n`;
+      return `${pad}${k}:\n${toYaml(v, indent + 2)}`;
+    }).join('');
+  }
+  return `${pad}${formatScalar(value)}\n`;
+}